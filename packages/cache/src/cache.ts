@@ -8,6 +8,7 @@ import {
 } from "@miniflare/core";
 import {
   Clock,
+  RequestContext,
   SITES_NO_CACHE_PREFIX,
   Storage,
   assertInRequest,
@@ -57,6 +58,44 @@ function getKey(req: BaseRequest | Request): string {
   }
 }
 
+// Normalises a header value for comparing vary values, ignoring differences
+// in whitespace
+function normaliseVaryValue(value: string | null): string | null {
+  return (
+    value
+      ?.trim()
+      .replace(/\s*,\s*/g, ",")
+      .replace(/\s+/g, " ") ?? null
+  );
+}
+
+// Gets the values of request headers named by the response's `Vary` header.
+// Cached responses will only be matched by requests with the same values.
+function getVaryValues(
+  reqHeaders: Headers,
+  resHeaders: Headers
+): Record<string, string | null> | undefined {
+  const vary = resHeaders.get("Vary");
+  if (vary === null) return;
+  const values: Record<string, string | null> = {};
+  for (const name of vary.split(",")) {
+    const lowerName = name.trim().toLowerCase();
+    if (lowerName === "") continue;
+    values[lowerName] = normaliseVaryValue(reqHeaders.get(lowerName));
+  }
+  return values;
+}
+
+function varyMatches(
+  reqHeaders: Headers,
+  vary: Record<string, string | null> | undefined
+): boolean {
+  if (vary === undefined) return true;
+  return Object.entries(vary).every(
+    ([name, value]) => normaliseVaryValue(reqHeaders.get(name)) === value
+  );
+}
+
 function getExpirationTtl(
   clock: Clock,
   req: BaseRequest | Request,
@@ -178,13 +217,19 @@ export interface InternalCacheOptions {
   formDataFiles?: boolean;
   clock?: Clock;
   blockGlobalAsyncIO?: boolean;
+  // Whether operations count towards the subrequest limit. The zone cache used
+  // by fetch() disables this, as fetch() counts its own subrequests.
+  countSubrequests?: boolean;
 }
 
+export const kPutWithTtl = Symbol("kPutWithTtl");
+
 export class Cache implements CacheInterface {
   readonly #storage: Storage;
   readonly #formDataFiles: boolean;
   readonly #clock: Clock;
   readonly #blockGlobalAsyncIO: boolean;
+  readonly #countSubrequests: boolean;
 
   constructor(
     storage: Storage,
@@ -192,21 +237,40 @@ export class Cache implements CacheInterface {
       formDataFiles = true,
       clock = defaultClock,
       blockGlobalAsyncIO = false,
+      countSubrequests = true,
     }: InternalCacheOptions = {}
   ) {
     this.#storage = storage;
     this.#formDataFiles = formDataFiles;
     this.#clock = clock;
     this.#blockGlobalAsyncIO = blockGlobalAsyncIO;
+    this.#countSubrequests = countSubrequests;
+  }
+
+  #getRequestContext(): RequestContext | undefined {
+    if (this.#blockGlobalAsyncIO) assertInRequest();
+    const ctx = getRequestContext();
+    if (this.#countSubrequests) ctx?.incrementExternalSubrequests();
+    return ctx;
   }
 
   async put(
     req: RequestInfo,
     res: BaseResponse | Response
   ): Promise<undefined> {
-    if (this.#blockGlobalAsyncIO) assertInRequest();
-    const ctx = getRequestContext();
-    ctx?.incrementExternalSubrequests();
+    await this[kPutWithTtl](req, res);
+    return undefined;
+  }
+
+  // Puts a response in the cache, returning whether it was stored. If
+  // `expirationTtl` (in milliseconds) is set, it's used instead of the TTL
+  // derived from the response's headers.
+  async [kPutWithTtl](
+    req: RequestInfo,
+    res: BaseResponse | Response,
+    expirationTtl?: number
+  ): Promise<boolean> {
+    const ctx = this.#getRequestContext();
     req = normaliseRequest(req);
 
     if (res instanceof Response && res.webSocket) {
@@ -227,18 +291,23 @@ export class Cache implements CacheInterface {
     // Disable caching of Workers Sites files, so we always serve the latest
     // version from disk
     const url = new URL(req.url);
-    if (url.pathname.startsWith("/" + SITES_NO_CACHE_PREFIX)) return;
+    if (url.pathname.startsWith("/" + SITES_NO_CACHE_PREFIX)) return false;
 
-    // Check if response cacheable and get expiration TTL if any
-    const expirationTtl = getExpirationTtl(this.#clock, req, res);
-    if (expirationTtl === undefined) return;
+    // Check if response cacheable and get expiration TTL if any, responses
+    // that would expire immediately are never stored
+    expirationTtl ??= getExpirationTtl(this.#clock, req, res);
+    if (expirationTtl === undefined || expirationTtl <= 0) return false;
 
     // If it is cacheable, store it
     const key = getKey(req);
+    // Only one response is stored per key, so putting a response with
+    // different vary values replaces the previous one
     const metadata: CachedMeta = {
       status: res.status,
       headers: [...res.headers],
     };
+    const vary = getVaryValues(req.headers, res.headers);
+    if (vary !== undefined) metadata.vary = vary;
     await waitForOpenOutputGate();
     await this.#storage.put(key, {
       value: new Uint8Array(await res.arrayBuffer()),
@@ -247,15 +316,14 @@ export class Cache implements CacheInterface {
     });
     await waitForOpenInputGate();
     ctx?.advanceCurrentTime();
+    return true;
   }
 
   async match(
     req: RequestInfo,
     options?: CacheMatchOptions
   ): Promise<Response | undefined> {
-    if (this.#blockGlobalAsyncIO) assertInRequest();
-    const ctx = getRequestContext();
-    ctx?.incrementExternalSubrequests();
+    const ctx = this.#getRequestContext();
     req = normaliseRequest(req);
     // Cloudflare only caches GET requests
     if (req.method !== "GET" && !options?.ignoreMethod) return;
@@ -278,6 +346,8 @@ export class Cache implements CacheInterface {
           "delete it."
       );
     }
+    // Check the request has the same values for headers the response varies on
+    if (!varyMatches(req.headers, cached.metadata.vary)) return;
 
     // Build Response from cache
     const headers = new Headers(cached.metadata.headers);
@@ -299,15 +369,20 @@ export class Cache implements CacheInterface {
     req: RequestInfo,
     options?: CacheMatchOptions
   ): Promise<boolean> {
-    if (this.#blockGlobalAsyncIO) assertInRequest();
-    const ctx = getRequestContext();
-    ctx?.incrementExternalSubrequests();
+    const ctx = this.#getRequestContext();
     req = normaliseRequest(req);
     // Cloudflare only caches GET requests
     if (req.method !== "GET" && !options?.ignoreMethod) return false;
 
-    // Delete the cached response if it exists
+    // Delete the cached response if it exists, and would be matched by the
+    // request
     const key = getKey(req);
+    const cached = await this.#storage.head<CachedMeta>(key);
+    if (!varyMatches(req.headers, cached?.metadata?.vary)) {
+      await waitForOpenInputGate();
+      ctx?.advanceCurrentTime();
+      return false;
+    }
     await waitForOpenOutputGate();
     const result = this.#storage.delete(key);
     await waitForOpenInputGate();
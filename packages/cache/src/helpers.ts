@@ -9,6 +9,9 @@ export interface CacheMatchOptions {
 export interface CachedMeta {
   status: number;
   headers: [string, string][];
+  // Values of request headers named by the response's `Vary` header when the
+  // response was cached, `null` if the header wasn't set
+  vary?: Record<string, string | null>;
 }
 
 export interface CacheInterface {
@@ -3,3 +3,4 @@ export * from "./error";
 export * from "./helpers";
 export * from "./noop";
 export * from "./plugin";
+export * from "./zone";
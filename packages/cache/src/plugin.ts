@@ -12,8 +12,12 @@ import { Cache, InternalCacheOptions } from "./cache";
 import { CacheError } from "./error";
 import { CacheInterface } from "./helpers";
 import { NoOpCache } from "./noop";
+import { ZoneCache } from "./zone";
 
 const DEFAULT_CACHE_NAME = "default";
+// Namespace for responses cached by fetch(). This contains a ":" so it's
+// unlikely to conflict with named caches.
+const ZONE_CACHE_NAME = "default:fetch";
 const MAX_CACHE_NAME_SIZE = 1024;
 const NOOP_CACHE = new NoOpCache();
 
@@ -151,6 +155,17 @@ export class CachePlugin extends Plugin<CacheOptions> implements CacheOptions {
         })
       : caches;
 
+    // Route fetch() subrequests with `cf` cache options through the zone cache.
+    // Async I/O is never blocked here, as fetch() already checks that.
+    if (this.ctx.fetchCache !== undefined) {
+      this.ctx.fetchCache.current =
+        this.cache === false
+          ? undefined
+          : new ZoneCache(storageFactory.storage(ZONE_CACHE_NAME, persist), {
+              formDataFiles: files,
+            });
+    }
+
     return { globals: { caches } };
   }
 
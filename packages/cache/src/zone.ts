@@ -0,0 +1,124 @@
+import {
+  Request,
+  RequestInitCfProperties,
+  Response,
+  withImmutableHeaders,
+} from "@miniflare/core";
+import { FetchCache, Storage, getRequestContext } from "@miniflare/shared";
+import { Cache, InternalCacheOptions, kPutWithTtl } from "./cache";
+
+export type CacheStatus = "HIT" | "MISS" | "BYPASS" | "DYNAMIC";
+
+// Statuses Cloudflare caches by default, and their TTLs in seconds if the
+// origin doesn't specify any caching headers:
+// https://developers.cloudflare.com/cache/how-to/configure-cache-status-code#edge-ttl
+const DEFAULT_STATUS_TTLS: Record<number, number> = {
+  200: 7200,
+  206: 7200,
+  301: 7200,
+  302: 1200,
+  303: 1200,
+  404: 180,
+  410: 180,
+};
+
+// Gets the TTL in seconds set by `cacheTtlByStatus` or `cacheTtl` for a
+// response status, if any. Keys of `cacheTtlByStatus` are either single
+// statuses (e.g. "404") or inclusive ranges (e.g. "200-299").
+function getForcedTtl(
+  cf: RequestInitCfProperties,
+  status: number
+): number | undefined {
+  if (cf.cacheTtlByStatus !== undefined) {
+    for (const [statuses, ttl] of Object.entries(cf.cacheTtlByStatus)) {
+      const [from, to] = statuses.split("-").map(Number);
+      if (from <= status && status <= (to ?? from)) return ttl;
+    }
+  }
+  if (cf.cacheTtl !== undefined && status in DEFAULT_STATUS_TTLS) {
+    return cf.cacheTtl;
+  }
+}
+
+function withCacheStatus(res: Response, status: CacheStatus): Response {
+  res = new Response(res.body, res);
+  res.headers.set("CF-Cache-Status", status);
+  return withImmutableHeaders(res);
+}
+
+// Cache used for fetch() subrequests with `cf` cache options, emulating
+// Cloudflare's zone cache:
+// https://developers.cloudflare.com/workers/learning/how-the-cache-works#fetch
+export class ZoneCache implements FetchCache<Request, Response> {
+  readonly #cache: Cache;
+
+  constructor(storage: Storage, options?: InternalCacheOptions) {
+    this.#cache = new Cache(storage, { ...options, countSubrequests: false });
+  }
+
+  async fetch(
+    req: Request,
+    fetcher: (req: Request) => Promise<Response>
+  ): Promise<Response> {
+    // Cloudflare only caches GET requests, and WebSocket upgrade responses
+    // can't be cached
+    if (req.method !== "GET") {
+      return withCacheStatus(await fetcher(req), "DYNAMIC");
+    }
+    if (req.headers.get("Upgrade")?.toLowerCase() === "websocket") {
+      return fetcher(req);
+    }
+
+    const cached = await this.#cache.match(req);
+    if (cached !== undefined) {
+      // Cache hits are still subrequests, they just don't reach the origin
+      getRequestContext()?.incrementExternalSubrequests();
+      return cached;
+    }
+
+    const res = await fetcher(req);
+    const cf = (req.cf ?? {}) as RequestInitCfProperties;
+    const forcedTtl = getForcedTtl(cf, res.status);
+    let stored = false;
+    if (
+      // Cloudflare never caches responses with Set-Cookie headers, partial
+      // responses, or responses that vary on everything
+      !res.headers.has("Set-Cookie") &&
+      res.status !== 206 &&
+      !res.headers.get("Vary")?.includes("*") &&
+      (forcedTtl === undefined || forcedTtl > 0)
+    ) {
+      let ttl = forcedTtl;
+      // If caching everything, use default TTLs if the origin doesn't specify
+      // how long to cache for
+      const cacheEverything =
+        cf.cacheEverything ||
+        cf.cacheTtl !== undefined ||
+        cf.cacheTtlByStatus !== undefined;
+      if (
+        ttl === undefined &&
+        cacheEverything &&
+        !res.headers.has("Cache-Control") &&
+        !res.headers.has("Expires")
+      ) {
+        ttl = DEFAULT_STATUS_TTLS[res.status];
+      }
+      stored = await this.#cache[kPutWithTtl](
+        req,
+        res.clone(),
+        ttl === undefined ? undefined : ttl * 1000
+      );
+    }
+
+    // Responses that weren't stored bypassed the cache if they had an explicit
+    // TTL or headers affecting caching, otherwise they were never cacheable
+    const cacheable =
+      forcedTtl !== undefined ||
+      res.headers.has("Cache-Control") ||
+      res.headers.has("Set-Cookie");
+    return withCacheStatus(
+      res,
+      stored ? "MISS" : cacheable ? "BYPASS" : "DYNAMIC"
+    );
+  }
+}
@@ -148,6 +148,69 @@ test("Cache: respects cache key", async (t) => {
   t.is(await match2?.text(), "value2");
 });
 
+test("Cache: stores vary header values with response", async (t) => {
+  const { storage, cache } = t.context;
+  const req = new Request("http://localhost:8787/test", {
+    headers: { "Accept-Encoding": "gzip,  br", "Accept-Language": "de" },
+  });
+  const res = new Response("value", {
+    headers: {
+      "Cache-Control": "max-age=3600",
+      Vary: "Accept-Encoding, accept-language, User-Agent",
+    },
+  });
+  await cache.put(req, res);
+  const stored = await storage.get<CachedMeta>("http://localhost:8787/test");
+  t.deepEqual(stored?.metadata?.vary, {
+    "accept-encoding": "gzip,br",
+    "accept-language": "de",
+    "user-agent": null,
+  });
+});
+test("Cache: only matches requests with same vary header values", async (t) => {
+  const { cache } = t.context;
+  const url = "http://localhost:8787/test";
+  const res = new Response("gzip", {
+    headers: { "Cache-Control": "max-age=3600", Vary: "Accept-Encoding" },
+  });
+  await cache.put(
+    new Request(url, { headers: { "Accept-Encoding": "gzip" } }),
+    res
+  );
+
+  // Check requests with different or missing values don't match
+  let match = await cache.match(
+    new Request(url, { headers: { "Accept-Encoding": "br" } })
+  );
+  t.is(match, undefined);
+  t.is(await cache.match(url), undefined);
+  // Check header names are case-insensitive, and values compared ignoring
+  // whitespace
+  match = await cache.match(
+    new Request(url, {
+      headers: { "accept-encoding": " gzip ", "Accept-Language": "de" },
+    })
+  );
+  t.is(await match?.text(), "gzip");
+
+  // Check responses without Vary headers match all requests
+  await cache.put(url, testResponse("any"));
+  match = await cache.match(
+    new Request(url, { headers: { "Accept-Encoding": "br" } })
+  );
+  t.is(await match?.text(), "any");
+});
+test("Cache: only matches requests without varied headers if they were missing", async (t) => {
+  const { cache } = t.context;
+  const url = "http://localhost:8787/test";
+  const res = new Response("body", {
+    headers: { "Cache-Control": "max-age=3600", Vary: "Accept-Language" },
+  });
+  await cache.put(url, res);
+  t.not(await cache.match(url), undefined);
+  const req = new Request(url, { headers: { "Accept-Language": "de" } });
+  t.is(await cache.match(req), undefined);
+});
 test("Cache: put increments subrequest count", async (t) => {
   const { cache } = t.context;
   const ctx = new RequestContext(requestCtxOptions);
@@ -358,6 +421,23 @@ test("Cache: only deletes non-GET requests when ignoring method", async (t) => {
   t.true(await cache.delete(req, { ignoreMethod: true }));
 });
 
+test("Cache: only deletes requests with same vary header values", async (t) => {
+  const { storage, cache } = t.context;
+  const url = "http://localhost:8787/test";
+  const res = new Response("body", {
+    headers: { "Cache-Control": "max-age=3600", Vary: "Accept-Language" },
+  });
+  await cache.put(
+    new Request(url, { headers: { "Accept-Language": "de" } }),
+    res
+  );
+  const enReq = new Request(url, { headers: { "Accept-Language": "en" } });
+  t.false(await cache.delete(enReq));
+  t.true(await storage.has(url));
+  const deReq = new Request(url, { headers: { "Accept-Language": "de" } });
+  t.true(await cache.delete(deReq));
+  t.false(await storage.has(url));
+});
 test("Cache: delete increments subrequest count", async (t) => {
   const { cache } = t.context;
   const ctx = new RequestContext(requestCtxOptions);
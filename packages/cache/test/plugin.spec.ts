@@ -6,10 +6,13 @@ import {
   CacheStorage,
   CachedMeta,
   NoOpCache,
+  ZoneCache,
 } from "@miniflare/cache";
+import { Request } from "@miniflare/core";
 import { QueueBroker } from "@miniflare/queues";
 import {
   Compatibility,
+  FetchCacheRef,
   LogLevel,
   NoOpLog,
   PluginContext,
@@ -172,6 +175,27 @@ test("CachePlugin: setup: includes CacheStorage in globals", async (t) => {
   t.true(caches.default instanceof NoOpCache);
   t.true((await caches.open("test")) instanceof NoOpCache);
 });
+test("CachePlugin: setup: sets fetch cache", async (t) => {
+  const map = new Map<string, StoredValueMeta<CachedMeta>>();
+  const factory = new MemoryStorageFactory({
+    ["test://map:default:fetch"]: map,
+  });
+  const fetchCache: FetchCacheRef = {};
+
+  let plugin = new CachePlugin(
+    { ...ctx, fetchCache },
+    { cachePersist: "test://map" }
+  );
+  plugin.setup(factory);
+  t.true(fetchCache.current instanceof ZoneCache);
+  const req = new Request("http://localhost:8787/", { cf: { cacheTtl: 60 } });
+  await fetchCache.current?.fetch(req, async () => testResponse());
+  t.true(map.has("http://localhost:8787/"));
+
+  plugin = new CachePlugin({ ...ctx, fetchCache }, { cache: false });
+  plugin.setup(factory);
+  t.is(fetchCache.current, undefined);
+});
 test("CachePlugin: setup: resolves persist path relative to rootPath", async (t) => {
   const tmp = await useTmp(t);
   const map = new Map<string, StoredValueMeta<CachedMeta>>();
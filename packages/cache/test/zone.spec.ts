@@ -0,0 +1,169 @@
+import { CachedMeta, ZoneCache } from "@miniflare/cache";
+import {
+  Request,
+  RequestInitCfProperties,
+  Response,
+  ResponseInit,
+} from "@miniflare/core";
+import {
+  EXTERNAL_SUBREQUEST_LIMIT_BUNDLED,
+  RequestContext,
+  Storage,
+} from "@miniflare/shared";
+import { MemoryStorage } from "@miniflare/storage-memory";
+import anyTest, { TestInterface } from "ava";
+
+interface Context {
+  storage: Storage;
+  cache: ZoneCache;
+  // Returns the cached response and number of upstream requests made
+  fetch: (
+    cf?: RequestInitCfProperties,
+    init?: ResponseInit & { method?: string; url?: string }
+  ) => Promise<[res: Response, upstreamCount: number]>;
+}
+
+const test = anyTest as TestInterface<Context>;
+
+test.beforeEach((t) => {
+  const clock = () => 1_000_000; // 1000s
+  const storage = new MemoryStorage(undefined, clock);
+  const cache = new ZoneCache(storage, { clock });
+  let upstreamCount = 0;
+  const fetch: Context["fetch"] = async (cf, init) => {
+    const req = new Request(init?.url ?? "http://localhost/", {
+      method: init?.method,
+      cf,
+    });
+    const res = await cache.fetch(req, async () => {
+      upstreamCount++;
+      return new Response(`body${upstreamCount}`, init);
+    });
+    return [res, upstreamCount];
+  };
+  t.context = { storage, cache, fetch };
+});
+
+test("ZoneCache: caches responses with cacheTtl", async (t) => {
+  const { storage, fetch } = t.context;
+  const cf: RequestInitCfProperties = { cacheTtl: 60 };
+  let [res, count] = await fetch(cf);
+  t.is(res.headers.get("CF-Cache-Status"), "MISS");
+  t.is(await res.text(), "body1");
+  t.is(count, 1);
+
+  // cacheTtl overrides origin headers
+  const stored = await storage.get<CachedMeta>("http://localhost/");
+  t.is(stored?.expiration, 1000 + 60);
+
+  [res, count] = await fetch(cf, { headers: { "Cache-Control": "no-store" } });
+  t.is(res.headers.get("CF-Cache-Status"), "HIT");
+  t.is(await res.text(), "body1");
+  t.is(count, 1);
+});
+test("ZoneCache: caches responses with cacheTtlByStatus", async (t) => {
+  const { storage, fetch } = t.context;
+  const cf: RequestInitCfProperties = {
+    cacheTtlByStatus: { "200-299": 60, 404: 30, "500-599": -1 },
+  };
+  let [res] = await fetch(cf, { url: "http://localhost/a", status: 201 });
+  t.is(res.headers.get("CF-Cache-Status"), "MISS");
+  let stored = await storage.get<CachedMeta>("http://localhost/a");
+  t.is(stored?.expiration, 1000 + 60);
+
+  [res] = await fetch(cf, { url: "http://localhost/b", status: 404 });
+  t.is(res.headers.get("CF-Cache-Status"), "MISS");
+  stored = await storage.get<CachedMeta>("http://localhost/b");
+  t.is(stored?.expiration, 1000 + 30);
+
+  // Check negative TTLs disable caching
+  [res] = await fetch(cf, { url: "http://localhost/c", status: 503 });
+  t.is(res.status, 503);
+  t.is(res.headers.get("CF-Cache-Status"), "BYPASS");
+  t.false(await storage.has("http://localhost/c"));
+});
+test("ZoneCache: caches responses with cacheEverything", async (t) => {
+  const { storage, fetch } = t.context;
+  const cf: RequestInitCfProperties = { cacheEverything: true };
+  // Check default TTLs used if origin doesn't include caching headers
+  await fetch(cf, { url: "http://localhost/a" });
+  let stored = await storage.get<CachedMeta>("http://localhost/a");
+  t.is(stored?.expiration, 1000 + 7200);
+  await fetch(cf, { url: "http://localhost/b", status: 404 });
+  stored = await storage.get<CachedMeta>("http://localhost/b");
+  t.is(stored?.expiration, 1000 + 180);
+
+  // Check origin headers respected if included
+  await fetch(cf, {
+    url: "http://localhost/c",
+    headers: { "Cache-Control": "max-age=600" },
+  });
+  stored = await storage.get<CachedMeta>("http://localhost/c");
+  t.is(stored?.expiration, 1000 + 600);
+  const [res] = await fetch(cf, {
+    url: "http://localhost/d",
+    headers: { "Cache-Control": "no-store" },
+  });
+  t.is(res.headers.get("CF-Cache-Status"), "BYPASS");
+  t.false(await storage.has("http://localhost/d"));
+});
+test("ZoneCache: caches responses with custom cacheKey", async (t) => {
+  const { storage, fetch } = t.context;
+  const cf: RequestInitCfProperties = { cacheKey: "key", cacheTtl: 60 };
+  await fetch(cf, { url: "http://localhost/a" });
+  t.true(await storage.has("key"));
+  const [res, count] = await fetch(cf, { url: "http://localhost/b" });
+  t.is(res.headers.get("CF-Cache-Status"), "HIT");
+  t.is(await res.text(), "body1");
+  t.is(count, 1);
+});
+test("ZoneCache: only respects origin headers without cacheEverything", async (t) => {
+  const { storage, fetch } = t.context;
+  const [res] = await fetch({ cacheKey: "key" });
+  t.is(res.headers.get("CF-Cache-Status"), "DYNAMIC");
+  t.false(await storage.has("key"));
+
+  await fetch(
+    { cacheKey: "key" },
+    { headers: { "Cache-Control": "max-age=600" } }
+  );
+  const stored = await storage.get<CachedMeta>("key");
+  t.is(stored?.expiration, 1000 + 600);
+});
+test("ZoneCache: never caches responses with Set-Cookie headers", async (t) => {
+  const { storage, fetch } = t.context;
+  const [res] = await fetch(
+    { cacheTtl: 60 },
+    { headers: { "Set-Cookie": "key=value" } }
+  );
+  t.is(res.headers.get("CF-Cache-Status"), "BYPASS");
+  t.false(await storage.has("http://localhost/"));
+});
+test("ZoneCache: only caches GET requests", async (t) => {
+  const { storage, fetch } = t.context;
+  let [res, count] = await fetch({ cacheTtl: 60 }, { method: "POST" });
+  t.is(res.headers.get("CF-Cache-Status"), "DYNAMIC");
+  t.false(await storage.has("http://localhost/"));
+  [res, count] = await fetch({ cacheTtl: 60 }, { method: "POST" });
+  t.is(await res.text(), "body2");
+  t.is(count, 2);
+});
+test("ZoneCache: returns responses with immutable headers", async (t) => {
+  const { fetch } = t.context;
+  let [res] = await fetch({ cacheTtl: 60 });
+  t.throws(() => res.headers.set("X-Key", "value"), { instanceOf: TypeError });
+  [res] = await fetch({ cacheTtl: 60 });
+  t.throws(() => res.headers.set("X-Key", "value"), { instanceOf: TypeError });
+});
+test("ZoneCache: only counts hits as subrequests", async (t) => {
+  const { fetch } = t.context;
+  const ctx = new RequestContext({
+    externalSubrequestLimit: EXTERNAL_SUBREQUEST_LIMIT_BUNDLED,
+  });
+  // Misses are counted by the fetcher
+  await ctx.runWith(() => fetch({ cacheTtl: 60 }));
+  t.is(ctx.externalSubrequests, 0);
+  const [res] = await ctx.runWith(() => fetch({ cacheTtl: 60 }));
+  t.is(res.headers.get("CF-Cache-Status"), "HIT");
+  t.is(ctx.externalSubrequests, 1);
+});
@@ -1,12 +1,19 @@
 import fs from "fs/promises";
 import path from "path";
 import { URL } from "url";
-import { QueueBroker } from "@miniflare/queues";
+import {
+  QueueBroker,
+  QueueMessages,
+  WorkerQueue,
+  kDispatchPending,
+  kGetMessages,
+} from "@miniflare/queues";
 import {
   AdditionalModules,
   BeforeSetupResult,
   Compatibility,
   Context,
+  FetchCacheRef,
   Log,
   MessageBatch,
   Mutex,
@@ -44,6 +51,7 @@ import {
 } from "./plugins";
 import { Router } from "./router";
 import {
+  IncomingRequestCfProperties,
   Request,
   RequestInfo,
   RequestInit,
@@ -280,6 +288,7 @@ export class MiniflareCore<
   #watcherCallbackMutex?: Mutex;
   #previousWatchPaths?: Set<string>;
   #previousFetchMock?: MockAgent;
+  readonly #fetchCache: FetchCacheRef = {};
 
   constructor(
     plugins: Plugins,
@@ -423,6 +432,7 @@ export class MiniflareCore<
       usageModel,
       globalAsyncIO,
       fetchMock,
+      fetchCache: this.#fetchCache,
       queueEventDispatcher,
       queueBroker,
     };
@@ -494,6 +504,7 @@ export class MiniflareCore<
         kvPersist?: boolean | string;
         cachePersist?: boolean | string;
         durableObjectsPersist?: boolean | string;
+        queuesPersist?: boolean | string;
       } = { watch: this.#watching || undefined };
 
       // Copy defined storage persistence options, we want mounted workers to
@@ -520,6 +531,13 @@ export class MiniflareCore<
       if (durableObjectsPersist !== undefined) {
         defaultMountOptions.durableObjectsPersist = durableObjectsPersist;
       }
+      const queuesPersist = resolveStoragePersist(
+        rootPath,
+        options.QueuesPlugin?.queuesPersist
+      );
+      if (queuesPersist !== undefined) {
+        defaultMountOptions.queuesPersist = queuesPersist;
+      }
 
       // Create new and update existing mounts
       for (const [name, rawOptions] of Object.entries(mounts)) {
@@ -980,6 +998,10 @@ export class MiniflareCore<
     return this.#ctx.log;
   }
 
+  get queueBroker(): QueueBroker {
+    return this.#ctx.queueBroker;
+  }
+
   async reload(): Promise<void> {
     await this.#initPromise;
     // Force re-build of all plugins, regardless of whether options have changed
@@ -1014,6 +1036,28 @@ export class MiniflareCore<
     return storage;
   }
 
+  // Passes a request for a utility path to each plugin in turn, returning the
+  // first response, or undefined if no plugin handles it. `url` is the URL the
+  // request was received on, before any upstream rewriting.
+  async dispatchUtilityRequest(
+    request: Request,
+    url: URL
+  ): Promise<Response | undefined> {
+    await this.#initPromise;
+    for (const [name] of this.#plugins) {
+      const instance = this.#instances![name];
+      if (instance.handleUtilityRequest) {
+        const response: Response | undefined =
+          await instance.handleUtilityRequest(
+            this.getPluginStorage(name),
+            request,
+            url
+          );
+        if (response !== undefined) return response;
+      }
+    }
+  }
+
   async getPlugins(): Promise<PluginInstances<Plugins>> {
     await this.#initPromise;
     return this.#instances!;
@@ -1085,9 +1129,12 @@ export class MiniflareCore<
       (parseInt(request.headers.get(_kLoopHeader)!) || 0) + 1;
     // Hide the loop header from the user
     request.headers.delete(_kLoopHeader);
+    // Requests are handled by the edge location in their `cf` object, if any
+    const cf = request.cf as IncomingRequestCfProperties | undefined;
     return new RequestContext({
       requestDepth,
       pipelineDepth: 1,
+      location: cf?.colo,
       externalSubrequestLimit: usageModelExternalSubrequestLimit(usageModel),
     }).runWith(() =>
       this[kDispatchFetch](
@@ -1142,11 +1189,41 @@ export class MiniflareCore<
     );
   }
 
-  async dispatchQueue<WaitUntil extends any[] = unknown[]>(
+  async getQueueProducer<Body = unknown>(
+    queueName: string
+  ): Promise<WorkerQueue<Body>> {
+    // Wait for setup so persisted messages have been restored
+    await this.#initPromise;
+    return this.#ctx.queueBroker.getOrCreateQueue(
+      queueName
+    ) as WorkerQueue<Body>;
+  }
+
+  async getQueueMessages<Body = unknown>(
+    queueName: string
+  ): Promise<QueueMessages<Body>> {
+    const queue = await this.getQueueProducer<Body>(queueName);
+    return queue[kGetMessages]();
+  }
+
+  // Dispatching a queue by name sends the messages, then delivers everything
+  // visible to the queue's consumers, through the broker, without waiting for
+  // the batch timeout
+  dispatchQueue<WaitUntil extends any[] = unknown[]>(
     batch: MessageBatch
-  ): Promise<WaitUntil> {
+  ): Promise<WaitUntil>;
+  dispatchQueue(queueName: string, messages?: unknown[]): Promise<void>;
+  async dispatchQueue<WaitUntil extends any[] = unknown[]>(
+    batch: MessageBatch | string,
+    messages: unknown[] = []
+  ): Promise<WaitUntil | void> {
     await this.#initPromise;
 
+    if (typeof batch === "string") {
+      const queue = await this.getQueueProducer(batch);
+      return queue[kDispatchPending](messages.map((body) => ({ body })));
+    }
+
     const { usageModel } = this.#instances!.CorePlugin;
     const globalScope = this.#globalScope;
 
@@ -82,7 +82,7 @@ export interface RequestInitCfPropertiesImage
   extends BasicImageTransformations {
   dpr?: number;
   quality?: number;
-  format?: "avif" | "webp" | "json";
+  format?: "avif" | "webp" | "json" | "jpeg" | "png";
   metadata?: "keep" | "copyright" | "none";
   draw?: RequestInitCfPropertiesImageDraw[];
 }
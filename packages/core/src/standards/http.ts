@@ -54,6 +54,8 @@ import {
   buildNotBufferSourceError,
   isBufferSource,
 } from "./helpers";
+import { _transformImage } from "./image";
+import { _minifyResponse } from "./minify";
 import { _isByteStream, kContentLength } from "./streams";
 
 // We need these for making Request's Headers immutable
@@ -756,10 +758,6 @@ export async function fetch(
   input: RequestInfo,
   init?: RequestInit
 ): Promise<Response> {
-  // TODO (someday): support cache using fetch (could add to request context?):
-  //  https://developers.cloudflare.com/workers/learning/how-the-cache-works#fetch
-  //  https://developers.cloudflare.com/workers/examples/cache-using-fetch
-
   const ctx = getRequestContext();
   ctx?.incrementExternalSubrequests();
 
@@ -861,12 +859,24 @@ export function _buildUnknownProtocolWarning(url: URL): string {
   return warning;
 }
 
+// Returns whether a subrequest should be routed through the zone cache:
+// https://developers.cloudflare.com/workers/learning/how-the-cache-works#fetch
+function hasCacheOptions(cf?: RequestInitCfProperties): boolean {
+  return (
+    cf?.cacheEverything === true ||
+    cf?.cacheTtl !== undefined ||
+    cf?.cacheTtlByStatus !== undefined ||
+    cf?.cacheKey !== undefined
+  );
+}
+
 export function createCompatFetch(
   {
     log,
     compat,
     globalAsyncIO,
-  }: Pick<PluginContext, "log" | "compat" | "globalAsyncIO">,
+    fetchCache,
+  }: Pick<PluginContext, "log" | "compat" | "globalAsyncIO" | "fetchCache">,
   inner: typeof fetch = fetch
 ): typeof fetch {
   const refusesUnknown = compat.isEnabled("fetch_refuses_unknown_protocols");
@@ -901,7 +911,27 @@ export function createCompatFetch(
         input = url.toString().replace(url.protocol, "http:");
       }
     }
-    let res = await inner(input, init);
+    let res: Response;
+    const cache = fetchCache?.current;
+    // Incoming request properties don't include any options used here. Like
+    // `new Request(input, init)`, `init` takes precedence over `input`.
+    const cf = (init?.cf ??
+      (input instanceof Request ? input.cf : undefined)) as
+      | RequestInitCfProperties
+      | undefined;
+    if (cache !== undefined && hasCacheOptions(cf)) {
+      res = await cache.fetch(new Request(input, init), (req: Request) =>
+        inner(req)
+      );
+    } else {
+      res = await inner(input, init);
+    }
+    if (cf?.image !== undefined) {
+      res = await _transformImage(res, cf.image, (url) => inner(url), log);
+    }
+    if (cf?.minify !== undefined) {
+      res = await _minifyResponse(res, cf.minify, log);
+    }
     if (!formDataFiles) res = withStringFormDataFiles(res);
     return res;
   };
@@ -0,0 +1,569 @@
+import { Log } from "@miniflare/shared";
+import { decode as decodeJpeg, encode as encodeJpeg } from "jpeg-js";
+import { PNG } from "pngjs";
+import { Headers } from "undici";
+import {
+  BasicImageTransformations,
+  RequestInitCfPropertiesImage,
+  RequestInitCfPropertiesImageDraw,
+} from "./cf";
+import { Response, withImmutableHeaders } from "./http";
+
+// Decoded image, with 4 bytes (RGBA) per pixel
+interface Bitmap {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+type ImageFormat = "png" | "jpeg";
+type Color = [r: number, g: number, b: number, a: number];
+
+const CONTENT_TYPES: Record<ImageFormat, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+};
+const DEFAULT_QUALITY = 85;
+// Cloudflare limits resized images to 12,000 pixels per side, and 100
+// megapixels in total. Requested dimensions are clamped to the former, and
+// images exceeding the latter are rejected before decoding or allocating them.
+const MAX_DIMENSION = 12_000;
+const MAX_AREA = 100_000_000;
+const WHITE: Color = [255, 255, 255, 255];
+const TRANSPARENT: Color = [0, 0, 0, 0];
+const NAMED_COLORS: Record<string, Color> = {
+  transparent: TRANSPARENT,
+  white: WHITE,
+  black: [0, 0, 0, 255],
+  red: [255, 0, 0, 255],
+  green: [0, 128, 0, 255],
+  blue: [0, 0, 255, 255],
+};
+
+// Image resizing failures are reported with a `Cf-Resized` header, containing
+// an error code:
+// https://developers.cloudflare.com/images/image-resizing/troubleshooting/
+class ImageError extends Error {
+  constructor(readonly code: number, message: string, readonly status = 415) {
+    super(message);
+  }
+}
+
+function errorResponse({ code, message, status }: ImageError): Response {
+  return withImmutableHeaders(
+    new Response(`ERROR ${code}: ${message}`, {
+      status,
+      headers: { "Cf-Resized": `err=${code}` },
+    })
+  );
+}
+
+function detectFormat(bytes: Uint8Array): ImageFormat | undefined {
+  if (
+    bytes[0] === 0x89 &&
+    bytes[1] === 0x50 && // P
+    bytes[2] === 0x4e && // N
+    bytes[3] === 0x47 // G
+  ) {
+    return "png";
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "jpeg";
+  }
+}
+
+// Reads an image's dimensions from its header, without decoding it: from the
+// IHDR chunk for PNGs, or the first start-of-frame segment for JPEGs
+function readDimensions(
+  format: ImageFormat,
+  bytes: Uint8Array
+): [width: number, height: number] | undefined {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (format === "png") {
+    if (bytes.byteLength < 24) return;
+    return [view.getUint32(16), view.getUint32(20)];
+  }
+  let offset = 2;
+  while (offset + 9 <= bytes.byteLength) {
+    if (bytes[offset] !== 0xff) return;
+    const marker = bytes[offset + 1];
+    // Skip fill bytes, and markers without segments (TEM, RSTn)
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    // SOFn markers, excluding DHT (0xc4), JPG (0xc8) and DAC (0xcc)
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      return [view.getUint16(offset + 7), view.getUint16(offset + 5)];
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+}
+
+function decode(bytes: Uint8Array): [ImageFormat, Bitmap] {
+  const format = detectFormat(bytes);
+  if (format === undefined) {
+    throw new ImageError(9520, "Image format not supported");
+  }
+  // Decoders allocate the full bitmap, so check its size first
+  const dimensions = readDimensions(format, bytes);
+  if (dimensions !== undefined && dimensions[0] * dimensions[1] > MAX_AREA) {
+    throw new ImageError(9413, "Image exceeds maximum area of 100 megapixels");
+  }
+  try {
+    if (format === "png") {
+      const { width, height, data } = PNG.sync.read(Buffer.from(bytes));
+      return [format, { width, height, data }];
+    }
+    const image = decodeJpeg(bytes, { useTArray: true, formatAsRGBA: true });
+    return [format, image];
+  } catch (e: any) {
+    throw new ImageError(9522, `Unable to decode image: ${e?.message ?? e}`);
+  }
+}
+
+function encode(
+  bitmap: Bitmap,
+  format: ImageFormat,
+  quality: number
+): Uint8Array {
+  if (format === "png") {
+    const png = new PNG({ width: bitmap.width, height: bitmap.height });
+    png.data = Buffer.from(bitmap.data);
+    return PNG.sync.write(png);
+  }
+  // JPEGs don't support transparency, so draw the image over white
+  return encodeJpeg(flatten(bitmap, WHITE), quality).data;
+}
+
+// Parses a CSS color in hex, rgb()/rgba() or (a few) named formats
+function parseColor(value: string): Color {
+  value = value.trim().toLowerCase();
+  const named = NAMED_COLORS[value];
+  if (named !== undefined) return named;
+
+  const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(value)?.[1];
+  if (hex !== undefined) {
+    const digits =
+      hex.length <= 4 ? hex.replace(/./g, (digit) => digit + digit) : hex;
+    const color = digits.match(/../g)!.map((pair) => parseInt(pair, 16));
+    return [color[0], color[1], color[2], color[3] ?? 255];
+  }
+
+  const rgb = /^rgba?\(([^)]*)\)$/.exec(value)?.[1];
+  const components = rgb
+    ?.split(/[\s,/]+/)
+    .filter(Boolean)
+    .map(Number);
+  if (
+    components !== undefined &&
+    (components.length === 3 || components.length === 4) &&
+    components.every((component) => !isNaN(component))
+  ) {
+    const [r, g, b, a = 1] = components;
+    return [r, g, b, Math.round(a * 255)];
+  }
+  throw new ImageError(9401, `Invalid background color: ${value}`, 400);
+}
+
+function createBitmap(
+  width: number,
+  height: number,
+  fill = TRANSPARENT
+): Bitmap {
+  if (width * height > MAX_AREA) {
+    throw new ImageError(9413, "Image exceeds maximum area of 100 megapixels");
+  }
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(fill, i);
+  return { width, height, data };
+}
+
+// Rotates an image clockwise by a multiple of 90 degrees
+function rotate(bitmap: Bitmap, degrees: number): Bitmap {
+  const turns = (degrees / 90) % 4;
+  if (turns === 0) return bitmap;
+  const { width, height, data } = bitmap;
+  const rotated = createBitmap(
+    turns === 2 ? width : height,
+    turns === 2 ? height : width
+  );
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let toX: number, toY: number;
+      if (turns === 1) [toX, toY] = [height - 1 - y, x];
+      else if (turns === 2) [toX, toY] = [width - 1 - x, height - 1 - y];
+      else [toX, toY] = [y, width - 1 - x];
+      const from = (y * width + x) * 4;
+      rotated.data.set(
+        data.subarray(from, from + 4),
+        (toY * rotated.width + toX) * 4
+      );
+    }
+  }
+  return rotated;
+}
+
+// Resizes an image using bilinear interpolation when enlarging, and by
+// averaging source pixels when shrinking
+function resize(bitmap: Bitmap, width: number, height: number): Bitmap {
+  width = Math.max(1, Math.round(width));
+  height = Math.max(1, Math.round(height));
+  if (width === bitmap.width && height === bitmap.height) return bitmap;
+  const { data } = bitmap;
+  const resized = createBitmap(width, height);
+  const scaleX = bitmap.width / width;
+  const scaleY = bitmap.height / height;
+  const pixel = [0, 0, 0, 0];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      pixel.fill(0);
+      let total = 0;
+      if (scaleX > 1 || scaleY > 1) {
+        // Average all source pixels covered by this pixel
+        const fromX = Math.floor(x * scaleX);
+        const fromY = Math.floor(y * scaleY);
+        const toX = Math.max(fromX + 1, Math.floor((x + 1) * scaleX));
+        const toY = Math.max(fromY + 1, Math.floor((y + 1) * scaleY));
+        for (let sy = fromY; sy < toY; sy++) {
+          for (let sx = fromX; sx < toX; sx++) {
+            const i = (sy * bitmap.width + sx) * 4;
+            for (let c = 0; c < 4; c++) pixel[c] += data[i + c];
+            total++;
+          }
+        }
+      } else {
+        // Interpolate between the 4 nearest source pixels
+        const sx = Math.max(0, (x + 0.5) * scaleX - 0.5);
+        const sy = Math.max(0, (y + 0.5) * scaleY - 0.5);
+        const x0 = Math.floor(sx);
+        const y0 = Math.floor(sy);
+        const x1 = Math.min(x0 + 1, bitmap.width - 1);
+        const y1 = Math.min(y0 + 1, bitmap.height - 1);
+        const weights: [number, number, number][] = [
+          [x0, y0, (1 - (sx - x0)) * (1 - (sy - y0))],
+          [x1, y0, (sx - x0) * (1 - (sy - y0))],
+          [x0, y1, (1 - (sx - x0)) * (sy - y0)],
+          [x1, y1, (sx - x0) * (sy - y0)],
+        ];
+        for (const [wx, wy, weight] of weights) {
+          const i = (wy * bitmap.width + wx) * 4;
+          for (let c = 0; c < 4; c++) pixel[c] += data[i + c] * weight;
+        }
+        total = 1;
+      }
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        resized.data[i + c] = Math.round(pixel[c] / total);
+      }
+    }
+  }
+  return resized;
+}
+
+function crop(
+  bitmap: Bitmap,
+  left: number,
+  top: number,
+  width: number,
+  height: number
+): Bitmap {
+  if (width === bitmap.width && height === bitmap.height) return bitmap;
+  const cropped = createBitmap(width, height);
+  for (let y = 0; y < height; y++) {
+    const from = ((top + y) * bitmap.width + left) * 4;
+    cropped.data.set(
+      bitmap.data.subarray(from, from + width * 4),
+      y * width * 4
+    );
+  }
+  return cropped;
+}
+
+// Crops an image to the specified size, keeping the area around `gravity`
+function cropWithGravity(
+  bitmap: Bitmap,
+  width: number,
+  height: number,
+  gravity: BasicImageTransformations["gravity"] = "center"
+): Bitmap {
+  width = Math.min(Math.round(width), bitmap.width);
+  height = Math.min(Math.round(height), bitmap.height);
+  let focusX = 0.5;
+  let focusY = 0.5;
+  if (typeof gravity === "object") {
+    focusX = gravity.x;
+    focusY = gravity.y;
+  } else if (gravity === "left") focusX = 0;
+  else if (gravity === "right") focusX = 1;
+  else if (gravity === "top") focusY = 0;
+  else if (gravity === "bottom") focusY = 1;
+  const clamp = (value: number, max: number) =>
+    Math.round(Math.min(Math.max(value, 0), max));
+  const left = clamp(focusX * bitmap.width - width / 2, bitmap.width - width);
+  const top = clamp(
+    focusY * bitmap.height - height / 2,
+    bitmap.height - height
+  );
+  return crop(bitmap, left, top, width, height);
+}
+
+// Draws `src` over `dst` at the specified position, with alpha blending
+function composite(
+  dst: Bitmap,
+  src: Bitmap,
+  left: number,
+  top: number,
+  opacity = 1
+): void {
+  for (let y = Math.max(0, -top); y < src.height; y++) {
+    const dstY = top + y;
+    if (dstY >= dst.height) break;
+    for (let x = Math.max(0, -left); x < src.width; x++) {
+      const dstX = left + x;
+      if (dstX >= dst.width) break;
+      const i = (y * src.width + x) * 4;
+      const j = (dstY * dst.width + dstX) * 4;
+      const srcAlpha = (src.data[i + 3] / 255) * opacity;
+      const dstAlpha = dst.data[j + 3] / 255;
+      const alpha = srcAlpha + dstAlpha * (1 - srcAlpha);
+      if (alpha === 0) continue;
+      for (let c = 0; c < 3; c++) {
+        dst.data[j + c] = Math.round(
+          (src.data[i + c] * srcAlpha +
+            dst.data[j + c] * dstAlpha * (1 - srcAlpha)) /
+            alpha
+        );
+      }
+      dst.data[j + 3] = Math.round(alpha * 255);
+    }
+  }
+}
+
+// Draws an image over a solid background color
+function flatten(bitmap: Bitmap, background: Color): Bitmap {
+  const flattened = createBitmap(bitmap.width, bitmap.height, background);
+  composite(flattened, bitmap, 0, 0);
+  return flattened;
+}
+
+function validateTransformations(
+  options: BasicImageTransformations & { dpr?: number; quality?: number }
+): void {
+  const { width, height, dpr, quality, rotate } = options;
+  const isPositive = (value?: number) =>
+    value === undefined || (typeof value === "number" && value > 0);
+  if (!isPositive(width) || !isPositive(height) || !isPositive(dpr)) {
+    throw new ImageError(9401, "Invalid width, height or dpr", 400);
+  }
+  if (quality !== undefined && !(quality >= 1 && quality <= 100)) {
+    throw new ImageError(9401, "Invalid quality", 400);
+  }
+  if (rotate !== undefined && ![0, 90, 180, 270, 360].includes(rotate)) {
+    throw new ImageError(9401, "Invalid rotate", 400);
+  }
+}
+
+// Resizes an image to the requested area, cropping or padding it depending on
+// `fit`. Missing dimensions are calculated from the aspect ratio.
+function resizeToFit(
+  bitmap: Bitmap,
+  width: number | undefined,
+  height: number | undefined,
+  { fit = "scale-down", gravity, background }: BasicImageTransformations
+): Bitmap {
+  // Scale factors to fit the image within, or to cover, the requested area
+  const scaleX = width === undefined ? undefined : width / bitmap.width;
+  const scaleY = height === undefined ? undefined : height / bitmap.height;
+  const containScale = Math.min(scaleX ?? Infinity, scaleY ?? Infinity);
+  const coverScale = Math.max(scaleX ?? 0, scaleY ?? 0);
+  const scale = (bitmap: Bitmap, scale: number) =>
+    resize(bitmap, bitmap.width * scale, bitmap.height * scale);
+
+  if (fit === "scale-down") return scale(bitmap, Math.min(containScale, 1));
+  if (fit === "contain") return scale(bitmap, containScale);
+  if (fit === "cover" || fit === "crop") {
+    // "crop" is the same as "cover", but never enlarges images
+    const scaled = scale(
+      bitmap,
+      fit === "crop" ? Math.min(coverScale, 1) : coverScale
+    );
+    return cropWithGravity(
+      scaled,
+      width ?? scaled.width,
+      height ?? scaled.height,
+      gravity
+    );
+  }
+  if (fit === "pad") {
+    const scaled = scale(bitmap, containScale);
+    const padded = createBitmap(
+      Math.round(width ?? scaled.width),
+      Math.round(height ?? scaled.height),
+      background === undefined ? WHITE : parseColor(background)
+    );
+    composite(
+      padded,
+      scaled,
+      Math.round((padded.width - scaled.width) / 2),
+      Math.round((padded.height - scaled.height) / 2)
+    );
+    return padded;
+  }
+  throw new ImageError(9401, `Invalid fit: ${fit}`, 400);
+}
+
+// Applies rotation, resizing and background options to an image:
+// https://developers.cloudflare.com/images/image-resizing/resize-with-workers/
+function transform(
+  bitmap: Bitmap,
+  options: BasicImageTransformations,
+  dpr = 1
+): Bitmap {
+  validateTransformations(options);
+  // Width and height refer to the dimensions after rotation
+  bitmap = rotate(bitmap, options.rotate ?? 0);
+  const width = options.width && Math.min(options.width * dpr, MAX_DIMENSION);
+  const height =
+    options.height && Math.min(options.height * dpr, MAX_DIMENSION);
+  if (width !== undefined || height !== undefined) {
+    bitmap = resizeToFit(bitmap, width, height, options);
+  }
+  // Padding already uses the background color
+  const { fit, background } = options;
+  if (background !== undefined && !(fit === "pad" && (width || height))) {
+    bitmap = flatten(bitmap, parseColor(background));
+  }
+  return bitmap;
+}
+
+// Gets the position of an overlay along one axis, centering it if neither
+// offset is specified
+function getOverlayPosition(
+  size: number,
+  overlaySize: number,
+  start?: number,
+  end?: number
+): number {
+  if (start !== undefined) return Math.round(start);
+  if (end !== undefined) return Math.round(size - overlaySize - end);
+  return Math.round((size - overlaySize) / 2);
+}
+
+async function drawOverlay(
+  bitmap: Bitmap,
+  draw: RequestInitCfPropertiesImageDraw,
+  dpr: number,
+  fetcher: (url: string) => Promise<Response>
+): Promise<void> {
+  const res = await fetcher(draw.url);
+  if (!res.ok) {
+    throw new ImageError(9523, `Unable to fetch overlay: ${res.status}`, 502);
+  }
+  const [, decoded] = decode(new Uint8Array(await res.arrayBuffer()));
+  const overlay = transform(decoded, draw, dpr);
+  const scaled = (value?: number) => value && value * dpr;
+  const left = getOverlayPosition(
+    bitmap.width,
+    overlay.width,
+    scaled(draw.left),
+    scaled(draw.right)
+  );
+  const top = getOverlayPosition(
+    bitmap.height,
+    overlay.height,
+    scaled(draw.top),
+    scaled(draw.bottom)
+  );
+
+  // Repeated overlays are tiled in both directions from their position
+  const { repeat, opacity } = draw;
+  const repeatX = repeat === true || repeat === "x";
+  const repeatY = repeat === true || repeat === "y";
+  const startX = repeatX ? (left % overlay.width) - overlay.width : left;
+  const startY = repeatY ? (top % overlay.height) - overlay.height : top;
+  const endX = repeatX ? bitmap.width : left + 1;
+  const endY = repeatY ? bitmap.height : top + 1;
+  for (let y = startY; y < endY; y += overlay.height) {
+    for (let x = startX; x < endX; x += overlay.width) {
+      composite(bitmap, overlay, x, y, opacity);
+    }
+  }
+}
+
+// Applies `cf.image` options to a fetched image:
+// https://developers.cloudflare.com/images/image-resizing/resize-with-workers/
+export async function _transformImage(
+  res: Response,
+  options: RequestInitCfPropertiesImage,
+  fetcher: (url: string) => Promise<Response>,
+  log?: Log
+): Promise<Response> {
+  // Only resize successful responses, passing through errors and redirects
+  if (res.status !== 200) return res;
+  try {
+    const body = new Uint8Array(await res.arrayBuffer());
+    const [inputFormat, decoded] = decode(body);
+    const dpr = options.dpr ?? 1;
+    const bitmap = transform(decoded, options, dpr);
+    for (const draw of options.draw ?? []) {
+      await drawOverlay(bitmap, draw, dpr, fetcher);
+    }
+
+    const headers = new Headers(res.headers);
+    headers.delete("Content-Length");
+    headers.delete("Content-Encoding");
+    headers.delete("ETag");
+    if (options.format === "json") {
+      headers.set("Content-Type", "application/json");
+      const json = {
+        width: bitmap.width,
+        height: bitmap.height,
+        original: {
+          file_size: body.byteLength,
+          width: decoded.width,
+          height: decoded.height,
+          format: CONTENT_TYPES[inputFormat],
+        },
+      };
+      const jsonRes = new Response(JSON.stringify(json), {
+        status: res.status,
+        headers,
+      });
+      return withImmutableHeaders(jsonRes);
+    }
+
+    // There aren't pure-JavaScript encoders for WebP/AVIF, so fallback to the
+    // input's format for these
+    let format = inputFormat;
+    if (options.format === "png" || options.format === "jpeg") {
+      format = options.format;
+    } else if (options.format !== undefined) {
+      log?.warn(
+        `Image resizing to "${options.format}" isn't supported locally, ` +
+          `using "${format}" instead.`
+      );
+    }
+    const quality = options.quality ?? DEFAULT_QUALITY;
+    headers.set("Content-Type", CONTENT_TYPES[format]);
+    return withImmutableHeaders(
+      new Response(encode(bitmap, format, quality), {
+        status: res.status,
+        headers,
+      })
+    );
+  } catch (e) {
+    if (e instanceof ImageError) return errorResponse(e);
+    throw e;
+  }
+}
@@ -0,0 +1,254 @@
+import { ReadableStream, TransformStream } from "stream/web";
+import { TextDecoder, TextEncoder } from "util";
+import { Log } from "@miniflare/shared";
+import { Headers } from "undici";
+import { RequestInitCfPropertiesImageMinify } from "./cf";
+import { Response, withImmutableHeaders } from "./http";
+
+type MinifyType = keyof RequestInitCfPropertiesImageMinify;
+
+const MINIFY_CONTENT_TYPES: Record<string, MinifyType> = {
+  "text/html": "html",
+  "text/css": "css",
+  "text/javascript": "javascript",
+  "application/javascript": "javascript",
+  "application/x-javascript": "javascript",
+};
+
+// Elements whose contents must be preserved exactly
+const RAW_TEXT_ELEMENTS = new Set(["pre", "textarea", "script", "style"]);
+const WHITESPACE_REGEXP = /\s+/g;
+const TAG_NAME_REGEXP = /^<([a-z][^\s/>]*)/i;
+
+enum HTMLState {
+  TEXT,
+  TAG,
+  COMMENT,
+  RAW_TEXT,
+}
+
+// Streaming HTML minifier, removing comments and collapsing whitespace in text.
+// Tags and the contents of raw text elements (e.g. <pre>) are left untouched.
+// Input that might be the start of a construct spanning chunks is kept pending
+// until the next chunk.
+class HTMLMinifier {
+  #state = HTMLState.TEXT;
+  #pending = "";
+  #tag = "";
+  #quote?: string;
+  #keepComment = false;
+  #rawTextElement = "";
+  #lastWasSpace = false;
+
+  #collapse(text: string): string {
+    text = text.replace(WHITESPACE_REGEXP, " ");
+    if (this.#lastWasSpace && text.startsWith(" ")) text = text.substring(1);
+    if (text.length > 0) this.#lastWasSpace = text.endsWith(" ");
+    return text;
+  }
+
+  #output(text: string): string {
+    if (text.length > 0) this.#lastWasSpace = false;
+    return text;
+  }
+
+  write(chunk: string, final = false): string {
+    let input = this.#pending + chunk;
+    this.#pending = "";
+    let output = "";
+    while (input.length > 0) {
+      if (this.#state === HTMLState.TEXT) {
+        const start = input.indexOf("<");
+        if (start === -1) {
+          output += this.#collapse(input);
+          break;
+        }
+        output += this.#collapse(input.substring(0, start));
+        input = input.substring(start);
+        // Make sure we have enough input to identify (conditional) comments
+        if (!final && input.length < 7 && "<!--[if".startsWith(input)) {
+          this.#pending = input;
+          break;
+        }
+        if (input.startsWith("<!--")) {
+          this.#state = HTMLState.COMMENT;
+          this.#keepComment = input.startsWith("<!--[if");
+          if (this.#keepComment) output += this.#output("<!--");
+          input = input.substring(4);
+        } else {
+          this.#state = HTMLState.TAG;
+          this.#tag = "";
+        }
+      } else if (this.#state === HTMLState.COMMENT) {
+        const end = input.indexOf("-->");
+        if (end === -1) {
+          // Keep characters that might be the start of "-->" pending
+          const keep = final ? 0 : 2;
+          const length = Math.max(0, input.length - keep);
+          if (this.#keepComment) {
+            output += this.#output(input.substring(0, length));
+          }
+          this.#pending = input.substring(length);
+          break;
+        }
+        if (this.#keepComment) {
+          output += this.#output(input.substring(0, end + 3));
+        }
+        input = input.substring(end + 3);
+        this.#state = HTMLState.TEXT;
+      } else if (this.#state === HTMLState.TAG) {
+        // Find the end of the tag, ignoring ">"s in quoted attribute values
+        let end = -1;
+        for (let i = 0; i < input.length; i++) {
+          const char = input[i];
+          if (this.#quote !== undefined) {
+            if (char === this.#quote) this.#quote = undefined;
+          } else if (char === '"' || char === "'") {
+            this.#quote = char;
+          } else if (char === ">") {
+            end = i;
+            break;
+          }
+        }
+        if (end === -1) {
+          this.#tag += input;
+          output += this.#output(input);
+          break;
+        }
+        this.#tag += input.substring(0, end + 1);
+        output += this.#output(input.substring(0, end + 1));
+        input = input.substring(end + 1);
+        const name = TAG_NAME_REGEXP.exec(this.#tag)?.[1].toLowerCase();
+        if (
+          name !== undefined &&
+          RAW_TEXT_ELEMENTS.has(name) &&
+          !this.#tag.endsWith("/>")
+        ) {
+          this.#state = HTMLState.RAW_TEXT;
+          this.#rawTextElement = name;
+        } else {
+          this.#state = HTMLState.TEXT;
+        }
+      } else {
+        const closing = `</${this.#rawTextElement}`;
+        const end = input.toLowerCase().indexOf(closing);
+        if (end === -1) {
+          // Keep characters that might be the start of the closing tag pending
+          const keep = final ? 0 : closing.length - 1;
+          const length = Math.max(0, input.length - keep);
+          output += this.#output(input.substring(0, length));
+          this.#pending = input.substring(length);
+          break;
+        }
+        output += this.#output(input.substring(0, end));
+        input = input.substring(end);
+        this.#state = HTMLState.TAG;
+        this.#tag = "";
+      }
+    }
+    return output;
+  }
+}
+
+type Transform = typeof import("esbuild").transform;
+let esbuildTransform: Transform | null | undefined;
+// `esbuild` is an optional peer dependency, as it includes a native binary only
+// needed for minifying CSS and JavaScript. Returns `null` if it's not installed.
+function loadTransform(): Transform | null {
+  if (esbuildTransform === undefined) {
+    try {
+      const esbuild: typeof import("esbuild") = require("esbuild");
+      esbuildTransform = esbuild.transform;
+    } catch {
+      esbuildTransform = null;
+    }
+  }
+  return esbuildTransform;
+}
+
+function getMinifyType(
+  res: Response,
+  options: RequestInitCfPropertiesImageMinify
+): MinifyType | undefined {
+  const contentType = res.headers
+    .get("Content-Type")
+    ?.split(";")[0]
+    .trim()
+    .toLowerCase();
+  const type = contentType && MINIFY_CONTENT_TYPES[contentType];
+  return type && options[type] ? type : undefined;
+}
+
+// Minifies HTML, CSS and JavaScript responses with `cf.minify` options,
+// emulating Cloudflare's Auto Minify:
+// https://developers.cloudflare.com/support/speed/optimization-file-size/using-cloudflare-auto-minify/
+// Minified responses include a `Cf-Minified` header with the type of content
+// minified.
+export async function _minifyResponse(
+  res: Response,
+  options: RequestInitCfPropertiesImageMinify,
+  log?: Log
+): Promise<Response> {
+  const type = getMinifyType(res, options);
+  if (type === undefined || res.body === null) return res;
+
+  const headers = new Headers(res.headers);
+  let body: ReadableStream<Uint8Array> | string;
+  if (type === "html") {
+    // HTML can be minified as it's streamed
+    const minifier = new HTMLMinifier();
+    const decoder = new TextDecoder();
+    const encoder = new TextEncoder();
+    const transformer = new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        const text = decoder.decode(chunk, { stream: true });
+        const output = minifier.write(text);
+        if (output.length > 0) controller.enqueue(encoder.encode(output));
+      },
+      flush(controller) {
+        const output = minifier.write(decoder.decode(), true);
+        if (output.length > 0) controller.enqueue(encoder.encode(output));
+      },
+    });
+    body = res.body.pipeThrough(transformer);
+  } else {
+    const transform = loadTransform();
+    if (transform === null) {
+      const name = type === "css" ? "CSS" : "JavaScript";
+      log?.warn(
+        `Minifying ${name} requires the optional "esbuild" package, ` +
+          "leaving response unmodified. Install it with `npm install -D esbuild`."
+      );
+      return res;
+    }
+    // CSS and JavaScript must be parsed in full. Cloudflare only removes
+    // whitespace and comments, so don't rename identifiers.
+    const text = await res.text();
+    try {
+      const result = await transform(text, {
+        loader: type === "css" ? "css" : "js",
+        minifyWhitespace: true,
+        legalComments: "none",
+        logLevel: "silent",
+      });
+      body = result.code;
+    } catch {
+      // Leave responses that can't be parsed unmodified
+      return withImmutableHeaders(new Response(text, res));
+    }
+  }
+
+  headers.delete("Content-Length");
+  headers.delete("Content-Encoding");
+  // Modified responses can only be weakly equal to the original
+  const etag = headers.get("ETag");
+  if (etag?.startsWith('"')) headers.set("ETag", `W/${etag}`);
+  headers.set("Cf-Minified", type);
+  return withImmutableHeaders(
+    new Response(body, {
+      status: res.status,
+      statusText: res.statusText,
+      headers,
+    })
+  );
+}
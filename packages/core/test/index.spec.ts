@@ -16,12 +16,13 @@ import {
   Request,
   RequestInfo,
   RequestInit,
+  Response,
   _deepEqual,
   createFetchMock,
 } from "@miniflare/core";
 import { DurableObjectsPlugin } from "@miniflare/durable-objects";
 import { HTTPPlugin, createServer } from "@miniflare/http-server";
-import { QueueBroker } from "@miniflare/queues";
+import { QueueBroker, QueuesPlugin } from "@miniflare/queues";
 import { VMScriptRunner } from "@miniflare/runner-vm";
 import {
   Context,
@@ -29,6 +30,7 @@ import {
   NoOpLog,
   Options,
   Storage,
+  StorageFactory,
   TypedEventListener,
   getRequestContext,
 } from "@miniflare/shared";
@@ -1019,6 +1021,33 @@ test("MiniflareCore: getPlugins: gets plugin instances", async (t) => {
   t.true(plugins.CorePlugin.modules);
 });
 
+test("MiniflareCore: dispatchUtilityRequest: dispatches to plugins", async (t) => {
+  class UtilityPlugin extends TestPlugin {
+    handleUtilityRequest(
+      storage: StorageFactory,
+      request: Request,
+      url: URL
+    ): Response | undefined {
+      if (url.pathname !== "/cdn-cgi/mf/test") return;
+      return new Response(
+        `${request.method}:${storage.storage("NS") !== undefined}`
+      );
+    }
+  }
+  const mf = useMiniflare({ UtilityPlugin }, {});
+  let url = new URL("http://localhost/cdn-cgi/mf/test");
+  let res = await mf.dispatchUtilityRequest(
+    new Request(url, { method: "POST" }),
+    url
+  );
+  t.is(await res?.text(), "POST:true");
+
+  // Check undefined returned if no plugins handle request
+  url = new URL("http://localhost/cdn-cgi/mf/other");
+  res = await mf.dispatchUtilityRequest(new Request(url), url);
+  t.is(res, undefined);
+});
+
 test("MiniflareCore: getGlobalScope: gets mutable global scope", async (t) => {
   const mf = useMiniflare(
     { BindingsPlugin },
@@ -1338,6 +1367,75 @@ test("MiniflareCore: dispatchScheduled: creates new request context", async (t)
   t.true(waitUntil[0]);
 });
 
+test("MiniflareCore: getQueueProducer: gets queue for sending messages", async (t) => {
+  const mf = useMiniflare(
+    { QueuesPlugin },
+    { script: "", queueBindings: [{ name: "QUEUE", queueName: "queue" }] }
+  );
+  const { QUEUE } = await mf.getBindings();
+  const queue = await mf.getQueueProducer("queue");
+  t.is(queue, QUEUE);
+  await queue.send("message");
+  const { pending, inFlight, deadLettered } = await mf.getQueueMessages(
+    "queue"
+  );
+  t.deepEqual(
+    pending.map(({ body }) => body),
+    ["message"]
+  );
+  t.deepEqual(inFlight, []);
+  t.deepEqual(deadLettered, []);
+});
+test("MiniflareCore: dispatchQueue: dispatches messages to consumers immediately", async (t) => {
+  const mf = useMiniflare(
+    { QueuesPlugin },
+    {
+      modules: true,
+      script: `export default {
+        async queue(batch, env) {
+          for (const msg of batch.messages) {
+            if (msg.body === "retry") msg.retry();
+            else await env.RESULTS.send(msg.body);
+          }
+        }
+      }`,
+      queueBindings: [{ name: "RESULTS", queueName: "results" }],
+      queueConsumers: [
+        {
+          queueName: "queue",
+          maxWaitMs: 60_000,
+          maxRetries: 0,
+          deadLetterQueue: "dlq",
+        },
+      ],
+    }
+  );
+  await mf.dispatchQueue("queue", ["a", "retry", "b"]);
+  const results = await mf.getQueueMessages("results");
+  t.deepEqual(
+    results.pending.map(({ body }) => body),
+    ["a", "b"]
+  );
+  const queue = await mf.getQueueMessages("queue");
+  t.deepEqual(queue.pending, []);
+  t.deepEqual(
+    queue.deadLettered.map(({ body, deadLetterQueue }) => [
+      body,
+      deadLetterQueue,
+    ]),
+    [["retry", "dlq"]]
+  );
+
+  await t.throwsAsync(mf.dispatchQueue("results", ["c"]), {
+    message: 'Queue "results" does not have a consumer',
+  });
+  // Check messages for queues without consumers aren't enqueued
+  const unchanged = await mf.getQueueMessages("results");
+  t.deepEqual(
+    unchanged.pending.map(({ body }) => body),
+    ["a", "b"]
+  );
+});
 test("MiniflareCore: dispose: runs dispose for all plugins", async (t) => {
   const log = new TestLog();
   const mf = useMiniflare(
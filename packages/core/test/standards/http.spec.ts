@@ -12,6 +12,7 @@ import {
   Body,
   IncomingRequestCfProperties,
   Request,
+  RequestInitCfProperties,
   Response,
   _getBodyLength,
   _getURLList,
@@ -26,6 +27,7 @@ import {
 import {
   Compatibility,
   EXTERNAL_SUBREQUEST_LIMIT_BUNDLED,
+  FetchCacheRef,
   InputGate,
   LogLevel,
   NoOpLog,
@@ -1309,6 +1311,73 @@ test("createCompatFetch: rewrites urls of all types of fetch inputs", async (t)
   );
   t.is(await res.text(), "POST:value:body2");
 });
+test("createCompatFetch: routes requests with cf cache options through fetch cache", async (t) => {
+  const cached: string[] = [];
+  const fetchCache: FetchCacheRef = {
+    current: {
+      async fetch(req: Request, fetcher: (req: Request) => Promise<Response>) {
+        cached.push(req.url);
+        const res = await fetcher(req);
+        return new Response(`cached:${await res.text()}`);
+      },
+    },
+  };
+  const fetch = createCompatFetch(
+    { log: new NoOpLog(), compat: new Compatibility(), fetchCache },
+    async (input) => new Response(`upstream:${new Request(input).url}`)
+  );
+  const ctx = new RequestContext({
+    externalSubrequestLimit: EXTERNAL_SUBREQUEST_LIMIT_BUNDLED,
+  });
+
+  // Check requests without cache options aren't cached
+  let res = await ctx.runWith(() => fetch("http://localhost/1"));
+  t.is(await res.text(), "upstream:http://localhost/1");
+  res = await ctx.runWith(() =>
+    fetch("http://localhost/2", { cf: { minify: { javascript: true } } })
+  );
+  t.is(await res.text(), "upstream:http://localhost/2");
+  t.deepEqual(cached, []);
+
+  // Check each cache option routes through the cache
+  const options: RequestInitCfProperties[] = [
+    { cacheEverything: true },
+    { cacheTtl: 60 },
+    { cacheTtlByStatus: { "200-299": 60 } },
+    { cacheKey: "key" },
+  ];
+  for (const cf of options) {
+    res = await ctx.runWith(() => fetch("http://localhost/3", { cf }));
+    t.is(await res.text(), "cached:upstream:http://localhost/3");
+  }
+  // Check cf options are also read from Request inputs
+  res = await ctx.runWith(() =>
+    fetch(new Request("http://localhost/4", { cf: { cacheTtl: 60 } }))
+  );
+  t.is(await res.text(), "cached:upstream:http://localhost/4");
+  t.is(cached.length, 5);
+  // Check init's cf options take precedence over the Request's
+  res = await ctx.runWith(() =>
+    fetch(new Request("http://localhost/5", { cf: { minify: {} } }), {
+      cf: { cacheTtl: 60 },
+    })
+  );
+  t.is(await res.text(), "cached:upstream:http://localhost/5");
+  res = await ctx.runWith(() =>
+    fetch(new Request("http://localhost/6", { cf: { cacheTtl: 60 } }), {
+      cf: { minify: {} },
+    })
+  );
+  t.is(await res.text(), "upstream:http://localhost/6");
+  t.is(cached.length, 6);
+
+  // Check requests aren't cached if caching is disabled
+  fetchCache.current = undefined;
+  res = await ctx.runWith(() =>
+    fetch("http://localhost/7", { cf: { cacheTtl: 60 } })
+  );
+  t.is(await res.text(), "upstream:http://localhost/7");
+});
 test("createCompatFetch: Responses parse files in FormData as File objects only if compatibility flag enabled", async (t) => {
   const { http: upstream } = await useServer(t, (req, res) => {
     res.writeHead(200, {
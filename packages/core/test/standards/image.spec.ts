@@ -0,0 +1,251 @@
+import {
+  RequestInitCfPropertiesImage,
+  Response,
+  createCompatFetch,
+} from "@miniflare/core";
+import { Compatibility, Log, LogLevel, NoOpLog } from "@miniflare/shared";
+import { TestLog } from "@miniflare/shared-test";
+import test from "ava";
+import { decode as decodeJpeg } from "jpeg-js";
+import { PNG } from "pngjs";
+
+type Color = [r: number, g: number, b: number, a: number];
+const RED: Color = [255, 0, 0, 255];
+const BLUE: Color = [0, 0, 255, 255];
+const WHITE: Color = [255, 255, 255, 255];
+const TRANSPARENT: Color = [0, 0, 0, 0];
+
+// Creates a PNG, with each pixel's color returned by `fill`
+function createPng(
+  width: number,
+  height: number,
+  fill: (x: number, y: number) => Color
+): Buffer {
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      png.data.set(fill(x, y), (y * width + x) * 4);
+    }
+  }
+  return PNG.sync.write(png);
+}
+
+async function readPng(res: Response): Promise<PNG> {
+  return PNG.sync.read(Buffer.from(await res.arrayBuffer()));
+}
+
+function getPixel(png: PNG, x: number, y: number): Color {
+  const i = (y * png.width + x) * 4;
+  return Array.from(png.data.subarray(i, i + 4)) as Color;
+}
+
+// Left half red, right half blue
+const image = createPng(4, 2, (x) => (x < 2 ? RED : BLUE));
+
+function useFetch(
+  images: Record<string, Buffer> = { "http://localhost/image.png": image },
+  log: Log = new NoOpLog()
+) {
+  const fetch = createCompatFetch(
+    { log, compat: new Compatibility(), globalAsyncIO: true },
+    async (input) => {
+      const url = input.toString();
+      const body = images[url];
+      if (body === undefined) return new Response("Not Found", { status: 404 });
+      return new Response(body, {
+        headers: { "Content-Type": "image/png", ETag: '"etag"' },
+      });
+    }
+  );
+  return (image: RequestInitCfPropertiesImage, url = "image.png") =>
+    fetch(`http://localhost/${url}`, { cf: { image } });
+}
+
+test("fetch: image: resizes images", async (t) => {
+  const fetch = useFetch();
+  let png = await readPng(await fetch({ width: 2 }));
+  t.is(png.width, 2);
+  t.is(png.height, 1);
+  t.deepEqual(getPixel(png, 0, 0), RED);
+  t.deepEqual(getPixel(png, 1, 0), BLUE);
+
+  // Check "scale-down" doesn't enlarge images, but "contain" does
+  png = await readPng(await fetch({ width: 8 }));
+  t.is(png.width, 4);
+  png = await readPng(await fetch({ width: 8, height: 8, fit: "contain" }));
+  t.is(png.width, 8);
+  t.is(png.height, 4);
+
+  // Check dpr multiplies dimensions
+  png = await readPng(await fetch({ height: 1, dpr: 2 }));
+  t.is(png.width, 4);
+  t.is(png.height, 2);
+
+  // Check dimensions clamped to maximum
+  png = await readPng(
+    await fetch({ width: 1e4, height: 1, dpr: 10, fit: "pad" })
+  );
+  t.is(png.width, 12_000);
+  t.is(png.height, 10);
+});
+test("fetch: image: crops images with gravity", async (t) => {
+  const fetch = useFetch();
+  let png = await readPng(await fetch({ width: 2, height: 2, fit: "cover" }));
+  t.is(png.width, 2);
+  t.is(png.height, 2);
+  t.deepEqual(getPixel(png, 0, 0), RED);
+  t.deepEqual(getPixel(png, 1, 0), BLUE);
+
+  png = await readPng(
+    await fetch({ width: 2, height: 2, fit: "cover", gravity: "left" })
+  );
+  t.deepEqual(getPixel(png, 1, 1), RED);
+  png = await readPng(
+    await fetch({ width: 2, height: 2, fit: "crop", gravity: { x: 1, y: 0 } })
+  );
+  t.deepEqual(getPixel(png, 0, 0), BLUE);
+
+  // Check "crop" doesn't enlarge images, but "cover" does
+  png = await readPng(await fetch({ width: 1, height: 4, fit: "crop" }));
+  t.is(png.width, 1);
+  t.is(png.height, 2);
+  png = await readPng(await fetch({ width: 1, height: 4, fit: "cover" }));
+  t.is(png.width, 1);
+  t.is(png.height, 4);
+});
+test("fetch: image: pads images with background", async (t) => {
+  const fetch = useFetch();
+  let png = await readPng(await fetch({ width: 4, height: 4, fit: "pad" }));
+  t.is(png.width, 4);
+  t.is(png.height, 4);
+  t.deepEqual(getPixel(png, 0, 0), WHITE);
+  t.deepEqual(getPixel(png, 0, 1), RED);
+  t.deepEqual(getPixel(png, 3, 2), BLUE);
+  t.deepEqual(getPixel(png, 3, 3), WHITE);
+
+  png = await readPng(
+    await fetch({ width: 4, height: 4, fit: "pad", background: "#00f" })
+  );
+  t.deepEqual(getPixel(png, 0, 0), BLUE);
+});
+test("fetch: image: rotates images", async (t) => {
+  const fetch = useFetch();
+  // Check width and height refer to the rotated image
+  const png = await readPng(await fetch({ rotate: 90, height: 4 }));
+  t.is(png.width, 2);
+  t.is(png.height, 4);
+  t.deepEqual(getPixel(png, 0, 0), RED);
+  t.deepEqual(getPixel(png, 1, 3), BLUE);
+});
+test("fetch: image: converts image formats", async (t) => {
+  const log = new TestLog();
+  const fetch = useFetch(undefined, log);
+  let res = await fetch({ format: "jpeg", quality: 100 });
+  t.is(res.headers.get("Content-Type"), "image/jpeg");
+  t.is(res.headers.get("ETag"), null);
+  const jpeg = decodeJpeg(Buffer.from(await res.arrayBuffer()));
+  t.is(jpeg.width, 4);
+  t.is(jpeg.height, 2);
+
+  // Check unsupported formats fallback to the input format with a warning
+  res = await fetch({ format: "webp" });
+  t.is(res.headers.get("Content-Type"), "image/png");
+  t.is((await readPng(res)).width, 4);
+  t.deepEqual(log.logsAtLevel(LogLevel.WARN), [
+    'Image resizing to "webp" isn\'t supported locally, using "png" instead.',
+  ]);
+});
+test("fetch: image: returns metadata as JSON", async (t) => {
+  const fetch = useFetch();
+  const res = await fetch({ width: 2, format: "json" });
+  t.is(res.headers.get("Content-Type"), "application/json");
+  t.deepEqual(await res.json(), {
+    width: 2,
+    height: 1,
+    original: {
+      file_size: image.byteLength,
+      width: 4,
+      height: 2,
+      format: "image/png",
+    },
+  });
+});
+test("fetch: image: draws overlays", async (t) => {
+  const overlay = createPng(1, 1, () => BLUE);
+  const fetch = useFetch({
+    "http://localhost/image.png": createPng(4, 4, () => RED),
+    "http://localhost/overlay.png": overlay,
+    "http://localhost/transparent.png": createPng(4, 4, () => TRANSPARENT),
+  });
+  const url = "http://localhost/overlay.png";
+
+  // Check positioned overlays
+  let png = await readPng(
+    await fetch({ draw: [{ url, top: 1, right: 0, opacity: 0.5 }] })
+  );
+  t.deepEqual(getPixel(png, 3, 1), [128, 0, 128, 255]);
+  t.deepEqual(getPixel(png, 3, 0), RED);
+  // Check overlays are resized and centered by default
+  png = await readPng(
+    await fetch({ draw: [{ url, width: 2, height: 2, fit: "contain" }] })
+  );
+  t.deepEqual(getPixel(png, 0, 0), RED);
+  t.deepEqual(getPixel(png, 1, 1), BLUE);
+  t.deepEqual(getPixel(png, 2, 2), BLUE);
+  t.deepEqual(getPixel(png, 3, 3), RED);
+  // Check repeated overlays
+  png = await readPng(await fetch({ draw: [{ url, repeat: "x", top: 2 }] }));
+  for (let x = 0; x < 4; x++) t.deepEqual(getPixel(png, x, 2), BLUE);
+  t.deepEqual(getPixel(png, 0, 1), RED);
+  // Check overlays drawn over transparent images
+  png = await readPng(
+    await fetch({ draw: [{ url, left: 0, top: 0 }] }, "transparent.png")
+  );
+  t.deepEqual(getPixel(png, 0, 0), BLUE);
+  t.deepEqual(getPixel(png, 1, 1), TRANSPARENT);
+});
+test("fetch: image: returns errors", async (t) => {
+  // 1x1 PNG with its IHDR chunk changed to declare 20000x20000 pixels
+  const hugePng = createPng(1, 1, () => RED);
+  hugePng.writeUInt32BE(20_000, 16);
+  hugePng.writeUInt32BE(20_000, 20);
+  // JPEG header with an APP0 segment, then a start-of-frame segment declaring
+  // 20000x20000 pixels
+  const hugeJpeg = Buffer.from([
+    0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, 0xff, 0xc0, 0x00, 0x0b,
+    0x08, 0x4e, 0x20, 0x4e, 0x20, 0x01, 0x01, 0x11, 0x00,
+  ]);
+  const fetch = useFetch({
+    "http://localhost/image.png": image,
+    "http://localhost/huge.png": hugePng,
+    "http://localhost/huge.jpg": hugeJpeg,
+    "http://localhost/text.txt": Buffer.from("text"),
+  });
+
+  let res = await fetch({ width: 2 }, "text.txt");
+  t.is(res.status, 415);
+  t.is(res.headers.get("Cf-Resized"), "err=9520");
+  res = await fetch({ width: -1 });
+  t.is(res.status, 400);
+  t.is(res.headers.get("Cf-Resized"), "err=9401");
+  t.is(await res.text(), "ERROR 9401: Invalid width, height or dpr");
+  res = await fetch({ width: 1e6, height: 1e6, fit: "pad" });
+  t.is(res.status, 415);
+  t.is(res.headers.get("Cf-Resized"), "err=9413");
+  t.is(
+    await res.text(),
+    "ERROR 9413: Image exceeds maximum area of 100 megapixels"
+  );
+  // Check images declaring huge dimensions rejected before decoding
+  for (const url of ["huge.png", "huge.jpg"]) {
+    res = await fetch({ width: 2 }, url);
+    t.is(res.headers.get("Cf-Resized"), "err=9413", url);
+  }
+  res = await fetch({ draw: [{ url: "http://localhost/missing.png" }] });
+  t.is(res.headers.get("Cf-Resized"), "err=9523");
+
+  // Check unsuccessful responses passed through
+  res = await fetch({ width: 2 }, "missing.png");
+  t.is(res.status, 404);
+  t.is(await res.text(), "Not Found");
+});
@@ -0,0 +1,127 @@
+import { ReadableStream } from "stream/web";
+import {
+  RequestInitCfPropertiesImageMinify,
+  Response,
+  createCompatFetch,
+} from "@miniflare/core";
+import { Compatibility, NoOpLog } from "@miniflare/shared";
+import { utf8Encode } from "@miniflare/shared-test";
+import test from "ava";
+
+function useFetch(
+  contentType: string,
+  body: string | string[],
+  headers?: Record<string, string>
+) {
+  const fetch = createCompatFetch(
+    { log: new NoOpLog(), compat: new Compatibility(), globalAsyncIO: true },
+    async () => {
+      // Split bodies into the specified chunks, to test streaming minification
+      const chunks = Array.isArray(body) ? body : [body];
+      const stream = new ReadableStream({
+        pull(controller) {
+          const chunk = chunks.shift();
+          if (chunk === undefined) controller.close();
+          else controller.enqueue(utf8Encode(chunk));
+        },
+      });
+      return new Response(stream, {
+        headers: { "Content-Type": contentType, ...headers },
+      });
+    }
+  );
+  return (minify: RequestInitCfPropertiesImageMinify) =>
+    fetch("http://localhost/", { cf: { minify } });
+}
+
+test("fetch: minify: minifies HTML", async (t) => {
+  const html = `<!DOCTYPE html>
+<html>
+  <!-- comment -->
+  <!--[if IE]><p>IE</p><![endif]-->
+  <body class="a   b" data-x=">  <">
+    <p>Hello   <b>World</b>  !</p>
+    <pre>  keep
+    this  </pre>
+    <script>
+      const a  =  "<!-- not a comment -->";
+    </script>
+  </body>
+</html>
+`;
+  const fetch = useFetch("text/html; charset=utf-8", html, {
+    "Content-Length": html.length.toString(),
+    ETag: '"etag"',
+  });
+  const res = await fetch({ html: true });
+  t.is(res.headers.get("Cf-Minified"), "html");
+  t.is(res.headers.get("Content-Length"), null);
+  t.is(res.headers.get("ETag"), 'W/"etag"');
+  t.is(
+    await res.text(),
+    '<!DOCTYPE html> <html> <!--[if IE]><p>IE</p><![endif]--> <body class="a   b" data-x=">  <"> <p>Hello <b>World</b> !</p> <pre>  keep\n    this  </pre> <script>\n      const a  =  "<!-- not a comment -->";\n    </script> </body> </html> '
+  );
+});
+test("fetch: minify: minifies HTML split across chunks", async (t) => {
+  const fetch = useFetch("text/html", [
+    "<p>a  ",
+    "  b</p><",
+    "!-",
+    "- comment --",
+    "><!--[i",
+    "f IE]>x<![endif]-",
+    "-><PRE>  x  </p",
+    "re></PRE>  <p>",
+  ]);
+  const res = await fetch({ html: true });
+  t.is(
+    await res.text(),
+    "<p>a b</p><!--[if IE]>x<![endif]--><PRE>  x  </pre></PRE> <p>"
+  );
+});
+test("fetch: minify: minifies CSS", async (t) => {
+  const css = `/* comment */
+body {
+  color:   red;
+  margin:  0  auto;
+}
+`;
+  const fetch = useFetch("text/css", css);
+  const res = await fetch({ css: true });
+  t.is(res.headers.get("Cf-Minified"), "css");
+  t.is((await res.text()).trim(), "body{color:red;margin:0 auto}");
+});
+test("fetch: minify: minifies JavaScript", async (t) => {
+  const js = `// comment
+function add(first, second) {
+  /* comment */
+  return first  +  second;
+}
+`;
+  const fetch = useFetch("application/javascript", js);
+  const res = await fetch({ javascript: true });
+  t.is(res.headers.get("Cf-Minified"), "javascript");
+  t.is(
+    (await res.text()).trim(),
+    "function add(first,second){return first+second}"
+  );
+});
+test("fetch: minify: leaves invalid JavaScript unmodified", async (t) => {
+  const js = "function (  {";
+  const fetch = useFetch("text/javascript", js);
+  const res = await fetch({ javascript: true });
+  t.is(res.headers.get("Cf-Minified"), null);
+  t.is(await res.text(), js);
+});
+test("fetch: minify: only minifies enabled content types", async (t) => {
+  const css = "body {  color: red;  }";
+  let fetch = useFetch("text/css", css);
+  let res = await fetch({ html: true, javascript: true });
+  t.is(res.headers.get("Cf-Minified"), null);
+  t.is(await res.text(), css);
+
+  fetch = useFetch("text/plain", css);
+  res = await fetch({ html: true, css: true, javascript: true });
+  t.is(res.headers.get("Cf-Minified"), null);
+  t.is(await res.text(), css);
+});
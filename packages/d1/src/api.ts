@@ -6,13 +6,16 @@ import { performance } from "perf_hooks";
 import { Request, RequestInfo, RequestInit, Response } from "@miniflare/core";
 import type { SqliteDB } from "@miniflare/shared";
 import type { Statement as SqliteStatement } from "better-sqlite3";
-import splitSqlQuery from "./splitter";
+import splitSqlQuery, { isEmptyStatement } from "./splitter";
 
 // query
 interface SingleQuery {
   sql: string;
   params?: any[] | null;
 }
+// `/exec` splits `sql` into statements. `importDatabase()` passes pre-split
+// `statements` instead, as dumps contain statements spanning multiple lines.
+type ExecQuery = { sql: string } | { statements: string[] };
 
 // response
 interface ErrorResponse {
@@ -26,6 +29,9 @@ interface ResponseMeta {
   changes: number | null;
   served_by: string;
   internal_stats: null;
+  rows_read: number;
+  rows_written: number;
+  size_after: number;
 }
 interface SuccessResponse {
   results: any;
@@ -39,25 +45,51 @@ interface SuccessResponse {
 
 const served_by = "miniflare.db";
 
-function ok(results: any, start: number): SuccessResponse {
+interface QueryStats {
+  lastRowId: number;
+  changes: number;
+  rowsRead: number;
+  rowsWritten: number;
+  sizeAfter: number;
+}
+interface Counters {
+  lastRowId: number;
+  totalChanges: number;
+  size: number;
+}
+
+function ok(results: any, start: number, stats: QueryStats): SuccessResponse {
   const duration = performance.now() - start;
   return {
     results,
     duration,
-    // These are all `null`ed out in D1
-    lastRowId: null,
-    changes: null,
+    lastRowId: stats.lastRowId,
+    changes: stats.changes,
     success: true,
     served_by,
     meta: {
       duration,
-      last_row_id: null,
-      changes: null,
+      last_row_id: stats.lastRowId,
+      changes: stats.changes,
       served_by,
       internal_stats: null,
+      rows_read: stats.rowsRead,
+      rows_written: stats.rowsWritten,
+      size_after: stats.sizeAfter,
     },
   };
 }
+// `exec()` accepts statements separated by newlines. A line may contain
+// several statements terminated with semicolons, but statements can't span
+// multiple lines.
+function splitExecStatements(sql: string): string[] {
+  return sql
+    .split("\n")
+    .flatMap((line) => splitSqlQuery(line))
+    .filter((statement) => !isEmptyStatement(statement))
+    .map((statement) => statement.trim().replace(/;+$/, ""));
+}
+
 function err(error: any): ErrorResponse {
   return {
     error: String(error),
@@ -103,15 +135,61 @@ function returnsData(stmt: SqliteStatement): boolean {
   }
 }
 
+// `Statement#readonly` is missing from `@types/better-sqlite3`
+function isReadonly(stmt: SqliteStatement): boolean {
+  return (stmt as SqliteStatement & { readonly: boolean }).readonly;
+}
+
 export class D1DatabaseAPI {
-  constructor(private readonly db: SqliteDB) {}
+  // Set when a statement that may modify the database runs, so `flush` is
+  // only called for requests that wrote
+  #written = false;
+
+  constructor(
+    private readonly db: SqliteDB,
+    // Called after each request that wrote to the database, allowing storages
+    // that keep databases in-memory to persist them
+    private readonly flush?: () => Promise<void>
+  ) {}
+
+  // Reads the connection's counters in a single query, prepared once as it
+  // runs before and after every statement
+  #countersStmt?: SqliteStatement;
+  #counters(): Counters {
+    this.#countersStmt ??= this.db.prepare(
+      `SELECT last_insert_rowid() AS lastRowId,
+              total_changes() AS totalChanges,
+              page_count * page_size AS size
+       FROM pragma_page_count(), pragma_page_size()`
+    );
+    return this.#countersStmt.get();
+  }
+
+  // SQLite doesn't expose the number of rows a statement scanned to
+  // `better-sqlite3`, so `rows_read` is only an approximation: the number of
+  // rows returned. Rows written are changes, measured with `total_changes()`
+  // as `changes()` isn't reset by statements that don't modify rows (e.g.
+  // `CREATE TABLE`).
+  #stats(before: Counters, rowsRead: number): QueryStats {
+    const after = this.#counters();
+    const changes = after.totalChanges - before.totalChanges;
+    return {
+      lastRowId: after.lastRowId,
+      changes,
+      rowsRead,
+      rowsWritten: changes,
+      sizeAfter: after.size,
+    };
+  }
 
   #query: QueryRunner = (query) => {
     const start = performance.now();
     // D1 only respects the first statement
     const sql = splitSqlQuery(query.sql)[0];
     const stmt = this.db.prepare(sql);
+    if (!isReadonly(stmt)) this.#written = true;
     const params = normaliseParams(query.params);
+    const before = this.#counters();
     let results: any[];
     if (returnsData(stmt)) {
       results = stmt.all(params);
@@ -121,7 +199,8 @@ export class D1DatabaseAPI {
       stmt.run(params);
       results = [];
     }
-    return ok(normaliseResults(results), start);
+    const stats = this.#stats(before, results.length);
+    return ok(normaliseResults(results), start, stats);
   };
 
   #execute: QueryRunner = (query) => {
@@ -131,9 +210,11 @@ export class D1DatabaseAPI {
     const stmt = this.db.prepare(sql);
     // `/execute` only supports queries that don't return data
     if (returnsData(stmt)) throw new Error(EXECUTE_RETURNS_DATA_MESSAGE);
+    if (!isReadonly(stmt)) this.#written = true;
     const params = normaliseParams(query.params);
+    const before = this.#counters();
     stmt.run(params);
-    return ok(null, start);
+    return ok(null, start, this.#stats(before, 0));
   };
 
   async #handleQueryExecute(
@@ -144,28 +225,55 @@ export class D1DatabaseAPI {
     const query = await request.json<SingleQuery | SingleQuery[]>();
     let results: SuccessResponse | SuccessResponse[];
     if (Array.isArray(query)) {
-      // Run batches in an implicit transaction. Note we have to use savepoints
-      // here as the SQLite transaction stack may not be empty if we're running
-      // inside the Miniflare testing environment, and nesting regular
-      // transactions is not permitted.
-      const savepointName = `MINIFLARE_D1_BATCH_${Date.now()}_${Math.floor(
-        Math.random() * Number.MAX_SAFE_INTEGER
-      )}`;
-      this.db.exec(`SAVEPOINT ${savepointName};`); // BEGIN TRANSACTION;
-      try {
-        results = query.map(runner);
-        this.db.exec(`RELEASE ${savepointName};`); // COMMIT;
-      } catch (e) {
-        this.db.exec(`ROLLBACK TO ${savepointName};`); // ROLLBACK;
-        this.db.exec(`RELEASE ${savepointName};`);
-        throw e;
-      }
+      results = this.#transaction(() => query.map(runner));
     } else {
       results = runner(query);
     }
     return Response.json(results);
   }
 
+  async #handleExec(request: Request): Promise<Response> {
+    // Unlike `/query` and `/execute`, `/exec` runs every statement, returning
+    // results for each one. Statements are run in an implicit transaction, so
+    // a failing statement doesn't leave the database partially updated.
+    const query = await request.json<ExecQuery>();
+    const statements =
+      "statements" in query ? query.statements : splitExecStatements(query.sql);
+    let index = 0;
+    try {
+      const results = this.#transaction(() =>
+        statements.map((statement, i) => {
+          index = i;
+          return this.#query({ sql: statement });
+        })
+      );
+      return Response.json(results);
+    } catch (e) {
+      return Response.json(
+        err(`Error in statement ${index + 1}: ${statements[index]}: ${e}`)
+      );
+    }
+  }
+
+  #transaction<T>(closure: () => T): T {
+    // Note we have to use savepoints here as the SQLite transaction stack may
+    // not be empty if we're running inside the Miniflare testing environment,
+    // and nesting regular transactions is not permitted.
+    const savepointName = `MINIFLARE_D1_BATCH_${Date.now()}_${Math.floor(
+      Math.random() * Number.MAX_SAFE_INTEGER
+    )}`;
+    this.db.exec(`SAVEPOINT ${savepointName};`); // BEGIN TRANSACTION;
+    try {
+      const result = closure();
+      this.db.exec(`RELEASE ${savepointName};`); // COMMIT;
+      return result;
+    } catch (e) {
+      this.db.exec(`ROLLBACK TO ${savepointName};`); // ROLLBACK;
+      this.db.exec(`RELEASE ${savepointName};`);
+      throw e;
+    }
+  }
+
   async #handleDump(): Promise<Response> {
     // `better-sqlite3` requires us to back up to a file, so create a temp one
     const random = crypto.randomBytes(8).toString("hex");
@@ -193,12 +301,22 @@ export class D1DatabaseAPI {
         return await this.#handleQueryExecute(request, this.#query);
       } else if (pathname === "/execute") {
         return await this.#handleQueryExecute(request, this.#execute);
+      } else if (pathname === "/exec") {
+        return await this.#handleExec(request);
       } else if (pathname === "/dump") {
         return await this.#handleDump();
       }
     } catch (e) {
       return Response.json(err(e));
+    } finally {
+      await this.#flushWritten();
     }
     return new Response(null, { status: 404 });
   }
+
+  async #flushWritten(): Promise<void> {
+    if (!this.#written) return;
+    this.#written = false;
+    await this.flush?.();
+  }
 }
@@ -14,9 +14,10 @@ export type D1Result<T = unknown> = {
   meta: any;
 };
 
-export type D1ExecResult = {
+export type D1ExecResult<T = unknown> = {
   count: number;
   duration: number;
+  results: D1Result<T>[];
 };
 
 type SQLError = {
@@ -71,36 +72,24 @@ export class D1Database {
     return exec as D1Result<T>[];
   }
 
-  async exec<T = unknown>(query: string): Promise<D1ExecResult> {
-    const lines = query.trim().split("\n");
-    const _exec = await this._send<T>("/query", lines, [], false);
-    const exec = Array.isArray(_exec) ? _exec : [_exec];
-    const error = exec
-      .map((r) => {
-        return r.error ? 1 : 0;
-      })
-      .indexOf(1);
-    if (error !== -1) {
+  async exec<T = unknown>(query: string): Promise<D1ExecResult<T>> {
+    // Miniflare: run every statement with `/exec`, which names the failing
+    // statement in errors, rather than sending each line to `/query`
+    const exec = await this._send<T>("/exec", query, [], false);
+    if (!Array.isArray(exec)) {
       // @ts-expect-error `cause` support was added in Node 16.9.0,
       //  and Miniflare's minimum supported version is 16.13.0
       throw new Error("D1_EXEC_ERROR", {
-        cause: new Error(
-          "Error in line " +
-            (error + 1) +
-            ": " +
-            lines[error] +
-            ": " +
-            exec[error].error
-        ),
+        cause: new Error(exec.error),
       });
-    } else {
-      return {
-        count: exec.length,
-        duration: exec.reduce((p, c) => {
-          return p + c.meta.duration;
-        }, 0),
-      };
     }
+    return {
+      count: exec.length,
+      duration: exec.reduce((p, c) => {
+        return p + c.meta.duration;
+      }, 0),
+      results: exec,
+    };
   }
 
   async _send<T = unknown>(
@@ -0,0 +1,106 @@
+import type { SqliteDB } from "@miniflare/shared";
+import { D1DatabaseAPI } from "./api";
+import splitSqlQuery, { isEmptyStatement } from "./splitter";
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+// Formats a value returned by `better-sqlite3` with `safeIntegers()` enabled
+// as an SQL literal. Integers are returned as `bigint`s, so any `number` is a
+// real, and must be formatted as one to preserve its type.
+function formatValue(value: unknown): string {
+  if (value === null) return "NULL";
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "number") {
+    if (Number.isNaN(value)) return "NULL";
+    if (!Number.isFinite(value)) return value > 0 ? "9e999" : "-9e999";
+    const str = value.toString();
+    return /[.e]/.test(str) ? str : `${str}.0`;
+  }
+  if (value instanceof Uint8Array) {
+    return `X'${Buffer.from(value).toString("hex")}'`;
+  }
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+interface SchemaRow {
+  type: "table" | "index" | "trigger" | "view";
+  name: string;
+  sql: string;
+}
+
+// Exports a database's schema and data as SQL statements, in a form that can
+// be imported with `importDatabase()`. Tables and their rows come first, as
+// indices, triggers and views may depend on them.
+export function exportDatabase(db: SqliteDB): string {
+  const schema: SchemaRow[] = db
+    .prepare(
+      `SELECT type, name, sql FROM sqlite_master
+       WHERE sql IS NOT NULL AND name NOT LIKE 'sqlite_%'
+       ORDER BY CASE type WHEN 'table' THEN 0 ELSE 1 END, rowid`
+    )
+    .all();
+
+  const lines = ["PRAGMA defer_foreign_keys=TRUE;"];
+  for (const { type, name, sql } of schema) {
+    lines.push(`${sql};`);
+    if (type !== "table") continue;
+    const rows = db
+      .prepare(`SELECT * FROM ${quoteIdentifier(name)}`)
+      .raw(true)
+      .safeIntegers(true)
+      .all();
+    for (const row of rows) {
+      const values = row.map(formatValue).join(",");
+      lines.push(`INSERT INTO ${quoteIdentifier(name)} VALUES(${values});`);
+    }
+  }
+
+  // Preserve `AUTOINCREMENT` counters
+  const hasSequence = db
+    .prepare("SELECT 1 FROM sqlite_master WHERE name = 'sqlite_sequence'")
+    .get();
+  if (hasSequence) {
+    lines.push("DELETE FROM sqlite_sequence;");
+    const sequences = db
+      .prepare("SELECT name, seq FROM sqlite_sequence")
+      .raw(true)
+      .safeIntegers(true)
+      .all();
+    for (const row of sequences) {
+      const values = row.map(formatValue).join(",");
+      lines.push(`INSERT INTO sqlite_sequence VALUES(${values});`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+// Matches standalone transaction statements, such as those `sqlite3`'s `.dump`
+// command wraps dumps in. These must be removed before splitting, as the
+// splitter treats `BEGIN` as the start of a compound statement. Note `END;`
+// alone isn't matched, as it also ends trigger bodies.
+const TRANSACTION_STATEMENT_REGEXP =
+  /^\s*(BEGIN( (DEFERRED|IMMEDIATE|EXCLUSIVE))?( TRANSACTION)?|COMMIT( TRANSACTION)?|END TRANSACTION)\s*;\s*$/gim;
+
+// Imports SQL statements, such as those produced by `exportDatabase()` or
+// `sqlite3`'s `.dump` command. Statements are run in a single transaction, so
+// explicit transaction statements in dumps are ignored.
+export async function importDatabase(
+  api: D1DatabaseAPI,
+  sql: string
+): Promise<void> {
+  const statements = splitSqlQuery(
+    sql.replace(TRANSACTION_STATEMENT_REGEXP, "")
+  );
+  const res = await api.fetch("/exec", {
+    method: "POST",
+    body: JSON.stringify({
+      statements: statements
+        .filter((statement) => !isEmptyStatement(statement))
+        .map((statement) => statement.trim()),
+    }),
+  });
+  const json = await res.json<{ error?: string }>();
+  if (!Array.isArray(json)) throw new Error(json.error);
+}
@@ -0,0 +1,8 @@
+import { MiniflareError } from "@miniflare/shared";
+
+export type D1ErrorCode =
+  | "ERR_MIGRATIONS_DIR_NOT_FOUND" // Migrations directory doesn't exist
+  | "ERR_MIGRATION_FAILED" // Error applying a migration's statements
+  | "ERR_SEED_FAILED"; // Error importing a database's seed file
+
+export class D1Error extends MiniflareError<D1ErrorCode> {}
@@ -1,3 +1,11 @@
 export * from "./api";
 export * from "./d1js";
+export * from "./dump";
+export * from "./error";
+export * from "./migrations";
 export * from "./plugin";
+/** @internal */
+export {
+  default as _splitSqlQuery,
+  isEmptyStatement as _isEmptyStatement,
+} from "./splitter";
@@ -0,0 +1,158 @@
+import fs from "fs/promises";
+import path from "path";
+import { Log, numericCompare } from "@miniflare/shared";
+import { D1DatabaseAPI } from "./api";
+import { D1Error } from "./error";
+import splitSqlQuery, { isEmptyStatement } from "./splitter";
+
+// Same defaults as Wrangler's `d1 migrations` commands
+export const DEFAULT_MIGRATIONS_DIR = "migrations";
+export const DEFAULT_MIGRATIONS_TABLE = "d1_migrations";
+
+export interface D1MigrationsConfig {
+  dir?: string;
+  table?: string;
+}
+
+export interface D1Migration {
+  name: string;
+  // Undefined if the migration hasn't been applied yet
+  appliedAt?: Date;
+}
+
+interface QueryResult {
+  results?: any[];
+  error?: string;
+}
+
+interface Query {
+  sql: string;
+  params?: any[];
+}
+
+// Runs queries as a batch through the API, so they're applied atomically
+async function query(api: D1DatabaseAPI, queries: Query[]): Promise<any[][]> {
+  const res = await api.fetch("/query", {
+    method: "POST",
+    body: JSON.stringify(queries),
+  });
+  const json = await res.json<QueryResult | QueryResult[]>();
+  if (!Array.isArray(json)) throw new Error(json.error);
+  return json.map(({ results }) => results ?? []);
+}
+
+async function readMigrationNames(dir: string): Promise<string[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch (e: any) {
+    if (e.code !== "ENOENT") throw e;
+    throw new D1Error(
+      "ERR_MIGRATIONS_DIR_NOT_FOUND",
+      `Migrations directory "${dir}" not found`
+    );
+  }
+  return names.filter((name) => name.endsWith(".sql")).sort(numericCompare);
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+async function createMigrationsTable(
+  api: D1DatabaseAPI,
+  table: string
+): Promise<void> {
+  await query(api, [
+    {
+      sql: `CREATE TABLE IF NOT EXISTS ${quoteIdentifier(table)} (
+        id         INTEGER PRIMARY KEY AUTOINCREMENT,
+        name       TEXT UNIQUE,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );`,
+    },
+  ]);
+}
+
+async function getAppliedMigrations(
+  api: D1DatabaseAPI,
+  table: string
+): Promise<D1Migration[]> {
+  // Listing migrations shouldn't modify the database, so don't create the
+  // table if it doesn't exist yet
+  const [tables] = await query(api, [
+    {
+      sql: "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?;",
+      params: [table],
+    },
+  ]);
+  if (tables.length === 0) return [];
+  const [rows] = await query(api, [
+    {
+      sql: `SELECT name, applied_at FROM ${quoteIdentifier(
+        table
+      )} ORDER BY id;`,
+    },
+  ]);
+  return rows.map(({ name, applied_at }) => ({
+    name,
+    // SQLite's CURRENT_TIMESTAMP is "YYYY-MM-DD HH:MM:SS" in UTC
+    appliedAt: new Date(`${applied_at.replace(" ", "T")}Z`),
+  }));
+}
+
+// Lists applied migrations in the order they were applied, followed by
+// pending migrations in the order they'll be applied
+export async function listMigrations(
+  api: D1DatabaseAPI,
+  dir: string,
+  table: string
+): Promise<D1Migration[]> {
+  const applied = await getAppliedMigrations(api, table);
+  const appliedNames = new Set(applied.map(({ name }) => name));
+  const pending = (await readMigrationNames(dir))
+    .filter((name) => !appliedNames.has(name))
+    .map((name) => ({ name }));
+  return [...applied, ...pending];
+}
+
+// Applies pending migrations, returning the names of those applied. Each
+// migration is recorded in the same batch as its statements, so a failed
+// migration leaves the database unchanged.
+export async function applyMigrations(
+  api: D1DatabaseAPI,
+  dir: string,
+  table: string,
+  log?: Log
+): Promise<string[]> {
+  const migrations = await listMigrations(api, dir, table);
+  if (migrations.some(({ appliedAt }) => appliedAt === undefined)) {
+    await createMigrationsTable(api, table);
+  }
+  const applied: string[] = [];
+  for (const { name, appliedAt } of migrations) {
+    if (appliedAt !== undefined) continue;
+    const sql = await fs.readFile(path.join(dir, name), "utf8");
+    const statements = splitSqlQuery(sql)
+      .filter((statement) => !isEmptyStatement(statement))
+      .map((statement) => ({ sql: statement }));
+    try {
+      await query(api, [
+        ...statements,
+        {
+          sql: `INSERT INTO ${quoteIdentifier(table)} (name) VALUES (?);`,
+          params: [name],
+        },
+      ]);
+    } catch (e: any) {
+      throw new D1Error(
+        "ERR_MIGRATION_FAILED",
+        `Unable to apply migration "${name}": ${e.message}`,
+        e
+      );
+    }
+    log?.info(`Applied D1 migration "${name}"`);
+    applied.push(name);
+  }
+  return applied;
+}
@@ -1,3 +1,5 @@
+import fs from "fs/promises";
+import path from "path";
 import {
   Context,
   Option,
@@ -5,18 +7,38 @@ import {
   Plugin,
   PluginContext,
   SetupResult,
+  SqliteDB,
   StorageFactory,
   resolveStoragePersist,
 } from "@miniflare/shared";
 import { D1DatabaseAPI } from "./api";
 import { D1Database } from "./d1js";
+import { exportDatabase, importDatabase } from "./dump";
+import { D1Error } from "./error";
+import {
+  D1Migration,
+  D1MigrationsConfig,
+  DEFAULT_MIGRATIONS_DIR,
+  DEFAULT_MIGRATIONS_TABLE,
+  applyMigrations,
+  listMigrations,
+} from "./migrations";
 
 export interface D1Options {
   d1Databases?: string[];
   d1Persist?: boolean | string;
+  d1Migrations?: Record<string, string | D1MigrationsConfig>;
+  d1Seed?: Record<string, string>;
 }
 const D1_BETA_PREFIX = `__D1_BETA__`;
 
+// Databases are stored locally without the beta prefix
+function getDatabaseName(binding: string): string {
+  return binding.startsWith(D1_BETA_PREFIX)
+    ? binding.slice(D1_BETA_PREFIX.length)
+    : binding;
+}
+
 export class D1Plugin extends Plugin<D1Options> implements D1Options {
   @Option({
     type: OptionType.ARRAY,
@@ -35,6 +57,49 @@ export class D1Plugin extends Plugin<D1Options> implements D1Options {
     fromWrangler: ({ miniflare }) => miniflare?.d1_persist,
   })
   d1Persist?: boolean | string;
+
+  @Option({
+    type: OptionType.OBJECT,
+    name: "d1-migration",
+    typeFormat: "NAME=DIR[@TABLE]",
+    description: "Apply migrations from directory to D1 database on startup",
+    logName: "D1 Migrations",
+    fromEntries: (entries) =>
+      Object.fromEntries(
+        // Allow specifying the migrations table on the CLI, e.g.
+        // --d1-migration DB=migrations@d1_migrations
+        entries.map(([name, dirTable]) => {
+          const atIndex = dirTable.lastIndexOf("@");
+          if (atIndex === -1) return [name, dirTable];
+          const dir = dirTable.substring(0, atIndex);
+          const table = dirTable.substring(atIndex + 1);
+          return [name, { dir, table }];
+        })
+      ),
+    fromWrangler: ({ d1_databases }) => {
+      const migrations = d1_databases
+        ?.filter(
+          ({ migrations_dir, migrations_table }) =>
+            migrations_dir || migrations_table
+        )
+        .map(({ binding, migrations_dir, migrations_table }) => [
+          binding,
+          { dir: migrations_dir, table: migrations_table },
+        ]);
+      return migrations?.length ? Object.fromEntries(migrations) : undefined;
+    },
+  })
+  d1Migrations?: Record<string, string | D1MigrationsConfig>;
+
+  @Option({
+    type: OptionType.OBJECT,
+    typeFormat: "NAME=PATH",
+    description: "Seed empty D1 database from SQL file on startup",
+    logName: "D1 Seeds",
+    fromWrangler: ({ miniflare }) => miniflare?.d1_seed,
+  })
+  d1Seed?: Record<string, string>;
+
   readonly #persist?: boolean | string;
 
   constructor(ctx: PluginContext, options?: D1Options) {
@@ -43,23 +108,116 @@ export class D1Plugin extends Plugin<D1Options> implements D1Options {
     this.#persist = resolveStoragePersist(ctx.rootPath, this.d1Persist);
   }
 
-  async getDatabase(
+  async #getSqliteDatabase(
     storageFactory: StorageFactory,
     dbName: string
-  ): Promise<D1Database> {
+  ): Promise<SqliteDB> {
+    const storage = await storageFactory.storage(dbName, this.#persist);
+    return storage.getSqliteDatabase();
+  }
+
+  async #getAPI(
+    storageFactory: StorageFactory,
+    dbName: string
+  ): Promise<[api: D1DatabaseAPI, db: SqliteDB]> {
     const storage = await storageFactory.storage(dbName, this.#persist);
     const db = await storage.getSqliteDatabase();
-    return new D1Database(new D1DatabaseAPI(db));
+    const api = new D1DatabaseAPI(db, () => storage.flushSqliteDatabase());
+    return [api, db];
+  }
+
+  async getDatabase(
+    storageFactory: StorageFactory,
+    dbName: string
+  ): Promise<D1Database> {
+    const [api] = await this.#getAPI(storageFactory, dbName);
+    return new D1Database(api);
+  }
+
+  #getMigrationsConfig(binding: string): Required<D1MigrationsConfig> {
+    const config = this.d1Migrations?.[binding];
+    const { dir, table }: D1MigrationsConfig =
+      typeof config === "string" ? { dir: config } : config ?? {};
+    return {
+      dir: path.resolve(this.ctx.rootPath, dir ?? DEFAULT_MIGRATIONS_DIR),
+      table: table ?? DEFAULT_MIGRATIONS_TABLE,
+    };
+  }
+
+  async listMigrations(
+    storageFactory: StorageFactory,
+    binding: string
+  ): Promise<D1Migration[]> {
+    const [api] = await this.#getAPI(storageFactory, getDatabaseName(binding));
+    const { dir, table } = this.#getMigrationsConfig(binding);
+    return listMigrations(api, dir, table);
+  }
+
+  async applyMigrations(
+    storageFactory: StorageFactory,
+    binding: string
+  ): Promise<string[]> {
+    const [api] = await this.#getAPI(storageFactory, getDatabaseName(binding));
+    const { dir, table } = this.#getMigrationsConfig(binding);
+    return applyMigrations(api, dir, table, this.ctx.log);
+  }
+
+  async exportDatabase(
+    storageFactory: StorageFactory,
+    binding: string
+  ): Promise<string> {
+    const db = await this.#getSqliteDatabase(
+      storageFactory,
+      getDatabaseName(binding)
+    );
+    return exportDatabase(db);
+  }
+
+  // Seeds the database from its seed file, unless it already contains tables,
+  // so persisted data isn't duplicated on restart. Returns true if seeded.
+  async seedDatabase(
+    storageFactory: StorageFactory,
+    binding: string
+  ): Promise<boolean> {
+    const seedPath = this.d1Seed?.[binding];
+    if (seedPath === undefined) return false;
+    const [api, db] = await this.#getAPI(
+      storageFactory,
+      getDatabaseName(binding)
+    );
+    const table = db
+      .prepare(
+        "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'"
+      )
+      .get();
+    if (table !== undefined) return false;
+
+    const filePath = path.resolve(this.ctx.rootPath, seedPath);
+    const sql = await fs.readFile(filePath, "utf8");
+    try {
+      await importDatabase(api, sql);
+    } catch (e: any) {
+      throw new D1Error(
+        "ERR_SEED_FAILED",
+        `Unable to seed D1 database "${binding}" from "${filePath}": ${e.message}`,
+        e
+      );
+    }
+    this.ctx.log.info(`Seeded D1 database "${binding}" from "${filePath}"`);
+    return true;
   }
 
   async setup(storageFactory: StorageFactory): Promise<SetupResult> {
     const bindings: Context = {};
     for (const dbName of this.d1Databases ?? []) {
       if (dbName.startsWith(D1_BETA_PREFIX)) {
+        await this.seedDatabase(storageFactory, dbName);
+        if (this.d1Migrations?.[dbName] !== undefined) {
+          await this.applyMigrations(storageFactory, dbName);
+        }
         bindings[dbName] = await this.getDatabase(
           storageFactory,
-          // Store it locally without the prefix
-          dbName.slice(D1_BETA_PREFIX.length)
+          getDatabaseName(dbName)
         );
       } else {
         console.warn(
@@ -165,3 +165,16 @@ function isCompoundStatementStart(str: string) {
 function isCompoundStatementEnd(str: string) {
   return /\sEND[;\s]$/.test(str);
 }
+
+/**
+ * Returns true if the `sql` statement only contains whitespace and comments.
+ * SQLite refuses to prepare these.
+ */
+export function isEmptyStatement(sql: string): boolean {
+  return (
+    sql
+      .replace(/--.*$/gm, "")
+      .replace(/\/\*[\s\S]*?\*\//g, "")
+      .trim() === ""
+  );
+}
@@ -139,6 +139,42 @@ test("D1Database: exec", async (t) => {
     { name: "Green" },
     { name: "Blue" },
   ]);
+
+  // Check with multiple statements per line, returning results for each
+  // statement
+  execResult = await db.exec(`
+    -- Create shapes
+    CREATE TABLE shapes (id INTEGER PRIMARY KEY, name TEXT NOT NULL);
+    INSERT INTO shapes (name) VALUES ('square'), ('circle'); SELECT name FROM shapes;
+  `);
+  t.is(execResult.count, 3);
+  t.deepEqual(
+    execResult.results.map(({ results }) => results),
+    [[], [], [{ name: "square" }, { name: "circle" }]]
+  );
+  t.is(execResult.results[1].meta.changes, 2);
+
+  // Check semicolons in literals don't affect newline-separated statements
+  execResult = await db.exec(
+    "INSERT INTO shapes (name) VALUES ('a;b')\nSELECT name FROM shapes WHERE name = 'a;b'"
+  );
+  t.is(execResult.count, 2);
+  t.deepEqual(execResult.results[1].results, [{ name: "a;b" }]);
+  await db.exec("DELETE FROM shapes WHERE name = 'a;b'");
+
+  // Check failing statement named, and no statements applied
+  const error = await t.throwsAsync(
+    db.exec(
+      "INSERT INTO shapes (name) VALUES ('triangle');\nINSERT INTO shapes (colour) VALUES ('red');"
+    ),
+    { message: "D1_EXEC_ERROR" }
+  );
+  t.regex(
+    (error as any)?.cause.message,
+    /^Error in statement 2: INSERT INTO shapes \(colour\) VALUES \('red'\): .*no column named colour/
+  );
+  result = await db.prepare("SELECT name FROM shapes").all();
+  t.deepEqual(result.results, [{ name: "square" }, { name: "circle" }]);
 });
 
 test("D1PreparedStatement: bind", async (t) => {
@@ -247,18 +283,28 @@ test("D1PreparedStatement: run", async (t) => {
     .bind(4, "yellow", 0xffff00)
     .run();
   t.true(result.meta.duration > 0);
+  t.true(result.meta.size_after > 0);
   t.deepEqual(result, {
     results: [],
     success: true,
     meta: {
       // Don't know duration, so just match on returned value asserted > 0
       duration: result.meta.duration,
-      last_row_id: null,
-      changes: null,
+      last_row_id: 4,
+      changes: 1,
       served_by: "miniflare.db",
       internal_stats: null,
+      rows_read: 0,
+      rows_written: 1,
+      // Don't know size either, so just match on returned value asserted > 0
+      size_after: result.meta.size_after,
     },
   });
+
+  // Check changes counted for statements that don't modify rows
+  result = await db.prepare("CREATE TABLE shapes (name TEXT)").run();
+  t.is(result.meta.changes, 0);
+  t.is(result.meta.rows_written, 0);
 });
 test("D1PreparedStatement: all", async (t) => {
   const { db } = t.context;
@@ -266,6 +312,7 @@ test("D1PreparedStatement: all", async (t) => {
   // Check with read statement
   let result = await db.prepare("SELECT * FROM colours").all<ColourRow>();
   t.true(result.meta.duration > 0);
+  t.true(result.meta.size_after > 0);
   t.deepEqual(result, {
     results: [
       { id: 1, name: "red", rgb: 0xff0000 },
@@ -276,13 +323,29 @@ test("D1PreparedStatement: all", async (t) => {
     meta: {
       // Don't know duration, so just match on returned value asserted > 0
       duration: result.meta.duration,
-      last_row_id: null,
-      changes: null,
+      // Last row inserted when seeding
+      last_row_id: 3,
+      changes: 0,
       served_by: "miniflare.db",
       internal_stats: null,
+      rows_read: 3,
+      rows_written: 0,
+      // Don't know size either, so just match on returned value asserted > 0
+      size_after: result.meta.size_after,
     },
   });
 
+  // Check with write statement returning data
+  const returning = await db
+    .prepare("INSERT INTO colours (name, rgb) VALUES (?, ?) RETURNING id")
+    .bind("purple", 0xff00ff)
+    .all<Pick<ColourRow, "id">>();
+  t.deepEqual(returning.results, [{ id: 4 }]);
+  t.is(returning.meta.last_row_id, 4);
+  t.is(returning.meta.changes, 1);
+  t.is(returning.meta.rows_written, 1);
+  await db.prepare("DELETE FROM colours WHERE id = 4").run();
+
   // Check with multiple statements (should only return first statement results)
   result = await db
     .prepare(
@@ -335,3 +398,26 @@ test("D1PreparedStatement: raw", async (t) => {
     .first("id");
   t.is(id, 4);
 });
+test("D1DatabaseAPI: flushes after requests that write", async (t) => {
+  const sqliteDb = await createSQLiteDB(":memory:");
+  let flushes = 0;
+  const db = new D1Database(
+    new D1DatabaseAPI(sqliteDb, async () => void flushes++)
+  );
+
+  await db.exec(COLOUR_SCHEMA);
+  t.is(flushes, 1);
+  await db.prepare("SELECT * FROM colours").all();
+  await db.prepare("SELECT * FROM colours").first();
+  t.is(flushes, 1);
+  const insert = db.prepare(
+    "INSERT INTO colours (id, name, rgb) VALUES (?, ?, ?)"
+  );
+  await insert.bind(1, "red", 0xff0000).run();
+  t.is(flushes, 2);
+  await db.batch([
+    insert.bind(2, "green", 0x00ff00),
+    insert.bind(3, "blue", 0x0000ff),
+  ]);
+  t.is(flushes, 3);
+});
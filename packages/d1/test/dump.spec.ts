@@ -0,0 +1,74 @@
+import { D1DatabaseAPI, exportDatabase, importDatabase } from "@miniflare/d1";
+import { createSQLiteDB } from "@miniflare/shared";
+import test from "ava";
+
+test("exportDatabase: exports schema and data", async (t) => {
+  const db = await createSQLiteDB(":memory:");
+  db.exec(`
+    CREATE TABLE kitchen_sink (id INTEGER PRIMARY KEY AUTOINCREMENT, int INTEGER, real REAL, text TEXT, blob BLOB);
+    CREATE INDEX kitchen_sink_text ON kitchen_sink (text);
+    CREATE VIEW texts AS SELECT text FROM kitchen_sink;
+    INSERT INTO kitchen_sink (int, real, text, blob) VALUES (9007199254740993, 1.0, 'it''s', x'00ff');
+    INSERT INTO kitchen_sink (int, real, text, blob) VALUES (NULL, 0.5, NULL, NULL);
+  `);
+  t.is(
+    exportDatabase(db),
+    [
+      "PRAGMA defer_foreign_keys=TRUE;",
+      "CREATE TABLE kitchen_sink (id INTEGER PRIMARY KEY AUTOINCREMENT, int INTEGER, real REAL, text TEXT, blob BLOB);",
+      `INSERT INTO "kitchen_sink" VALUES(1,9007199254740993,1.0,'it''s',X'00ff');`,
+      `INSERT INTO "kitchen_sink" VALUES(2,NULL,0.5,NULL,NULL);`,
+      "CREATE INDEX kitchen_sink_text ON kitchen_sink (text);",
+      "CREATE VIEW texts AS SELECT text FROM kitchen_sink;",
+      "DELETE FROM sqlite_sequence;",
+      "INSERT INTO sqlite_sequence VALUES('kitchen_sink',2);",
+      "",
+    ].join("\n")
+  );
+});
+test("importDatabase: imports exported database", async (t) => {
+  const db = await createSQLiteDB(":memory:");
+  db.exec(`
+    CREATE TABLE colours (id INTEGER PRIMARY KEY, name TEXT NOT NULL);
+    CREATE TRIGGER colours_upper AFTER INSERT ON colours BEGIN
+      UPDATE colours SET name = upper(name) WHERE id = new.id;
+    END;
+    INSERT INTO colours (name) VALUES ('red'), ('green; blue');
+  `);
+  const sql = exportDatabase(db);
+
+  const importedDb = await createSQLiteDB(":memory:");
+  await importDatabase(new D1DatabaseAPI(importedDb), sql);
+  t.is(exportDatabase(importedDb), sql);
+  // Check trigger imported
+  importedDb.prepare("INSERT INTO colours (name) VALUES ('blue')").run();
+  t.deepEqual(importedDb.prepare("SELECT name FROM colours").all(), [
+    { name: "RED" },
+    { name: "GREEN; BLUE" },
+    { name: "BLUE" },
+  ]);
+});
+test("importDatabase: ignores transaction statements in sqlite3 dumps", async (t) => {
+  const db = await createSQLiteDB(":memory:");
+  await importDatabase(
+    new D1DatabaseAPI(db),
+    `PRAGMA foreign_keys=OFF;
+BEGIN TRANSACTION;
+CREATE TABLE colours (id INTEGER PRIMARY KEY, name TEXT NOT NULL);
+INSERT INTO colours VALUES(1,'red');
+COMMIT;
+`
+  );
+  t.deepEqual(db.prepare("SELECT name FROM colours").all(), [{ name: "red" }]);
+});
+test("importDatabase: rolls back on error", async (t) => {
+  const db = await createSQLiteDB(":memory:");
+  await t.throwsAsync(
+    importDatabase(
+      new D1DatabaseAPI(db),
+      "CREATE TABLE colours (name TEXT);\nINSERT INTO shapes VALUES ('square');"
+    ),
+    { message: /^Error in statement 2: .*no such table: shapes/ }
+  );
+  t.deepEqual(db.prepare("SELECT name FROM sqlite_master").all(), []);
+});
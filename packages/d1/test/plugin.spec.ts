@@ -1,14 +1,51 @@
+import assert from "assert";
+import fs from "fs/promises";
+import path from "path";
 import { createCrypto } from "@miniflare/core";
-import { D1Plugin } from "@miniflare/d1";
+import { D1Database, D1Error, D1Plugin } from "@miniflare/d1";
+import { QueueBroker } from "@miniflare/queues";
 import {
+  Compatibility,
+  NoOpLog,
+  PluginContext,
+  QueueEventDispatcher,
+} from "@miniflare/shared";
+import {
+  MemoryStorageFactory,
   logPluginOptions,
   parsePluginArgv,
   parsePluginWranglerConfig,
+  useTmp,
 } from "@miniflare/shared-test";
-import test from "ava";
+import test, { ExecutionContext } from "ava";
 
 const crypto = createCrypto();
 
+const log = new NoOpLog();
+const compat = new Compatibility();
+const queueBroker = new QueueBroker();
+const queueEventDispatcher: QueueEventDispatcher = async (_batch) => {};
+function useContext(rootPath: string): PluginContext {
+  return { log, compat, rootPath, queueBroker, queueEventDispatcher };
+}
+
+async function useMigrations(t: ExecutionContext): Promise<string> {
+  const tmp = await useTmp(t);
+  const dir = path.join(tmp, "migrations");
+  await fs.mkdir(dir);
+  await fs.writeFile(
+    path.join(dir, "0001_create_colours.sql"),
+    "-- Create colours\nCREATE TABLE colours (id INTEGER PRIMARY KEY, name TEXT);\n"
+  );
+  await fs.writeFile(
+    path.join(dir, "0002_insert_colours.sql"),
+    "INSERT INTO colours (name) VALUES ('red');\nINSERT INTO colours (name) VALUES ('green');\n"
+  );
+  // Non-SQL files should be ignored
+  await fs.writeFile(path.join(dir, "README.md"), "# Migrations");
+  return tmp;
+}
+
 test("D1Plugin: parses options from argv", (t) => {
   const options = parsePluginArgv(D1Plugin, [
     "--d1",
@@ -17,11 +54,42 @@ test("D1Plugin: parses options from argv", (t) => {
     "DB2",
     "--d1-persist",
     "path",
+    "--d1-migration",
+    "DB1=migrations",
+    "--d1-migration",
+    "DB2=db2/migrations@migrations_table",
+    "--d1-seed",
+    "DB1=seed.sql",
   ]);
   t.deepEqual(options, {
     d1Databases: ["DB1", "DB2"],
     d1Persist: "path",
+    d1Migrations: {
+      DB1: "migrations",
+      DB2: { dir: "db2/migrations", table: "migrations_table" },
+    },
+    d1Seed: { DB1: "seed.sql" },
+  });
+});
+test("D1Plugin: parses documented migration flags from argv", (t) => {
+  const options = parsePluginArgv(D1Plugin, [
+    "--d1",
+    "__D1_BETA__DB",
+    "--d1-migration",
+    "__D1_BETA__DB=migrations@my_migrations",
+  ]);
+  t.deepEqual(options.d1Migrations, {
+    __D1_BETA__DB: { dir: "migrations", table: "my_migrations" },
   });
+  // Check only the singular flag is accepted, like other object options
+  t.throws(
+    () =>
+      parsePluginArgv(D1Plugin, [
+        "--d1-migrations",
+        "__D1_BETA__DB=migrations",
+      ]),
+    { message: "Unexpected option: --d1-migrations" }
+  );
 });
 test("D1Plugin: parses options from wrangler config", (t) => {
   const options = parsePluginWranglerConfig(D1Plugin, {
@@ -35,19 +103,195 @@ test("D1Plugin: parses options from wrangler config", (t) => {
         binding: "DB2",
         database_name: "data-base-2",
         database_id: crypto.randomUUID(),
+        migrations_dir: "db2/migrations",
+        migrations_table: "migrations_table",
       },
     ],
-    miniflare: { d1_persist: "path" },
+    miniflare: { d1_persist: "path", d1_seed: { DB1: "seed.sql" } },
   });
   t.deepEqual(options, {
     d1Databases: ["DB1", "DB2"],
     d1Persist: "path",
+    d1Migrations: {
+      DB2: { dir: "db2/migrations", table: "migrations_table" },
+    },
+    d1Seed: { DB1: "seed.sql" },
   });
 });
 test("D1Plugin: logs options", (t) => {
   const logs = logPluginOptions(D1Plugin, {
     d1Databases: ["DB1", "DB2"],
     d1Persist: true,
+    d1Migrations: { DB1: "migrations" },
+    d1Seed: { DB2: "seed.sql" },
+  });
+  t.deepEqual(logs, [
+    "D1 Namespaces: DB1, DB2",
+    "D1 Persistence: true",
+    "D1 Migrations: DB1",
+    "D1 Seeds: DB2",
+  ]);
+});
+test("D1Plugin: setup: applies pending migrations", async (t) => {
+  const tmp = await useMigrations(t);
+  const factory = new MemoryStorageFactory();
+  const plugin = new D1Plugin(useContext(tmp), {
+    d1Databases: ["__D1_BETA__DB"],
+    d1Migrations: { __D1_BETA__DB: "migrations" },
+  });
+  const result = await plugin.setup(factory);
+  const db = result.bindings?.__D1_BETA__DB;
+  assert(db instanceof D1Database);
+  const colours = await db.prepare("SELECT name FROM colours").all();
+  t.deepEqual(colours.results, [{ name: "red" }, { name: "green" }]);
+
+  // Check migrations recorded, and not applied again on subsequent setups
+  const migrations = await plugin.listMigrations(factory, "__D1_BETA__DB");
+  t.deepEqual(
+    migrations.map(({ name }) => name),
+    ["0001_create_colours.sql", "0002_insert_colours.sql"]
+  );
+  t.true(migrations.every(({ appliedAt }) => appliedAt instanceof Date));
+  await plugin.setup(factory);
+  const count = await db.prepare("SELECT COUNT(*) AS count FROM colours").all();
+  t.deepEqual(count.results, [{ count: 2 }]);
+});
+test("D1Plugin: listMigrations/applyMigrations: uses custom table and lists pending migrations", async (t) => {
+  const tmp = await useMigrations(t);
+  const factory = new MemoryStorageFactory();
+  const plugin = new D1Plugin(useContext(tmp), {
+    d1Migrations: { DB: { dir: "migrations", table: "custom_migrations" } },
+  });
+  let migrations = await plugin.listMigrations(factory, "DB");
+  t.deepEqual(migrations, [
+    { name: "0001_create_colours.sql" },
+    { name: "0002_insert_colours.sql" },
+  ]);
+  // Check listing migrations doesn't create the migrations table
+  const db = await plugin.getDatabase(factory, "DB");
+  const tables = await db
+    .prepare("SELECT name FROM sqlite_master WHERE type = 'table'")
+    .all();
+  t.deepEqual(tables.results, []);
+
+  const applied = await plugin.applyMigrations(factory, "DB");
+  t.deepEqual(applied, ["0001_create_colours.sql", "0002_insert_colours.sql"]);
+  t.deepEqual(await plugin.applyMigrations(factory, "DB"), []);
+
+  const rows = await db.prepare("SELECT name FROM custom_migrations").all();
+  t.deepEqual(rows.results, [
+    { name: "0001_create_colours.sql" },
+    { name: "0002_insert_colours.sql" },
+  ]);
+  migrations = await plugin.listMigrations(factory, "DB");
+  t.is(migrations.length, 2);
+});
+test("D1Plugin: applyMigrations: quotes migrations table name", async (t) => {
+  const tmp = await useMigrations(t);
+  const factory = new MemoryStorageFactory();
+  const table = 'my "migrations"; DROP TABLE colours';
+  const plugin = new D1Plugin(useContext(tmp), {
+    d1Migrations: { DB: { dir: "migrations", table } },
+  });
+  t.is((await plugin.applyMigrations(factory, "DB")).length, 2);
+  const migrations = await plugin.listMigrations(factory, "DB");
+  t.true(migrations.every(({ appliedAt }) => appliedAt instanceof Date));
+  const db = await plugin.getDatabase(factory, "DB");
+  const colours = await db
+    .prepare("SELECT COUNT(*) AS count FROM colours")
+    .all();
+  t.deepEqual(colours.results, [{ count: 2 }]);
+});
+test("D1Plugin: applyMigrations: defaults to migrations directory", async (t) => {
+  const tmp = await useMigrations(t);
+  const factory = new MemoryStorageFactory();
+  const plugin = new D1Plugin(useContext(tmp));
+  t.deepEqual(await plugin.applyMigrations(factory, "DB"), [
+    "0001_create_colours.sql",
+    "0002_insert_colours.sql",
+  ]);
+});
+test("D1Plugin: applyMigrations: rolls back failed migrations", async (t) => {
+  const tmp = await useMigrations(t);
+  await fs.writeFile(
+    path.join(tmp, "migrations", "0003_bad.sql"),
+    "INSERT INTO colours (name) VALUES ('blue');\nINSERT INTO shapes (name) VALUES ('square');\n"
+  );
+  const factory = new MemoryStorageFactory();
+  const plugin = new D1Plugin(useContext(tmp));
+  await t.throwsAsync(plugin.applyMigrations(factory, "DB"), {
+    instanceOf: D1Error,
+    code: "ERR_MIGRATION_FAILED",
+    message:
+      /^Unable to apply migration "0003_bad\.sql": .*no such table: shapes/,
+  });
+
+  // Check earlier migrations applied, but none of the failed one
+  const db = await plugin.getDatabase(factory, "DB");
+  const colours = await db.prepare("SELECT name FROM colours").all();
+  t.deepEqual(colours.results, [{ name: "red" }, { name: "green" }]);
+  const migrations = await plugin.listMigrations(factory, "DB");
+  t.deepEqual(migrations[2], { name: "0003_bad.sql" });
+});
+test("D1Plugin: applyMigrations: throws if migrations directory not found", async (t) => {
+  const tmp = await useTmp(t);
+  const plugin = new D1Plugin(useContext(tmp));
+  await t.throwsAsync(
+    plugin.applyMigrations(new MemoryStorageFactory(), "DB"),
+    {
+      instanceOf: D1Error,
+      code: "ERR_MIGRATIONS_DIR_NOT_FOUND",
+      message: `Migrations directory "${path.join(
+        tmp,
+        "migrations"
+      )}" not found`,
+    }
+  );
+});
+test("D1Plugin: setup: seeds empty databases", async (t) => {
+  const tmp = await useTmp(t);
+  await fs.writeFile(
+    path.join(tmp, "seed.sql"),
+    "CREATE TABLE colours (id INTEGER PRIMARY KEY, name TEXT);\nINSERT INTO colours (name) VALUES ('red');\n"
+  );
+  const factory = new MemoryStorageFactory();
+  const plugin = new D1Plugin(useContext(tmp), {
+    d1Databases: ["__D1_BETA__DB"],
+    d1Seed: { __D1_BETA__DB: "seed.sql" },
+  });
+  const result = await plugin.setup(factory);
+  const db = result.bindings?.__D1_BETA__DB;
+  assert(db instanceof D1Database);
+  await db.prepare("INSERT INTO colours (name) VALUES ('green')").run();
+
+  // Check database not seeded again once it contains tables
+  await plugin.setup(factory);
+  const colours = await db.prepare("SELECT name FROM colours").all();
+  t.deepEqual(colours.results, [{ name: "red" }, { name: "green" }]);
+  t.is(
+    await plugin.exportDatabase(factory, "__D1_BETA__DB"),
+    [
+      "PRAGMA defer_foreign_keys=TRUE;",
+      "CREATE TABLE colours (id INTEGER PRIMARY KEY, name TEXT);",
+      `INSERT INTO "colours" VALUES(1,'red');`,
+      `INSERT INTO "colours" VALUES(2,'green');`,
+      "",
+    ].join("\n")
+  );
+});
+test("D1Plugin: seedDatabase: throws if seed file invalid", async (t) => {
+  const tmp = await useTmp(t);
+  const seedPath = path.join(tmp, "seed.sql");
+  await fs.writeFile(seedPath, "INSERT INTO colours (name) VALUES ('red');");
+  const plugin = new D1Plugin(useContext(tmp), { d1Seed: { DB: "seed.sql" } });
+  await t.throwsAsync(plugin.seedDatabase(new MemoryStorageFactory(), "DB"), {
+    instanceOf: D1Error,
+    code: "ERR_SEED_FAILED",
+    message: new RegExp(
+      `^Unable to seed D1 database "DB" from "${seedPath.replace(
+        /[\\^$.*+?()[\]{}|]/g,
+        "\\$&"
+      )}": Error in statement 1: .*no such table: colours`
+    ),
   });
-  t.deepEqual(logs, ["D1 Namespaces: DB1, DB2", "D1 Persistence: true"]);
 });
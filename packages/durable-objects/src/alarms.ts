@@ -1,5 +1,5 @@
 import assert from "assert";
-import { Storage, StorageFactory } from "@miniflare/shared";
+import { Log, Storage, StorageFactory, prefixError } from "@miniflare/shared";
 
 export interface DurableObjectSetAlarmOptions {
   allowConcurrency?: boolean;
@@ -15,27 +15,63 @@ export interface DurableObjectAlarmBridge {
   deleteAlarm: () => Promise<void>;
 }
 
+// Passed to `alarm()` handlers
+export interface DurableObjectAlarmInvocationInfo {
+  retryCount: number;
+  isRetry: boolean;
+}
+
 export interface DurableObjectAlarm {
   scheduledTime: number;
+  // Number of times this alarm has previously failed, undefined if 0
+  retryCount?: number;
   timeout?: NodeJS.Timeout;
 }
 
+interface DurableObjectAlarmMeta {
+  scheduledTime: number;
+  retryCount?: number;
+}
+
+export type AlarmCallback = (
+  objectKey: string,
+  info: DurableObjectAlarmInvocationInfo
+) => Promise<void>;
+
+export interface AlarmStoreOptions {
+  log?: Log;
+  // Delay before the first retry in milliseconds, doubled for each retry
+  retryDelay?: number;
+}
+
 export const ALARM_KEY = "__MINIFLARE_ALARMS__";
+export const ALARM_MAX_RETRIES = 6;
+const ALARM_RETRY_DELAY = 2_000; /* 2s */
 
 export class AlarmStore {
+  readonly #log?: Log;
+  readonly #retryDelay: number;
   #store?: Storage;
   // 'objectName:hexId' -> DurableObjectAlarm [pulled from plugin.getObject]
   #alarms: Map<string, DurableObjectAlarm> = new Map();
   #alarmTimeout?: NodeJS.Timeout;
-  #callback?: (objectKey: string) => Promise<void>;
+  #callback?: AlarmCallback;
+
+  constructor({ log, retryDelay = ALARM_RETRY_DELAY }: AlarmStoreOptions = {}) {
+    this.#log = log;
+    this.#retryDelay = retryDelay;
+  }
 
   // build a map of all alarms from file storage if persist
   async setupStore(storage: StorageFactory, persist?: boolean | string) {
     // pull in the store & iterate the store for all alarms
     this.#store = storage.storage(ALARM_KEY, persist);
-    const { keys } = await this.#store.list<{ scheduledTime: number }>();
+    const { keys } = await this.#store.list<DurableObjectAlarmMeta>();
     for (const { name, metadata } of keys) {
-      this.#alarms.set(name, { scheduledTime: metadata?.scheduledTime || 0 });
+      this.#alarms.set(name, {
+        scheduledTime: metadata?.scheduledTime || 0,
+        retryCount: metadata?.retryCount,
+      });
     }
   }
 
@@ -47,14 +83,47 @@ export class AlarmStore {
     // if timeout was already created, delete alarm incase scheduledTime changed
     if (doAlarm.timeout) clearTimeout(doAlarm.timeout);
     // set alarm
-    doAlarm.timeout = setTimeout(() => {
-      void this.#deleteAlarm(objectKey, doAlarm);
-      this.#callback?.(objectKey);
-    }, Math.max(doAlarm.scheduledTime - now, 0));
+    doAlarm.timeout = setTimeout(
+      () => void this.#runAlarm(objectKey, doAlarm),
+      Math.max(doAlarm.scheduledTime - now, 0)
+    );
+  }
+
+  // Deletes then executes an alarm, scheduling a retry if it fails
+  async #runAlarm(objectKey: string, doAlarm: DurableObjectAlarm) {
+    await this.#deleteAlarm(objectKey, doAlarm);
+    const retryCount = doAlarm.retryCount ?? 0;
+    try {
+      await this.#callback?.(objectKey, {
+        retryCount,
+        isRetry: retryCount > 0,
+      });
+    } catch (e: any) {
+      await this.#retryAlarm(objectKey, retryCount, e);
+    }
+  }
+
+  async #retryAlarm(objectKey: string, retryCount: number, error: Error) {
+    // If the handler set a new alarm before failing, that replaces the retry
+    if (this.#alarms.has(objectKey)) return;
+    if (retryCount >= ALARM_MAX_RETRIES) {
+      this.#log?.error(
+        prefixError(
+          `Alarm for Durable Object "${objectKey}" failed after ${retryCount} retries`,
+          error
+        )
+      );
+      return;
+    }
+    const delay = this.#retryDelay * Math.pow(2, retryCount);
+    this.#log?.warn(
+      `Alarm for Durable Object "${objectKey}" failed: ${error?.message}. Retrying in ${delay}ms...`
+    );
+    await this.#scheduleAlarm(objectKey, Date.now() + delay, retryCount + 1);
   }
 
   // any alarms 30 seconds in the future or sooner are returned
-  async setupAlarms(callback?: (objectKey: string) => Promise<void>) {
+  async setupAlarms(callback?: AlarmCallback) {
     if (typeof callback === "function") this.#callback = callback;
     if (this.#alarmTimeout) return;
     const now = Date.now();
@@ -88,18 +157,27 @@ export class AlarmStore {
   }
 
   async setAlarm(objectKey: string, scheduledTime: number | Date) {
-    const now = Date.now();
     if (typeof scheduledTime !== "number")
       scheduledTime = scheduledTime.getTime();
     if (scheduledTime <= 0) {
       throw TypeError("setAlarm() cannot be called with an alarm time <= 0");
     }
+    await this.#scheduleAlarm(objectKey, scheduledTime);
+  }
+
+  async #scheduleAlarm(
+    objectKey: string,
+    scheduledTime: number,
+    retryCount?: number
+  ) {
+    const now = Date.now();
     // pull in the alarm or create a new one if it does not exist
     const doAlarm: DurableObjectAlarm = this.#alarms.get(objectKey) ?? {
       scheduledTime,
     };
-    // update scheduledTime incase old alarm existed
+    // update scheduledTime incase old alarm existed, new alarms reset retries
     doAlarm.scheduledTime = scheduledTime;
+    doAlarm.retryCount = retryCount;
     // if the alarm is within the next 31 seconds, set a timeout immediately
     // add a second to ensure healthy overlap between alarm checks
     if (scheduledTime < now + 31_000) {
@@ -109,8 +187,8 @@ export class AlarmStore {
     this.#alarms.set(objectKey, doAlarm);
     // store the alarm in storage
     assert(this.#store);
-    await this.#store.put(objectKey, {
-      metadata: { scheduledTime },
+    await this.#store.put<DurableObjectAlarmMeta>(objectKey, {
+      metadata: { scheduledTime, retryCount },
       value: new Uint8Array(),
     });
   }
@@ -132,19 +210,16 @@ export class AlarmStore {
 
   async flushAlarms(keys?: string[]) {
     if (keys === undefined) {
-      // Flush all scheduled alarms
-      for (const [key, alarm] of this.#alarms) {
-        await this.#deleteAlarm(key, alarm);
-        await this.#callback?.(key);
+      // Flush all scheduled alarms. Copy entries first, as failed alarms may
+      // schedule retries, which should only run on the next flush.
+      for (const [key, alarm] of [...this.#alarms]) {
+        await this.#runAlarm(key, alarm);
       }
     } else {
       // Flush selected scheduled alarms
       for (const key of keys) {
         const alarm = this.#alarms.get(key);
-        if (alarm !== undefined) {
-          await this.#deleteAlarm(key, alarm);
-          await this.#callback?.(key);
-        }
+        if (alarm !== undefined) await this.#runAlarm(key, alarm);
       }
     }
   }
@@ -5,6 +5,7 @@ export type DurableObjectErrorCode =
   | "ERR_CLASS_NOT_FOUND" // Missing constructor for object
   | "ERR_RESPONSE_TYPE" // Fetch handler returned non-Response object;
   | "ERR_DESERIALIZATION" // Unable to deserialize stored value (likely loading data created in Miniflare 1)
-  | "ERR_NO_HANDLER"; // No fetch handler for object
+  | "ERR_NO_HANDLER" // No fetch handler for object
+  | "ERR_MIGRATION"; // Unable to apply class migration
 
 export class DurableObjectError extends MiniflareError<DurableObjectErrorCode> {}
@@ -0,0 +1,160 @@
+import { ValueOf } from "@miniflare/shared";
+import {
+  MessageEvent,
+  WebSocket,
+  WebSocketEventMap,
+  _kAcceptWithHandler,
+} from "@miniflare/web-sockets";
+
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 256;
+const MAX_AUTO_RESPONSE_LENGTH = 2048;
+
+export class WebSocketRequestResponsePair {
+  readonly #request: string;
+  readonly #response: string;
+
+  constructor(request: string, response: string) {
+    // noinspection SuspiciousTypeOfGuard
+    if (typeof request !== "string" || typeof response !== "string") {
+      throw new TypeError(
+        "Failed to construct 'WebSocketRequestResponsePair': request and response must be strings."
+      );
+    }
+    if (
+      request.length > MAX_AUTO_RESPONSE_LENGTH ||
+      response.length > MAX_AUTO_RESPONSE_LENGTH
+    ) {
+      throw new TypeError(
+        `Auto-response request and response must be at most ${MAX_AUTO_RESPONSE_LENGTH} characters.`
+      );
+    }
+    this.#request = request;
+    this.#response = response;
+  }
+
+  get request(): string {
+    return this.#request;
+  }
+
+  get response(): string {
+    return this.#response;
+  }
+}
+
+export type WebSocketEvent = ValueOf<WebSocketEventMap>;
+
+// Called with events for accepted WebSockets, should dispatch them to the
+// Durable Object's handlers, constructing a new instance if hibernated
+export type WebSocketEventDispatcher = (
+  ws: WebSocket,
+  event: WebSocketEvent
+) => Promise<void>;
+
+interface HibernatableWebSocket {
+  tags: string[];
+  autoResponseTimestamp?: Date;
+}
+
+// WebSockets accepted by a Durable Object with `state.acceptWebSocket()`.
+// These outlive the object's instance, so the object can be evicted whilst
+// WebSockets are open, and re-instantiated when they receive events.
+export class HibernatableWebSockets {
+  readonly #dispatcher: WebSocketEventDispatcher;
+  readonly #webSockets = new Map<WebSocket, HibernatableWebSocket>();
+  #autoResponse?: WebSocketRequestResponsePair;
+
+  constructor(dispatcher: WebSocketEventDispatcher) {
+    this.#dispatcher = dispatcher;
+  }
+
+  get size(): number {
+    this.#removeClosed();
+    return this.#webSockets.size;
+  }
+
+  #removeClosed(): void {
+    for (const ws of this.#webSockets.keys()) {
+      if (ws.readyState === WebSocket.READY_STATE_CLOSED) {
+        this.#webSockets.delete(ws);
+      }
+    }
+  }
+
+  accept(ws: WebSocket, tags: string[] = []): void {
+    if (!(ws instanceof WebSocket)) {
+      throw new TypeError(
+        "Failed to execute 'acceptWebSocket' on 'DurableObjectState': parameter 1 is not of type 'WebSocket'."
+      );
+    }
+    if (tags.length > MAX_TAGS) {
+      throw new TypeError(
+        `A WebSocket can only be associated with ${MAX_TAGS} tags.`
+      );
+    }
+    for (const tag of tags) {
+      // noinspection SuspiciousTypeOfGuard
+      if (typeof tag !== "string") {
+        throw new TypeError("WebSocket tags must be strings.");
+      }
+      if (tag.length > MAX_TAG_LENGTH) {
+        throw new TypeError(
+          `A WebSocket tag must be at most ${MAX_TAG_LENGTH} characters.`
+        );
+      }
+    }
+
+    const webSocket: HibernatableWebSocket = { tags: [...new Set(tags)] };
+    ws[_kAcceptWithHandler]((event) => {
+      // Respond to auto-response requests without dispatching to the object
+      const autoResponse = this.#autoResponse;
+      if (
+        event instanceof MessageEvent &&
+        autoResponse !== undefined &&
+        event.data === autoResponse.request
+      ) {
+        ws.send(autoResponse.response);
+        webSocket.autoResponseTimestamp = new Date();
+        return;
+      }
+      void this.#dispatcher(ws, event);
+    });
+    this.#webSockets.set(ws, webSocket);
+  }
+
+  getWebSockets(tag?: string): WebSocket[] {
+    this.#removeClosed();
+    const webSockets: WebSocket[] = [];
+    for (const [ws, { tags }] of this.#webSockets) {
+      if (tag === undefined || tags.includes(tag)) webSockets.push(ws);
+    }
+    return webSockets;
+  }
+
+  getTags(ws: WebSocket): string[] {
+    const webSocket = this.#webSockets.get(ws);
+    if (webSocket === undefined) {
+      throw new TypeError(
+        "getTags() can only be called on WebSockets accepted with acceptWebSocket()."
+      );
+    }
+    return [...webSocket.tags];
+  }
+
+  setAutoResponse(pair?: WebSocketRequestResponsePair): void {
+    if (pair !== undefined && !(pair instanceof WebSocketRequestResponsePair)) {
+      throw new TypeError(
+        "Failed to execute 'setWebSocketAutoResponse' on 'DurableObjectState': parameter 1 is not of type 'WebSocketRequestResponsePair'."
+      );
+    }
+    this.#autoResponse = pair;
+  }
+
+  getAutoResponse(): WebSocketRequestResponsePair | null {
+    return this.#autoResponse ?? null;
+  }
+
+  getAutoResponseTimestamp(ws: WebSocket): Date | null {
+    return this.#webSockets.get(ws)?.autoResponseTimestamp ?? null;
+  }
+}
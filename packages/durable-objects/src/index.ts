@@ -1,5 +1,6 @@
 export * from "./alarms";
 export * from "./error";
+export * from "./hibernation";
 export {
   DurableObjectId,
   DurableObjectState,
@@ -13,7 +14,9 @@ export type {
   DurableObjectFactory,
   NewUniqueIdOptions,
 } from "./namespace";
+export * from "./migrations";
 export * from "./plugin";
 export * from "./rwmutex";
 export * from "./shadow";
+export * from "./sql";
 export * from "./storage";
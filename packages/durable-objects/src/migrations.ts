@@ -0,0 +1,245 @@
+import {
+  Log,
+  Storage,
+  StorageFactory,
+  StoredValueMeta,
+} from "@miniflare/shared";
+import { ALARM_KEY } from "./alarms";
+import { DurableObjectError } from "./error";
+
+export interface DurableObjectMigration {
+  tag: string;
+  newClasses?: string[];
+  newSqliteClasses?: string[];
+  renamedClasses?: { from: string; to: string }[];
+  deletedClasses?: string[];
+  transferredClasses?: { from: string; fromScript: string; to: string }[];
+}
+
+export interface DurableObjectMigrationClass {
+  // Name of the binding/namespace objects of this class are stored under
+  name: string;
+  className: string;
+  scriptName?: string;
+}
+
+// Returns the key of the object in the namespace `objectName` that an object
+// with key `objectKey` should be moved to
+export type DurableObjectKeyMigrator = (
+  objectKey: string,
+  objectName: string,
+  name?: string
+) => string;
+
+interface RegisteredObjectMeta {
+  className: string;
+  scriptName?: string;
+  // Name passed to `idFromName()`, if known, so named objects can be found
+  // with the same name after being moved
+  name?: string;
+}
+
+interface MigrationTagMeta {
+  tag: string;
+}
+
+export const OBJECTS_KEY = "__MINIFLARE_DURABLE_OBJECTS__";
+const OBJECT_PREFIX = "object:";
+const TAG_KEY = "tag";
+
+const EMPTY = new Uint8Array();
+
+// Records which class each object's storage belongs to, as namespaces in
+// storage can't be listed, and applies migrations from `[[migrations]]`
+// sections to persisted data:
+// https://developers.cloudflare.com/workers/learning/using-durable-objects/#durable-object-migrations-in-wranglertoml
+export class DurableObjectRegistry {
+  readonly #storageFactory: StorageFactory;
+  readonly #persist?: boolean | string;
+  readonly #storage: Storage;
+  // objectKey -> whether the object's name has been recorded
+  readonly #registered = new Map<string, boolean>();
+  readonly #pending = new Set<Promise<void>>();
+
+  constructor(storageFactory: StorageFactory, persist?: boolean | string) {
+    this.#storageFactory = storageFactory;
+    this.#persist = persist;
+    this.#storage = storageFactory.storage(OBJECTS_KEY, persist);
+  }
+
+  // Records the class of an object, resolving once the record is written
+  register(objectKey: string, metadata: RegisteredObjectMeta): Promise<void> {
+    // Only write to storage if we have something new to record
+    const registeredName = this.#registered.get(objectKey);
+    if (
+      registeredName === true ||
+      (registeredName === false && metadata.name === undefined)
+    ) {
+      return Promise.resolve();
+    }
+    this.#registered.set(objectKey, metadata.name !== undefined);
+    const promise = this.#putObject(objectKey, metadata).finally(() =>
+      this.#pending.delete(promise)
+    );
+    this.#pending.add(promise);
+    return promise;
+  }
+
+  async #putObject(
+    objectKey: string,
+    metadata: RegisteredObjectMeta
+  ): Promise<void> {
+    // Don't forget names recorded by previous runs
+    if (metadata.name === undefined) {
+      const existing = await this.#storage.get<RegisteredObjectMeta>(
+        OBJECT_PREFIX + objectKey
+      );
+      metadata = { ...metadata, name: existing?.metadata?.name };
+    }
+    await this.#storage.put<RegisteredObjectMeta>(OBJECT_PREFIX + objectKey, {
+      value: EMPTY,
+      metadata,
+    });
+  }
+
+  async flush(): Promise<void> {
+    // Errors are reported by `register()`'s callers
+    await Promise.allSettled(this.#pending);
+  }
+
+  async migrate(
+    migrations: DurableObjectMigration[],
+    classes: DurableObjectMigrationClass[],
+    migrateKey: DurableObjectKeyMigrator,
+    log?: Log
+  ): Promise<void> {
+    await this.flush();
+    // Only apply migrations after the last applied one
+    const applied = await this.#storage.get<MigrationTagMeta>(TAG_KEY);
+    const appliedTag = applied?.metadata?.tag;
+    let start = 0;
+    if (appliedTag !== undefined) {
+      start = migrations.findIndex(({ tag }) => tag === appliedTag) + 1;
+      if (start === 0) {
+        throw new DurableObjectError(
+          "ERR_MIGRATION",
+          `Durable Object migration tag "${appliedTag}" was previously applied, but is not in the list of migrations`
+        );
+      }
+    }
+
+    for (const migration of migrations.slice(start)) {
+      for (const { from, to } of migration.renamedClasses ?? []) {
+        await this.#moveClass(from, undefined, to, classes, migrateKey);
+      }
+      for (const { from, fromScript, to } of migration.transferredClasses ??
+        []) {
+        await this.#moveClass(from, fromScript, to, classes, migrateKey);
+      }
+      for (const className of migration.deletedClasses ?? []) {
+        await this.#deleteClass(className, classes);
+      }
+      await this.#storage.put<MigrationTagMeta>(TAG_KEY, {
+        value: EMPTY,
+        metadata: { tag: migration.tag },
+      });
+      log?.info(`Applied Durable Object migration "${migration.tag}"`);
+    }
+  }
+
+  async #listClass(
+    className: string,
+    scriptName?: string
+  ): Promise<[objectKey: string, metadata: RegisteredObjectMeta][]> {
+    const { keys } = await this.#storage.list<RegisteredObjectMeta>({
+      prefix: OBJECT_PREFIX,
+    });
+    const objects: [string, RegisteredObjectMeta][] = [];
+    for (const { name, metadata } of keys) {
+      if (
+        metadata?.className === className &&
+        metadata.scriptName === scriptName
+      ) {
+        objects.push([name.substring(OBJECT_PREFIX.length), metadata]);
+      }
+    }
+    return objects;
+  }
+
+  async #moveClass(
+    from: string,
+    fromScript: string | undefined,
+    to: string,
+    classes: DurableObjectMigrationClass[],
+    migrateKey: DurableObjectKeyMigrator
+  ): Promise<void> {
+    // If the new class isn't bound, just record the new class name, leaving
+    // data where it is
+    const target = classes.find(
+      ({ className, scriptName }) =>
+        className === to && scriptName === undefined
+    );
+    const alarms = this.#storageFactory.storage(ALARM_KEY, this.#persist);
+    for (const [fromKey, { name }] of await this.#listClass(from, fromScript)) {
+      const toKey =
+        target === undefined ? fromKey : migrateKey(fromKey, target.name, name);
+      if (toKey !== fromKey) {
+        // Move data to the object's new ID
+        const fromStorage = this.#objectStorage(fromKey);
+        const toStorage = this.#objectStorage(toKey);
+        const { keys } = await fromStorage.list({}, true);
+        const names = keys.map(({ name }) => name);
+        const values = await fromStorage.getMany(names);
+        const data: [string, StoredValueMeta][] = [];
+        values.forEach((value, i) => {
+          if (value !== undefined) data.push([names[i], value]);
+        });
+        await toStorage.putMany(data);
+        await fromStorage.deleteMany(names);
+
+        // ...including any scheduled alarm
+        const alarm = await alarms.get(fromKey);
+        if (alarm !== undefined) {
+          await alarms.put(toKey, alarm);
+          await alarms.delete(fromKey);
+        }
+        await this.#storage.delete(OBJECT_PREFIX + fromKey);
+      }
+      this.#registered.delete(fromKey);
+      this.#registered.set(toKey, name !== undefined);
+      await this.#storage.put<RegisteredObjectMeta>(OBJECT_PREFIX + toKey, {
+        value: EMPTY,
+        metadata: { className: to, name },
+      });
+    }
+  }
+
+  async #deleteClass(
+    className: string,
+    classes: DurableObjectMigrationClass[]
+  ): Promise<void> {
+    const bound = classes.find(
+      (object) =>
+        object.className === className && object.scriptName === undefined
+    );
+    if (bound !== undefined) {
+      throw new DurableObjectError(
+        "ERR_MIGRATION",
+        `Class "${className}" cannot be deleted as it's still bound to Durable Object "${bound.name}"`
+      );
+    }
+    const alarms = this.#storageFactory.storage(ALARM_KEY, this.#persist);
+    for (const [objectKey] of await this.#listClass(className)) {
+      const storage = this.#objectStorage(objectKey);
+      const { keys } = await storage.list({}, true);
+      await storage.deleteMany(keys.map(({ name }) => name));
+      await alarms.delete(objectKey);
+      await this.#storage.delete(OBJECT_PREFIX + objectKey);
+      this.#registered.delete(objectKey);
+    }
+  }
+
+  #objectStorage(objectKey: string): Storage {
+    return this.#storageFactory.storage(objectKey, this.#persist);
+  }
+}
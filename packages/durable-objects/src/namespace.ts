@@ -20,8 +20,20 @@ import {
   getRequestContext,
   usageModelExternalSubrequestLimit,
 } from "@miniflare/shared";
+import {
+  CloseEvent,
+  ErrorEvent,
+  MessageEvent,
+  WebSocket,
+} from "@miniflare/web-sockets";
 import { Response as BaseResponse } from "undici";
+import { DurableObjectAlarmInvocationInfo } from "./alarms";
 import { DurableObjectError } from "./error";
+import {
+  HibernatableWebSockets,
+  WebSocketEvent,
+  WebSocketRequestResponsePair,
+} from "./hibernation";
 import { DurableObjectStorage } from "./storage";
 
 function hexEncode(value: Uint8Array): string {
@@ -58,23 +70,52 @@ export interface DurableObjectConstructor {
 
 export interface DurableObject {
   fetch(request: Request): Awaitable<Response>;
-  alarm?(): Awaitable<void>;
+  alarm?(info: DurableObjectAlarmInvocationInfo): Awaitable<void>;
+  webSocketMessage?(
+    ws: WebSocket,
+    message: string | ArrayBuffer
+  ): Awaitable<void>;
+  webSocketClose?(
+    ws: WebSocket,
+    code: number,
+    reason: string,
+    wasClean: boolean
+  ): Awaitable<void>;
+  webSocketError?(ws: WebSocket, error: unknown): Awaitable<void>;
 }
 
 export const kInstance = Symbol("kInstance");
 /** @internal */
 export const _kRunWithGates = Symbol("kRunWithGates");
 export const kAlarm = Symbol("kAlarm");
+export const kMigrateUniqueId = Symbol("kMigrateUniqueId");
+// Called when an object starts or finishes handling requests/events, used to
+// evict idle objects
+export const kActivityListener = Symbol("kActivityListener");
+export type DurableObjectActivityListener = (active: boolean) => void;
+export const kWebSocketEvent = Symbol("kWebSocketEvent");
 const kFetch = Symbol("kFetch");
 
 export class DurableObjectState {
   #inputGate = new InputGate();
+  readonly #webSockets: HibernatableWebSockets;
+  #pending = 0;
   [kInstance]?: DurableObject;
+  [kActivityListener]?: DurableObjectActivityListener;
 
   constructor(
     readonly id: DurableObjectId,
-    readonly storage: DurableObjectStorage
-  ) {}
+    readonly storage: DurableObjectStorage,
+    webSockets?: HibernatableWebSockets
+  ) {
+    // WebSockets are owned by the plugin if hibernation is supported, so they
+    // can outlive this instance
+    this.#webSockets =
+      webSockets ??
+      new HibernatableWebSockets((ws, event) =>
+        this[kWebSocketEvent](ws, event)
+      );
+  }
 
   waitUntil(_promise: Promise<void>): void {}
 
@@ -84,10 +125,15 @@ export class DurableObjectState {
   }
 
   /** @internal */
-  [_kRunWithGates]<T>(closure: () => Awaitable<T>): Promise<T> {
+  async [_kRunWithGates]<T>(closure: () => Awaitable<T>): Promise<T> {
     // TODO: catch, reset object on error
-    const outputGate = new OutputGate();
-    return outputGate.runWith(() => this.#inputGate.runWith(closure));
+    if (this.#pending++ === 0) this[kActivityListener]?.(true);
+    try {
+      const outputGate = new OutputGate();
+      return await outputGate.runWith(() => this.#inputGate.runWith(closure));
+    } finally {
+      if (--this.#pending === 0) this[kActivityListener]?.(false);
+    }
   }
 
   [kFetch](request: Request): Promise<Response> {
@@ -103,7 +149,53 @@ export class DurableObjectState {
     });
   }
 
-  [kAlarm](): Promise<void> {
+  acceptWebSocket(ws: WebSocket, tags?: string[]): void {
+    this.#webSockets.accept(ws, tags);
+  }
+
+  getWebSockets(tag?: string): WebSocket[] {
+    return this.#webSockets.getWebSockets(tag);
+  }
+
+  getTags(ws: WebSocket): string[] {
+    return this.#webSockets.getTags(ws);
+  }
+
+  setWebSocketAutoResponse(pair?: WebSocketRequestResponsePair): void {
+    this.#webSockets.setAutoResponse(pair);
+  }
+
+  getWebSocketAutoResponse(): WebSocketRequestResponsePair | null {
+    return this.#webSockets.getAutoResponse();
+  }
+
+  getWebSocketAutoResponseTimestamp(ws: WebSocket): Date | null {
+    return this.#webSockets.getAutoResponseTimestamp(ws);
+  }
+
+  [kWebSocketEvent](ws: WebSocket, event: WebSocketEvent): Promise<void> {
+    return this[_kRunWithGates](async () => {
+      const instance = this[kInstance];
+      if (event instanceof MessageEvent) {
+        if (!instance?.webSocketMessage) {
+          throw new DurableObjectError(
+            "ERR_NO_HANDLER",
+            "No webSocketMessage handler defined in Durable Object"
+          );
+        }
+        return instance.webSocketMessage(ws, event.data);
+      } else if (event instanceof CloseEvent) {
+        const { code, reason, wasClean } = event;
+        return instance?.webSocketClose?.(ws, code, reason, wasClean);
+      } else if (event instanceof ErrorEvent) {
+        return instance?.webSocketError?.(ws, event.error);
+      }
+    });
+  }
+
+  [kAlarm](
+    info: DurableObjectAlarmInvocationInfo = { retryCount: 0, isRetry: false }
+  ): Promise<void> {
     return this[_kRunWithGates](async () => {
       // Delete the local alarm
       await this.storage.deleteAlarm();
@@ -115,7 +207,7 @@ export class DurableObjectState {
           "No alarm handler defined in Durable Object"
         );
       }
-      return instance.alarm();
+      return instance.alarm(info);
     });
   }
 }
@@ -274,6 +366,12 @@ export class DurableObjectNamespace {
     return new DurableObjectId(this.#objectName, hexId.toLowerCase());
   }
 
+  [kMigrateUniqueId](id: DurableObjectId): DurableObjectId {
+    // Unique IDs for different objects only differ in their object name hash
+    const hexId = id.toString().substring(0, 48) + this.#objectNameHashHex;
+    return new DurableObjectId(this.#objectName, hexId);
+  }
+
   get(id: DurableObjectId): DurableObjectStub {
     if (
       id[kObjectName] !== this.#objectName ||
@@ -12,8 +12,17 @@ import {
   resolveStoragePersist,
   usageModelExternalSubrequestLimit,
 } from "@miniflare/shared";
-import { AlarmStore } from "./alarms";
+import {
+  AlarmCallback,
+  AlarmStore,
+  DurableObjectAlarmInvocationInfo,
+} from "./alarms";
 import { DurableObjectError } from "./error";
+import {
+  HibernatableWebSockets,
+  WebSocketRequestResponsePair,
+} from "./hibernation";
+import { DurableObjectMigration, DurableObjectRegistry } from "./migrations";
 import {
   DurableObject,
   DurableObjectConstructor,
@@ -21,11 +30,14 @@ import {
   DurableObjectId,
   DurableObjectNamespace,
   DurableObjectState,
+  kActivityListener,
   kAlarm,
   kInstance,
+  kMigrateUniqueId,
   kObjectName,
+  kWebSocketEvent,
 } from "./namespace";
-import { DurableObjectStorage, kAlarmExists } from "./storage";
+import { DurableObjectStorage, kAlarmExists, kSetupSql } from "./storage";
 
 export type DurableObjectsObjectsOptions = Record<
   string,
@@ -36,6 +48,8 @@ export interface DurableObjectsOptions {
   durableObjects?: DurableObjectsObjectsOptions;
   durableObjectsPersist?: boolean | string;
   durableObjectsAlarms?: boolean;
+  durableObjectsEvictionTimeout?: number;
+  durableObjectsMigrations?: DurableObjectMigration[];
 }
 
 interface ProcessedDurableObject {
@@ -44,6 +58,24 @@ interface ProcessedDurableObject {
   scriptName?: string;
 }
 
+// Returns the names of classes created with `new_sqlite_classes`, following
+// renames and deletions in later migrations
+function getSqliteClasses(migrations: DurableObjectMigration[]): Set<string> {
+  const classes = new Set<string>();
+  for (const migration of migrations) {
+    for (const className of migration.newSqliteClasses ?? []) {
+      classes.add(className);
+    }
+    for (const { from, to } of migration.renamedClasses ?? []) {
+      if (classes.delete(from)) classes.add(to);
+    }
+    for (const className of migration.deletedClasses ?? []) {
+      classes.delete(className);
+    }
+  }
+  return classes;
+}
+
 function getObjectKeyFromId(id: DurableObjectId) {
   // Put each object in its own namespace/directory
   return `${id[kObjectName]}:${id.toString()}`;
@@ -111,9 +143,36 @@ export class DurableObjectsPlugin
   })
   durableObjectsAlarms?: boolean;
 
+  @Option({
+    type: OptionType.NUMBER,
+    name: "do-eviction-timeout",
+    description: "Evict Durable Objects idle for seconds",
+    logName: "Durable Object Eviction Timeout",
+    fromWrangler: ({ miniflare }) =>
+      miniflare?.durable_objects_eviction_timeout,
+  })
+  durableObjectsEvictionTimeout?: number;
+
+  @Option({
+    type: OptionType.NONE,
+    fromWrangler: ({ migrations }) =>
+      migrations?.map((migration) => ({
+        tag: migration.tag,
+        newClasses: migration.new_classes,
+        newSqliteClasses: migration.new_sqlite_classes,
+        renamedClasses: migration.renamed_classes,
+        deletedClasses: migration.deleted_classes,
+        transferredClasses: migration.transferred_classes?.map(
+          ({ from, from_script, to }) => ({ from, fromScript: from_script, to })
+        ),
+      })),
+  })
+  durableObjectsMigrations?: DurableObjectMigration[];
+
   readonly #persist?: boolean | string;
 
   readonly #processedObjects: ProcessedDurableObject[];
+  readonly #sqliteClasses: Set<string>;
   readonly #requireFullUrl: boolean;
 
   #contextPromise?: Promise<void>;
@@ -123,9 +182,16 @@ export class DurableObjectsPlugin
 
   readonly #objectStorages = new Map<string, DurableObjectStorage>();
   readonly #objectStates = new Map<string, DurableObjectState>();
+  readonly #evictionTimeouts = new Map<string, NodeJS.Timeout>();
+
+  // WebSockets accepted with `state.acceptWebSocket()` outlive instances, so
+  // these aren't cleared on reload
+  readonly #webSockets = new Map<string, HibernatableWebSockets>();
+
+  #registry?: DurableObjectRegistry;
 
   readonly #alarmStore: AlarmStore;
-  #alarmStoreCallback?: (objectKey: string) => Promise<void>;
+  #alarmStoreCallback?: AlarmCallback;
   #alarmStoreCallbackAttached = false;
 
   constructor(ctx: PluginContext, options?: DurableObjectsOptions) {
@@ -135,7 +201,7 @@ export class DurableObjectsPlugin
       ctx.rootPath,
       this.durableObjectsPersist
     );
-    this.#alarmStore = new AlarmStore();
+    this.#alarmStore = new AlarmStore({ log: ctx.log });
 
     this.#processedObjects = Object.entries(this.durableObjects ?? {}).map(
       ([name, options]) => {
@@ -146,6 +212,7 @@ export class DurableObjectsPlugin
         return { name, className, scriptName };
       }
     );
+    this.#sqliteClasses = getSqliteClasses(this.durableObjectsMigrations ?? []);
     this.#requireFullUrl = ctx.compat.isEnabled(
       "durable_object_fetch_requires_full_url"
     );
@@ -163,6 +230,7 @@ export class DurableObjectsPlugin
     // transactional semantics hold
     let objectStorage = this.#objectStorages.get(key);
     if (objectStorage !== undefined) return objectStorage;
+    this.#registerObject(storage, key, id);
     objectStorage = new DurableObjectStorage(
       storage.storage(key, this.#persist),
       this.#alarmStore.buildBridge(key)
@@ -171,6 +239,52 @@ export class DurableObjectsPlugin
     return objectStorage;
   }
 
+  // Like getStorage(), but also loads the SQL database of SQLite-backed
+  // objects, so `storage.sql` can be used
+  async getStorageWithSql(
+    storage: StorageFactory,
+    id: DurableObjectId
+  ): Promise<DurableObjectStorage> {
+    const objectStorage = this.getStorage(storage, id);
+    const object = this.#processedObjects.find(
+      ({ name }) => name === id[kObjectName]
+    );
+    if (
+      object !== undefined &&
+      object.scriptName === undefined &&
+      this.#sqliteClasses.has(object.className)
+    ) {
+      await objectStorage[kSetupSql]();
+    }
+    return objectStorage;
+  }
+
+  #getRegistry(storage: StorageFactory): DurableObjectRegistry {
+    return (this.#registry ??= new DurableObjectRegistry(
+      storage,
+      this.#persist
+    ));
+  }
+
+  // Record the class of each object with storage, so it can be migrated.
+  // Objects are only tracked if migrations are configured, as they are
+  // required by Cloudflare for deploying Durable Objects anyway.
+  #registerObject(
+    storage: StorageFactory,
+    objectKey: string,
+    id: DurableObjectId
+  ): void {
+    if (this.durableObjectsMigrations === undefined) return;
+    const object = this.#processedObjects.find(
+      ({ name }) => name === id[kObjectName]
+    );
+    if (object === undefined) return;
+    const { className, scriptName } = object;
+    this.#getRegistry(storage)
+      .register(objectKey, { className, scriptName, name: id.name })
+      .catch((e) => this.ctx.log.error(e));
+  }
+
   async getObject(
     storage: StorageFactory,
     id: DurableObjectId
@@ -191,9 +305,16 @@ export class DurableObjectsPlugin
     // `name` should not be passed to the constructed `state`:
     // https://github.com/cloudflare/miniflare/issues/219
     const unnamedId = new DurableObjectId(objectName, id.toString());
-    const objectStorage = this.getStorage(storage, id);
+    const objectStorage = await this.getStorageWithSql(storage, id);
+    // Another call may have constructed the object whilst we were waiting
+    state = this.#objectStates.get(key);
+    if (state !== undefined) return state;
 
-    state = new DurableObjectState(unnamedId, objectStorage);
+    state = new DurableObjectState(
+      unnamedId,
+      objectStorage,
+      this.#getWebSockets(storage, key)
+    );
     this.#objectStates.set(key, state);
 
     // Create and store new instance if none found
@@ -205,9 +326,83 @@ export class DurableObjectsPlugin
     // We need to throw an error on "setAlarm" if the "alarm" method does not exist
     if (!state[kInstance]?.alarm) objectStorage[kAlarmExists] = false;
 
+    // Evict the object if it doesn't handle any requests or events for a while
+    const timeout = this.durableObjectsEvictionTimeout;
+    if (timeout !== undefined) {
+      const currentState = state;
+      currentState[kActivityListener] = (active) => {
+        // Ignore activity from evicted instances
+        if (this.#objectStates.get(key) !== currentState) return;
+        if (active) this.#cancelEviction(key);
+        else this.#scheduleEviction(key, timeout);
+      };
+      this.#scheduleEviction(key, timeout);
+    }
+
     return state;
   }
 
+  #getWebSockets(
+    storage: StorageFactory,
+    objectKey: string
+  ): HibernatableWebSockets {
+    let webSockets = this.#webSockets.get(objectKey);
+    if (webSockets !== undefined) return webSockets;
+    webSockets = new HibernatableWebSockets(async (ws, event) => {
+      try {
+        // Get the current instance, re-instantiating hibernated objects
+        const id = getObjectIdFromKey(objectKey);
+        const state = await this.getObject(storage, id);
+        await new RequestContext({
+          requestDepth: 1,
+          pipelineDepth: 1,
+          durableObject: true,
+          externalSubrequestLimit: usageModelExternalSubrequestLimit(
+            this.ctx.usageModel
+          ),
+        }).runWith(() => state[kWebSocketEvent](ws, event));
+      } catch (e: any) {
+        this.ctx.log.error(e);
+      }
+    });
+    this.#webSockets.set(objectKey, webSockets);
+    return webSockets;
+  }
+
+  #scheduleEviction(objectKey: string, timeout: number): void {
+    this.#cancelEviction(objectKey);
+    const evictionTimeout = setTimeout(
+      () => this.#evict(objectKey),
+      timeout * 1000
+    );
+    evictionTimeout.unref();
+    this.#evictionTimeouts.set(objectKey, evictionTimeout);
+  }
+
+  #cancelEviction(objectKey: string): void {
+    clearTimeout(this.#evictionTimeouts.get(objectKey));
+    this.#evictionTimeouts.delete(objectKey);
+  }
+
+  #evict(objectKey: string): boolean {
+    this.#cancelEviction(objectKey);
+    // Only delete the instance, storage and accepted WebSockets are retained,
+    // and a new instance will be constructed on the next request
+    const evicted = this.#objectStates.delete(objectKey);
+    if (evicted) this.ctx.log.verbose(`Evicted Durable Object ${objectKey}`);
+    return evicted;
+  }
+
+  evictObject(id: DurableObjectId): boolean {
+    return this.#evict(getObjectKeyFromId(id));
+  }
+
+  evictObjects(): void {
+    for (const objectKey of [...this.#objectStates.keys()]) {
+      this.#evict(objectKey);
+    }
+  }
+
   async getInstance(
     storage: StorageFactory,
     id: DurableObjectId
@@ -229,13 +424,33 @@ export class DurableObjectsPlugin
     for (const { name } of this.#processedObjects) {
       bindings[name] = this.getNamespace(storageFactory, name);
     }
+    await this.#applyMigrations(storageFactory);
     await this.#setupAlarms(storageFactory);
     return {
+      globals: { WebSocketRequestResponsePair },
       bindings,
       requiresModuleExports: this.#processedObjects.length > 0,
     };
   }
 
+  async #applyMigrations(storageFactory: StorageFactory): Promise<void> {
+    if (this.durableObjectsMigrations === undefined) return;
+    // Must be applied before alarms are loaded, as these may be moved
+    await this.#getRegistry(storageFactory).migrate(
+      this.durableObjectsMigrations,
+      this.#processedObjects,
+      (objectKey, objectName, name) => {
+        const namespace = this.getNamespace(storageFactory, objectName);
+        const id =
+          name === undefined
+            ? namespace[kMigrateUniqueId](getObjectIdFromKey(objectKey))
+            : namespace.idFromName(name);
+        return getObjectKeyFromId(id);
+      },
+      this.ctx.log
+    );
+  }
+
   async #setupAlarms(storageFactory: StorageFactory): Promise<void> {
     if (this.durableObjectsAlarms === false) return;
     // Load alarms from storage
@@ -248,12 +463,12 @@ export class DurableObjectsPlugin
     // initialised, which is done in `beforeReload()`.
     //
     // https://github.com/cloudflare/miniflare/issues/359
-    this.#alarmStoreCallback = async (objectKey) => {
+    this.#alarmStoreCallback = async (objectKey, info) => {
       // Grab the instance
       const id = getObjectIdFromKey(objectKey);
       const state = await this.getObject(storageFactory, id);
-      // Execute the alarm
-      await this.#executeAlarm(state);
+      // Execute the alarm, throwing if it fails so it can be retried
+      await this.#executeAlarm(state, info);
     };
   }
 
@@ -265,7 +480,10 @@ export class DurableObjectsPlugin
     return this.#alarmStore.flushAlarms(ids?.map(getObjectKeyFromId));
   }
 
-  async #executeAlarm(state: DurableObjectState): Promise<void> {
+  async #executeAlarm(
+    state: DurableObjectState,
+    info: DurableObjectAlarmInvocationInfo
+  ): Promise<void> {
     await new RequestContext({
       requestDepth: 1,
       pipelineDepth: 1,
@@ -273,7 +491,7 @@ export class DurableObjectsPlugin
       externalSubrequestLimit: usageModelExternalSubrequestLimit(
         this.ctx.usageModel
       ),
-    }).runWith(() => state[kAlarm]());
+    }).runWith(() => state[kAlarm](info));
   }
 
   getObjects(
@@ -289,6 +507,10 @@ export class DurableObjectsPlugin
     // Clear instance map, this should cause old instances to be GCed
     this.#objectStorages.clear();
     this.#objectStates.clear();
+    for (const timeout of this.#evictionTimeouts.values()) {
+      clearTimeout(timeout);
+    }
+    this.#evictionTimeouts.clear();
     this.#contextPromise = new Promise(
       (resolve) => (this.#contextResolve = resolve)
     );
@@ -347,6 +569,7 @@ Make sure "${scriptName}" is mounted so Miniflare knows where to find it.`
 
   async dispose(): Promise<void> {
     await this.beforeReload();
+    await this.#registry?.flush();
     // Dispose `#alarmStore` after `beforeReload` as that may attach the alarm
     // callback, and schedule alarms which we'll want to cancel here.
     this.#alarmStore.dispose();
@@ -0,0 +1,200 @@
+import { setImmediate } from "timers/promises";
+import { _isEmptyStatement, _splitSqlQuery } from "@miniflare/d1";
+import {
+  SqliteDB,
+  viewToBuffer,
+  waitUntilOnOutputGate,
+} from "@miniflare/shared";
+
+export type SqlStorageValue = ArrayBuffer | string | number | null;
+export type SqlStorageRow = Record<string, SqlStorageValue>;
+
+// Transactions must be controlled with `transactionSync()`, so statements
+// started/ended outside of it don't interfere with implicit transactions
+const TRANSACTION_STATEMENT_REGEXP =
+  /^(BEGIN|COMMIT|END|ROLLBACK|SAVEPOINT|RELEASE)\b/i;
+
+export const kTransactionSync = Symbol("kTransactionSync");
+
+function normaliseBinding(value: unknown): unknown {
+  if (value instanceof ArrayBuffer) return Buffer.from(value);
+  if (ArrayBuffer.isView(value)) {
+    return Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+  }
+  return value;
+}
+function normaliseValue(value: unknown): SqlStorageValue {
+  // BLOBs are returned as `ArrayBuffer`s
+  return value instanceof Buffer ? viewToBuffer(value) : (value as any);
+}
+
+export class SqlStorageCursor<Row extends SqlStorageRow = SqlStorageRow>
+  implements IterableIterator<Row>
+{
+  readonly #columnNames: string[];
+  readonly #rows: SqlStorageValue[][];
+  readonly #rowsWritten: number;
+  #index = 0;
+
+  constructor(
+    columnNames: string[],
+    rows: SqlStorageValue[][],
+    rowsWritten: number
+  ) {
+    this.#columnNames = columnNames;
+    this.#rows = rows;
+    this.#rowsWritten = rowsWritten;
+  }
+
+  get columnNames(): string[] {
+    return [...this.#columnNames];
+  }
+
+  // Workers counts rows scanned, but we only know about those returned
+  get rowsRead(): number {
+    return this.#rows.length;
+  }
+
+  get rowsWritten(): number {
+    return this.#rowsWritten;
+  }
+
+  #nextRaw(): SqlStorageValue[] | undefined {
+    if (this.#index >= this.#rows.length) return;
+    return this.#rows[this.#index++];
+  }
+
+  next(): IteratorResult<Row> {
+    const row = this.#nextRaw();
+    if (row === undefined) return { done: true, value: undefined };
+    const value: SqlStorageRow = {};
+    this.#columnNames.forEach((name, i) => (value[name] = row[i]));
+    return { done: false, value: value as Row };
+  }
+
+  toArray(): Row[] {
+    return Array.from(this);
+  }
+
+  one(): Row {
+    const rows = this.toArray();
+    if (rows.length === 0) {
+      throw new Error(
+        "Expected exactly one result from SQL query, but got no results."
+      );
+    }
+    if (rows.length > 1) {
+      throw new Error(
+        "Expected exactly one result from SQL query, but got multiple results."
+      );
+    }
+    return rows[0];
+  }
+
+  // Returns an iterator over rows as arrays of values, in column order
+  raw<
+    Values extends SqlStorageValue[] = SqlStorageValue[]
+  >(): IterableIterator<Values> {
+    const nextRaw = () => this.#nextRaw() as Values | undefined;
+    return {
+      next(): IteratorResult<Values> {
+        const row = nextRaw();
+        if (row === undefined) return { done: true, value: undefined };
+        return { done: false, value: row };
+      },
+      [Symbol.iterator]() {
+        return this;
+      },
+    };
+  }
+
+  [Symbol.iterator](): IterableIterator<Row> {
+    return this;
+  }
+}
+
+export class SqlStorage {
+  readonly #db: SqliteDB;
+  readonly #flush?: () => Promise<void>;
+
+  constructor(db: SqliteDB, flush?: () => Promise<void>) {
+    this.#db = db;
+    this.#flush = flush;
+  }
+
+  // Writes made in the same tick are coalesced into a single transaction,
+  // committed before any outgoing messages are sent (output gate)
+  #ensureTransaction(): void {
+    if (this.#db.inTransaction) return;
+    this.#db.exec("BEGIN");
+    const committed = setImmediate().then(() => {
+      if (this.#db.inTransaction) this.#db.exec("COMMIT");
+      return this.#flush?.();
+    });
+    void waitUntilOnOutputGate(committed);
+  }
+
+  #totalChanges(): number {
+    return this.#db.prepare("SELECT total_changes()").pluck().get();
+  }
+
+  exec<Row extends SqlStorageRow = SqlStorageRow>(
+    query: string,
+    ...bindings: unknown[]
+  ): SqlStorageCursor<Row> {
+    if (typeof query !== "string") {
+      throw new TypeError(
+        "Failed to execute 'exec' on 'SqlStorage': parameter 1 is not of type 'string'."
+      );
+    }
+    const statements = _splitSqlQuery(query)
+      .filter((statement) => !_isEmptyStatement(statement))
+      .map((statement) => statement.trim());
+    for (const statement of statements) {
+      if (TRANSACTION_STATEMENT_REGEXP.test(statement)) {
+        throw new Error(
+          "To execute a transaction, please use the state.storage.transaction() or state.storage.transactionSync() APIs instead of the SQL BEGIN TRANSACTION or SAVEPOINT statements."
+        );
+      }
+    }
+    const last = statements.pop();
+    if (last === undefined) return new SqlStorageCursor([], [], 0);
+
+    this.#ensureTransaction();
+    const changesBefore = this.#totalChanges();
+    // Bindings only apply to the last statement, whose results are returned
+    for (const statement of statements) this.#db.prepare(statement).run();
+    const stmt = this.#db.prepare(last);
+    const params = bindings.map(normaliseBinding);
+    let columnNames: string[] = [];
+    let rows: SqlStorageValue[][] = [];
+    if (stmt.reader) {
+      stmt.raw(true);
+      columnNames = stmt.columns().map(({ name }) => name);
+      rows = stmt
+        .all(...params)
+        .map((row: unknown[]) => row.map(normaliseValue));
+    } else {
+      stmt.run(...params);
+    }
+    const rowsWritten = this.#totalChanges() - changesBefore;
+    return new SqlStorageCursor<Row>(columnNames, rows, rowsWritten);
+  }
+
+  get databaseSize(): number {
+    const pageCount = this.#db.pragma("page_count", { simple: true });
+    const pageSize = this.#db.pragma("page_size", { simple: true });
+    return pageCount * pageSize;
+  }
+
+  [kTransactionSync]<T>(closure: () => T): T {
+    if (typeof closure !== "function") {
+      throw new TypeError(
+        "Failed to execute 'transactionSync' on 'DurableObjectStorage': parameter 1 is not of type 'Function'."
+      );
+    }
+    this.#ensureTransaction();
+    // Runs `closure` in a savepoint, rolling back if it throws
+    return this.#db.transaction(closure)();
+  }
+}
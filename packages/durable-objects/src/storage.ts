@@ -19,6 +19,7 @@ import { DurableObjectAlarmBridge } from "./alarms";
 import { DurableObjectError } from "./error";
 import { ReadWriteMutex } from "./rwmutex";
 import { ShadowStorage } from "./shadow";
+import { SqlStorage, kTransactionSync } from "./sql";
 
 const MAX_KEYS = 128;
 const MAX_KEY_SIZE = 2048; /* 2KiB */
@@ -278,6 +279,7 @@ const kRolledback = Symbol("kRolledback");
 const kCommitted = Symbol("kCommitted");
 const kWriteSet = Symbol("kWriteSet");
 export const kAlarmExists = Symbol("kAlarmExists");
+export const kSetupSql = Symbol("kSetupSql");
 
 export class DurableObjectTransaction implements DurableObjectOperator {
   readonly #mutex = new ReadWriteMutex();
@@ -499,6 +501,8 @@ export class DurableObjectStorage implements DurableObjectOperator {
   readonly #alarmBridge?: DurableObjectAlarmBridge;
   // Let's storage know if the parent instance includes an alarm method or not
   [kAlarmExists] = true;
+  #sql?: SqlStorage;
+  #sqlPromise?: Promise<void>;
 
   constructor(inner: Storage, alarmBridge?: DurableObjectAlarmBridge) {
     this.#inner = inner;
@@ -898,4 +902,23 @@ export class DurableObjectStorage implements DurableObjectOperator {
     // https://github.com/cloudflare/workerd/pull/87
     return this.#noPendingFlushesPromise ?? Promise.resolve();
   }
+
+  // Loads the database for `sql`, only called for SQLite-backed objects.
+  // `sql` is synchronous, so this must resolve before the object is used.
+  [kSetupSql](): Promise<void> {
+    return (this.#sqlPromise ??= this.#inner.getSqliteDatabase().then((db) => {
+      this.#sql = new SqlStorage(db, () => this.#inner.flushSqliteDatabase());
+    }));
+  }
+
+  get sql(): SqlStorage {
+    if (this.#sql === undefined) {
+      throw new Error("SQL is not enabled for this Durable Object class.");
+    }
+    return this.#sql;
+  }
+
+  transactionSync<T>(closure: () => T): T {
+    return this.sql[kTransactionSync](closure);
+  }
 }
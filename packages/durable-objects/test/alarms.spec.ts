@@ -1,7 +1,12 @@
 import assert from "assert";
-import { MemoryStorageFactory } from "@miniflare/shared-test";
+import { LogLevel } from "@miniflare/shared";
+import { MemoryStorageFactory, TestLog } from "@miniflare/shared-test";
 import anyTest, { TestInterface } from "ava";
-import { AlarmStore } from "../src/alarms";
+import {
+  ALARM_MAX_RETRIES,
+  AlarmStore,
+  DurableObjectAlarmInvocationInfo,
+} from "../src/alarms";
 
 interface Context {
   alarmStore: AlarmStore;
@@ -116,3 +121,100 @@ test("Alarms: setTimeout of 0 throws", async (t) => {
     await alarmStore.setAlarm("test", 0);
   });
 });
+
+test("Alarms: retries failed alarms with exponential backoff", async (t) => {
+  const log = new TestLog();
+  const alarmStore = new AlarmStore({ log, retryDelay: 100 });
+  t.teardown(() => alarmStore.dispose());
+  await alarmStore.setupStore(new MemoryStorageFactory());
+
+  const infos: DurableObjectAlarmInvocationInfo[] = [];
+  const times: number[] = [];
+  await new Promise<void>((resolve) => {
+    alarmStore.setupAlarms(async (objectKey, info) => {
+      infos.push(info);
+      times.push(Date.now());
+      if (info.retryCount < 2) throw new Error("Failed");
+      resolve();
+    });
+    alarmStore.setAlarm("test", 1);
+  });
+  t.deepEqual(infos, [
+    { retryCount: 0, isRetry: false },
+    { retryCount: 1, isRetry: true },
+    { retryCount: 2, isRetry: true },
+  ]);
+  // Allow some leeway for timer inaccuracy
+  t.true(times[1] - times[0] >= 90);
+  t.true(times[2] - times[1] >= 190);
+  t.deepEqual(log.logsAtLevel(LogLevel.WARN), [
+    'Alarm for Durable Object "test" failed: Failed. Retrying in 100ms...',
+    'Alarm for Durable Object "test" failed: Failed. Retrying in 200ms...',
+  ]);
+});
+test("Alarms: gives up retrying after maximum retries", async (t) => {
+  const log = new TestLog();
+  const alarmStore = new AlarmStore({ log });
+  t.teardown(() => alarmStore.dispose());
+  await alarmStore.setupStore(new MemoryStorageFactory());
+
+  const retryCounts: number[] = [];
+  await alarmStore.setupAlarms(async (objectKey, { retryCount }) => {
+    retryCounts.push(retryCount);
+    throw new Error("Failed");
+  });
+  await alarmStore.setAlarm("test", Date.now() + 60_000);
+  // Each flush should run the alarm once, scheduling a retry for the next
+  for (let i = 0; i < ALARM_MAX_RETRIES; i++) await alarmStore.flushAlarms();
+  t.is(log.logsAtLevel(LogLevel.WARN).length, ALARM_MAX_RETRIES);
+  // Check error logged once retries exhausted (`TestLog` throws errors)
+  const error = await t.throwsAsync(alarmStore.flushAlarms(), {
+    message: "Failed",
+  });
+  t.regex(
+    error?.stack ?? "",
+    /^Alarm for Durable Object "test" failed after 6 retries: Error: Failed/
+  );
+  t.deepEqual(retryCounts, [0, 1, 2, 3, 4, 5, 6]);
+  // Check alarm not retried again
+  await alarmStore.flushAlarms();
+  t.is(retryCounts.length, ALARM_MAX_RETRIES + 1);
+});
+test("Alarms: persists retry state", async (t) => {
+  const factory = new MemoryStorageFactory();
+  const alarmStore1 = new AlarmStore();
+  t.teardown(() => alarmStore1.dispose());
+  await alarmStore1.setupStore(factory);
+  await alarmStore1.setupAlarms(async () => {
+    throw new Error("Failed");
+  });
+  await alarmStore1.setAlarm("test", Date.now() + 60_000);
+  await alarmStore1.flushAlarms();
+
+  // Check new alarm store loads retry count from storage
+  const alarmStore2 = new AlarmStore();
+  t.teardown(() => alarmStore2.dispose());
+  await alarmStore2.setupStore(factory);
+  let info: DurableObjectAlarmInvocationInfo | undefined;
+  await alarmStore2.setupAlarms(async (objectKey, i) => void (info = i));
+  await alarmStore2.flushAlarms();
+  t.deepEqual(info, { retryCount: 1, isRetry: true });
+});
+test("Alarms: alarms set by failed handlers replace retries", async (t) => {
+  const { alarmStore } = t.context;
+  const infos: DurableObjectAlarmInvocationInfo[] = [];
+  await alarmStore.setupAlarms(async (objectKey, info) => {
+    infos.push(info);
+    if (!info.isRetry && infos.length === 1) {
+      await alarmStore.setAlarm(objectKey, Date.now() + 60_000);
+      throw new Error("Failed");
+    }
+  });
+  await alarmStore.setAlarm("test", Date.now() + 60_000);
+  await alarmStore.flushAlarms();
+  await alarmStore.flushAlarms();
+  t.deepEqual(infos, [
+    { retryCount: 0, isRetry: false },
+    { retryCount: 0, isRetry: false },
+  ]);
+});
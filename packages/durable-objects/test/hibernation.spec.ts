@@ -0,0 +1,157 @@
+import {
+  HibernatableWebSockets,
+  WebSocketEvent,
+  WebSocketRequestResponsePair,
+} from "@miniflare/durable-objects";
+import { triggerPromise } from "@miniflare/shared-test";
+import {
+  CloseEvent,
+  MessageEvent,
+  WebSocket,
+  WebSocketPair,
+} from "@miniflare/web-sockets";
+import test from "ava";
+
+function useWebSockets(): [
+  webSockets: HibernatableWebSockets,
+  events: [ws: WebSocket, event: WebSocketEvent][],
+  nextEvent: () => Promise<WebSocketEvent>
+] {
+  const events: [ws: WebSocket, event: WebSocketEvent][] = [];
+  let [trigger, promise] = triggerPromise<WebSocketEvent>();
+  const webSockets = new HibernatableWebSockets(async (ws, event) => {
+    events.push([ws, event]);
+    trigger(event);
+  });
+  const nextEvent = async () => {
+    const event = await promise;
+    [trigger, promise] = triggerPromise<WebSocketEvent>();
+    return event;
+  };
+  return [webSockets, events, nextEvent];
+}
+
+test("WebSocketRequestResponsePair: validates request and response", (t) => {
+  const pair = new WebSocketRequestResponsePair("ping", "pong");
+  t.is(pair.request, "ping");
+  t.is(pair.response, "pong");
+  t.throws(() => new WebSocketRequestResponsePair("ping", 1 as any), {
+    instanceOf: TypeError,
+    message:
+      "Failed to construct 'WebSocketRequestResponsePair': request and response must be strings.",
+  });
+  t.throws(() => new WebSocketRequestResponsePair("a".repeat(2049), "pong"), {
+    instanceOf: TypeError,
+    message:
+      "Auto-response request and response must be at most 2048 characters.",
+  });
+});
+
+test("HibernatableWebSockets: dispatches events to dispatcher", async (t) => {
+  const [webSockets, events, nextEvent] = useWebSockets();
+  const [client, server] = Object.values(new WebSocketPair());
+  server.addEventListener("message", () => t.fail());
+  webSockets.accept(server);
+  client.accept();
+
+  client.send("test");
+  const message = await nextEvent();
+  t.true(message instanceof MessageEvent);
+  t.is((message as MessageEvent).data, "test");
+  t.is(events[0][0], server);
+
+  client.close(1000, "Normal Closure");
+  const close = await nextEvent();
+  t.true(close instanceof CloseEvent);
+  t.is((close as CloseEvent).code, 1000);
+  t.is((close as CloseEvent).reason, "Normal Closure");
+});
+test("HibernatableWebSockets: gets WebSockets by tag", async (t) => {
+  const [webSockets, , nextEvent] = useWebSockets();
+  const [client1, server1] = Object.values(new WebSocketPair());
+  const [, server2] = Object.values(new WebSocketPair());
+  webSockets.accept(server1, ["a", "b", "a"]);
+  webSockets.accept(server2, ["b"]);
+
+  t.is(webSockets.size, 2);
+  t.deepEqual(webSockets.getWebSockets(), [server1, server2]);
+  t.deepEqual(webSockets.getWebSockets("a"), [server1]);
+  t.deepEqual(webSockets.getWebSockets("b"), [server1, server2]);
+  t.deepEqual(webSockets.getWebSockets("c"), []);
+  t.deepEqual(webSockets.getTags(server1), ["a", "b"]);
+  t.deepEqual(webSockets.getTags(server2), ["b"]);
+
+  // Check closed WebSockets removed
+  client1.accept();
+  client1.close();
+  await nextEvent();
+  server1.close();
+  t.deepEqual(webSockets.getWebSockets("b"), [server2]);
+  t.is(webSockets.size, 1);
+  t.throws(() => webSockets.getTags(server1), {
+    instanceOf: TypeError,
+    message:
+      "getTags() can only be called on WebSockets accepted with acceptWebSocket().",
+  });
+});
+test("HibernatableWebSockets: validates WebSockets and tags", (t) => {
+  const [webSockets] = useWebSockets();
+  const [, server] = Object.values(new WebSocketPair());
+  t.throws(() => webSockets.accept({} as any), {
+    instanceOf: TypeError,
+    message:
+      "Failed to execute 'acceptWebSocket' on 'DurableObjectState': parameter 1 is not of type 'WebSocket'.",
+  });
+  t.throws(() => webSockets.accept(server, new Array(11).fill("tag")), {
+    instanceOf: TypeError,
+    message: "A WebSocket can only be associated with 10 tags.",
+  });
+  t.throws(() => webSockets.accept(server, ["a".repeat(257)]), {
+    instanceOf: TypeError,
+    message: "A WebSocket tag must be at most 256 characters.",
+  });
+  t.throws(() => webSockets.accept(server, [1 as any]), {
+    instanceOf: TypeError,
+    message: "WebSocket tags must be strings.",
+  });
+  t.is(webSockets.size, 0);
+
+  // Check can't accept WebSockets already accepted with accept()
+  server.accept();
+  t.throws(() => webSockets.accept(server), {
+    instanceOf: TypeError,
+    message:
+      "Can't accept WebSocket in a Durable Object that was already accepted with accept().",
+  });
+});
+test("HibernatableWebSockets: responds to auto-response requests", async (t) => {
+  const [webSockets, events, nextEvent] = useWebSockets();
+  const [client, server] = Object.values(new WebSocketPair());
+  t.is(webSockets.getAutoResponse(), null);
+  const pair = new WebSocketRequestResponsePair("ping", "pong");
+  webSockets.setAutoResponse(pair);
+  t.is(webSockets.getAutoResponse(), pair);
+  webSockets.accept(server);
+  t.is(webSockets.getAutoResponseTimestamp(server), null);
+
+  const [responseTrigger, responsePromise] = triggerPromise<MessageEvent>();
+  client.addEventListener("message", responseTrigger);
+  client.accept();
+  const before = Date.now();
+  client.send("ping");
+  t.is((await responsePromise).data, "pong");
+  const timestamp = webSockets.getAutoResponseTimestamp(server);
+  t.true(timestamp instanceof Date);
+  t.true((timestamp?.getTime() ?? 0) >= before);
+  // Check other messages dispatched, but auto-response requests weren't
+  client.send("test");
+  await nextEvent();
+  t.is(events.length, 1);
+  t.is((events[0][1] as MessageEvent).data, "test");
+
+  // Check auto-response can be removed
+  webSockets.setAutoResponse();
+  t.is(webSockets.getAutoResponse(), null);
+  client.send("ping");
+  t.is(((await nextEvent()) as MessageEvent).data, "ping");
+});
@@ -0,0 +1,288 @@
+import assert from "assert";
+import {
+  DurableObjectError,
+  DurableObjectId,
+  DurableObjectMigration,
+  DurableObjectsObjectsOptions,
+  DurableObjectsPlugin,
+} from "@miniflare/durable-objects";
+import { QueueBroker } from "@miniflare/queues";
+import {
+  Compatibility,
+  LogLevel,
+  PluginContext,
+  QueueEventDispatcher,
+} from "@miniflare/shared";
+import {
+  MemoryStorageFactory,
+  TestLog,
+  parsePluginWranglerConfig,
+} from "@miniflare/shared-test";
+import test from "ava";
+
+const queueEventDispatcher: QueueEventDispatcher = async (_batch) => {};
+function useContext(log = new TestLog()): PluginContext {
+  return {
+    log,
+    compat: new Compatibility(),
+    rootPath: process.cwd(),
+    queueBroker: new QueueBroker(),
+    queueEventDispatcher,
+  };
+}
+
+// Sets up a plugin with the specified objects, then calls `closure` with it
+async function withPlugin(
+  factory: MemoryStorageFactory,
+  durableObjects: DurableObjectsObjectsOptions,
+  durableObjectsMigrations?: DurableObjectMigration[],
+  closure?: (plugin: DurableObjectsPlugin) => Promise<void>,
+  log = new TestLog()
+): Promise<void> {
+  const plugin = new DurableObjectsPlugin(useContext(log), {
+    durableObjects,
+    durableObjectsMigrations,
+  });
+  try {
+    await plugin.setup(factory);
+    await plugin.beforeReload();
+    await closure?.(plugin);
+  } finally {
+    await plugin.dispose();
+  }
+}
+
+// Returns the unique ID `id` would have for the object `objectName`
+function migrateUniqueId(
+  plugin: DurableObjectsPlugin,
+  factory: MemoryStorageFactory,
+  id: DurableObjectId,
+  objectName: string
+): DurableObjectId {
+  const namespace = plugin.getNamespace(factory, objectName);
+  const suffix = namespace.newUniqueId().toString().substring(48);
+  return namespace.idFromString(id.toString().substring(0, 48) + suffix);
+}
+
+test("DurableObjectsPlugin: parses migrations from wrangler config", (t) => {
+  const options = parsePluginWranglerConfig(DurableObjectsPlugin, {
+    migrations: [
+      { tag: "v1", new_classes: ["A", "B"], new_sqlite_classes: ["F"] },
+      {
+        tag: "v2",
+        renamed_classes: [{ from: "A", to: "C" }],
+        deleted_classes: ["B"],
+        transferred_classes: [{ from: "D", from_script: "other", to: "E" }],
+      },
+    ],
+  });
+  t.deepEqual(options.durableObjectsMigrations, [
+    {
+      tag: "v1",
+      newClasses: ["A", "B"],
+      newSqliteClasses: ["F"],
+      renamedClasses: undefined,
+      deletedClasses: undefined,
+      transferredClasses: undefined,
+    },
+    {
+      tag: "v2",
+      newClasses: undefined,
+      newSqliteClasses: undefined,
+      renamedClasses: [{ from: "A", to: "C" }],
+      deletedClasses: ["B"],
+      transferredClasses: [{ from: "D", fromScript: "other", to: "E" }],
+    },
+  ]);
+});
+
+test("DurableObjectsPlugin: migrations: renames classes", async (t) => {
+  const factory = new MemoryStorageFactory();
+  let namedId: DurableObjectId | undefined;
+  let uniqueId: DurableObjectId | undefined;
+  const newMigration = { tag: "v1", newClasses: ["OldObject"] };
+  await withPlugin(
+    factory,
+    { OLD: "OldObject" },
+    [newMigration],
+    async (plugin) => {
+      const ns = plugin.getNamespace(factory, "OLD");
+      namedId = ns.idFromName("name");
+      uniqueId = ns.newUniqueId();
+      const namedStorage = plugin.getStorage(factory, namedId);
+      await namedStorage.put({ a: 1, b: 2 });
+      await namedStorage.setAlarm(Date.now() + 60_000);
+      await plugin.getStorage(factory, uniqueId).put("c", 3);
+    }
+  );
+
+  const log = new TestLog();
+  const migrations: DurableObjectMigration[] = [
+    newMigration,
+    { tag: "v2", renamedClasses: [{ from: "OldObject", to: "NewObject" }] },
+  ];
+  await withPlugin(
+    factory,
+    { NEW: "NewObject" },
+    migrations,
+    async (plugin) => {
+      // Check named objects have the same name in the new namespace
+      const ns = plugin.getNamespace(factory, "NEW");
+      const newNamedStorage = plugin.getStorage(factory, ns.idFromName("name"));
+      t.deepEqual(
+        await newNamedStorage.get(["a", "b"]),
+        new Map([
+          ["a", 1],
+          ["b", 2],
+        ])
+      );
+      t.not(await newNamedStorage.getAlarm(), null);
+      // Check unique objects have the same ID, apart from the object name hash
+      assert(uniqueId);
+      const newUniqueId = migrateUniqueId(plugin, factory, uniqueId, "NEW");
+      t.is(await plugin.getStorage(factory, newUniqueId).get("c"), 3);
+      // Check data removed from old objects
+      assert(namedId);
+      const oldStorage = factory.storage(`OLD:${namedId}`);
+      t.deepEqual((await oldStorage.list()).keys, []);
+    },
+    log
+  );
+  t.deepEqual(log.logsAtLevel(LogLevel.INFO), [
+    'Applied Durable Object migration "v2"',
+  ]);
+
+  // Check migrations only applied once
+  log.logs = [];
+  await withPlugin(factory, { NEW: "NewObject" }, migrations, undefined, log);
+  t.deepEqual(log.logsAtLevel(LogLevel.INFO), []);
+});
+test("DurableObjectsPlugin: migrations: renames classes bound to same object", async (t) => {
+  const factory = new MemoryStorageFactory();
+  const migrations = [
+    { tag: "v1", renamedClasses: [{ from: "OldObject", to: "NewObject" }] },
+    { tag: "v2", deletedClasses: ["OldObject"] },
+  ];
+  let id: DurableObjectId | undefined;
+  await withPlugin(factory, { OBJECT: "OldObject" }, [], async (plugin) => {
+    id = plugin.getNamespace(factory, "OBJECT").newUniqueId();
+    await plugin.getStorage(factory, id).put("key", "value");
+  });
+  // Check data retained, and now belongs to the new class, so deleting the old
+  // class doesn't delete it
+  await withPlugin(factory, { OBJECT: "NewObject" }, migrations, async () => {
+    assert(id);
+    t.is(await factory.storage(`OBJECT:${id}`).has("key"), true);
+  });
+});
+test("DurableObjectsPlugin: migrations: transfers classes from other scripts", async (t) => {
+  const factory = new MemoryStorageFactory();
+  const objects = { OBJECT: { className: "Object", scriptName: "other" } };
+  let id: DurableObjectId | undefined;
+  await withPlugin(factory, objects, [], async (plugin) => {
+    id = plugin.getNamespace(factory, "OBJECT").idFromName("name");
+    await plugin.getStorage(factory, id).put("key", "value");
+  });
+
+  const migrations = [
+    {
+      tag: "v1",
+      transferredClasses: [
+        { from: "Object", fromScript: "other", to: "TransferredObject" },
+      ],
+    },
+  ];
+  await withPlugin(
+    factory,
+    { TRANSFERRED: "TransferredObject" },
+    migrations,
+    async (plugin) => {
+      const ns = plugin.getNamespace(factory, "TRANSFERRED");
+      const storage = plugin.getStorage(factory, ns.idFromName("name"));
+      t.is(await storage.get("key"), "value");
+    }
+  );
+});
+test("DurableObjectsPlugin: migrations: deletes classes", async (t) => {
+  const factory = new MemoryStorageFactory();
+  let deletedId: DurableObjectId | undefined;
+  let keptId: DurableObjectId | undefined;
+  const newMigration = {
+    tag: "v1",
+    newClasses: ["DeletedObject", "KeptObject"],
+  };
+  await withPlugin(
+    factory,
+    { DELETED: "DeletedObject", KEPT: "KeptObject" },
+    [newMigration],
+    async (plugin) => {
+      deletedId = plugin.getNamespace(factory, "DELETED").newUniqueId();
+      const deletedStorage = plugin.getStorage(factory, deletedId);
+      await deletedStorage.put("key", "value");
+      await deletedStorage.setAlarm(Date.now() + 60_000);
+      keptId = plugin.getNamespace(factory, "KEPT").newUniqueId();
+      await plugin.getStorage(factory, keptId).put("key", "value");
+    }
+  );
+
+  // Check can't delete classes that are still bound
+  const migrations = [
+    newMigration,
+    { tag: "v2", deletedClasses: ["DeletedObject"] },
+  ];
+  await t.throwsAsync(
+    withPlugin(
+      factory,
+      { DELETED: "DeletedObject", KEPT: "KeptObject" },
+      migrations
+    ),
+    {
+      instanceOf: DurableObjectError,
+      code: "ERR_MIGRATION",
+      message:
+        'Class "DeletedObject" cannot be deleted as it\'s still bound to Durable Object "DELETED"',
+    }
+  );
+
+  await withPlugin(factory, { KEPT: "KeptObject" }, migrations);
+  assert(deletedId && keptId);
+  const deletedStorage = factory.storage(`DELETED:${deletedId}`);
+  t.deepEqual((await deletedStorage.list()).keys, []);
+  const alarms = factory.storage("__MINIFLARE_ALARMS__");
+  t.false(await alarms.has(`DELETED:${deletedId}`));
+  t.true(await factory.storage(`KEPT:${keptId}`).has("key"));
+});
+test("DurableObjectsPlugin: migrations: throws if applied tag removed", async (t) => {
+  const factory = new MemoryStorageFactory();
+  await withPlugin(factory, {}, [{ tag: "v1" }, { tag: "v2" }]);
+  await t.throwsAsync(withPlugin(factory, {}, [{ tag: "v1" }]), {
+    instanceOf: DurableObjectError,
+    code: "ERR_MIGRATION",
+    message:
+      'Durable Object migration tag "v2" was previously applied, but is not in the list of migrations',
+  });
+});
+test("DurableObjectsPlugin: migrations: enables SQL for SQLite classes", async (t) => {
+  const factory = new MemoryStorageFactory();
+  const migrations = [
+    { tag: "v1", newClasses: ["KvObject"], newSqliteClasses: ["SqlObject"] },
+    { tag: "v2", renamedClasses: [{ from: "SqlObject", to: "NewSqlObject" }] },
+  ];
+  await withPlugin(
+    factory,
+    { KV: "KvObject", SQL: "NewSqlObject" },
+    migrations,
+    async (plugin) => {
+      const sqlId = plugin.getNamespace(factory, "SQL").newUniqueId();
+      const sqlStorage = await plugin.getStorageWithSql(factory, sqlId);
+      t.deepEqual(sqlStorage.sql.exec("SELECT 1 AS a").one(), { a: 1 });
+
+      const kvId = plugin.getNamespace(factory, "KV").newUniqueId();
+      const kvStorage = await plugin.getStorageWithSql(factory, kvId);
+      t.throws(() => kvStorage.sql, {
+        instanceOf: Error,
+        message: "SQL is not enabled for this Durable Object class.",
+      });
+    }
+  );
+});
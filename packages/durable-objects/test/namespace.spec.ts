@@ -219,8 +219,14 @@ test("DurableObjectState: hides implementation details", async (t) => {
   const [ns, plugin, factory] = await getTestObjectNamespace();
   const state = await plugin.getObject(factory, ns.newUniqueId());
   t.deepEqual(getObjectProperties(state), [
+    "acceptWebSocket",
     "blockConcurrencyWhile",
+    "getTags",
+    "getWebSocketAutoResponse",
+    "getWebSocketAutoResponseTimestamp",
+    "getWebSockets",
     "id",
+    "setWebSocketAutoResponse",
     "storage",
     "waitUntil",
   ]);
@@ -4,11 +4,13 @@ import { setImmediate, setTimeout } from "timers/promises";
 import { Response } from "@miniflare/core";
 import {
   DurableObject,
+  DurableObjectAlarmInvocationInfo,
   DurableObjectError,
   DurableObjectId,
   DurableObjectNamespace,
   DurableObjectState,
   DurableObjectsPlugin,
+  WebSocketRequestResponsePair,
 } from "@miniflare/durable-objects";
 import { QueueBroker } from "@miniflare/queues";
 import {
@@ -28,6 +30,7 @@ import {
   triggerPromise,
   useTmp,
 } from "@miniflare/shared-test";
+import { WebSocket, WebSocketPair } from "@miniflare/web-sockets";
 import test from "ava";
 import { TestObject, testId } from "./object";
 
@@ -52,6 +55,8 @@ test("DurableObjectsPlugin: parses options from argv", (t) => {
     "--do-persist",
     "path",
     "--no-do-alarms",
+    "--do-eviction-timeout",
+    "10",
   ]);
   t.deepEqual(options, {
     durableObjects: {
@@ -60,6 +65,7 @@ test("DurableObjectsPlugin: parses options from argv", (t) => {
     },
     durableObjectsPersist: "path",
     durableObjectsAlarms: false,
+    durableObjectsEvictionTimeout: 10,
   });
   options = parsePluginArgv(DurableObjectsPlugin, [
     "-o",
@@ -87,6 +93,7 @@ test("DurableObjectsPlugin: parses options from wrangler config", (t) => {
     miniflare: {
       durable_objects_persist: "path",
       durable_objects_alarms: false,
+      durable_objects_eviction_timeout: 10,
     },
   });
   t.deepEqual(options, {
@@ -96,6 +103,8 @@ test("DurableObjectsPlugin: parses options from wrangler config", (t) => {
     },
     durableObjectsPersist: "path",
     durableObjectsAlarms: false,
+    durableObjectsEvictionTimeout: 10,
+    durableObjectsMigrations: undefined,
   });
 });
 test("DurableObjectsPlugin: logs options", (t) => {
@@ -103,11 +112,13 @@ test("DurableObjectsPlugin: logs options", (t) => {
     durableObjects: { OBJECT1: "Object1", OBJECT2: "Object2" },
     durableObjectsPersist: true,
     durableObjectsAlarms: true,
+    durableObjectsEvictionTimeout: 10,
   });
   t.deepEqual(logs, [
     "Durable Objects: OBJECT1, OBJECT2",
     "Durable Objects Persistence: true",
     "Durable Object Alarms: true",
+    "Durable Object Eviction Timeout: 10",
   ]);
 });
 
@@ -346,6 +357,129 @@ test("DurableObjectsPlugin: beforeReload: deletes all instances", async (t) => {
   t.not(await res1.text(), await res2.text());
 });
 
+test("DurableObjectsPlugin: dispatches WebSocket events to re-instantiated objects", async (t) => {
+  let instances = 0;
+  let [messageTrigger, messagePromise] = triggerPromise<[number, string]>();
+  class TestObject {
+    readonly instance = instances++;
+    webSocketMessage(ws: WebSocket, message: string | ArrayBuffer) {
+      messageTrigger([this.instance, message as string]);
+    }
+  }
+
+  const factory = new MemoryStorageFactory();
+  const plugin = new DurableObjectsPlugin(ctx, {
+    durableObjects: { TEST: "TestObject" },
+  });
+  const result = await plugin.setup(factory);
+  t.is(
+    result.globals?.WebSocketRequestResponsePair,
+    WebSocketRequestResponsePair
+  );
+  await plugin.beforeReload();
+  plugin.reload({}, { TestObject }, new Map());
+
+  const [client, server] = Object.values(new WebSocketPair());
+  const state = await plugin.getObject(factory, testId);
+  state.acceptWebSocket(server, ["tag"]);
+  client.accept();
+  client.send("1");
+  t.deepEqual(await messagePromise, [0, "1"]);
+
+  // Check WebSockets survive instances being deleted, and new instance created
+  // for next message
+  [messageTrigger, messagePromise] = triggerPromise<[number, string]>();
+  await plugin.beforeReload();
+  plugin.reload({}, { TestObject }, new Map());
+  client.send("2");
+  t.deepEqual(await messagePromise, [1, "2"]);
+  const newState = await plugin.getObject(factory, testId);
+  t.deepEqual(newState.getWebSockets("tag"), [server]);
+  t.is(instances, 2);
+});
+
+test("DurableObjectsPlugin: evicts idle objects", async (t) => {
+  const factory = new MemoryStorageFactory();
+  const plugin = new DurableObjectsPlugin(ctx, {
+    durableObjects: { TEST: "TestObject" },
+    durableObjectsEvictionTimeout: 0.1,
+  });
+  await plugin.beforeReload();
+  plugin.reload({}, { TestObject }, new Map());
+  const stub = plugin.getNamespace(factory, "TEST").get(testId);
+  const res1 = await stub.fetch("http://localhost:8787/instance");
+  const instance1 = await res1.text();
+  await stub.fetch("http://localhost:8787/");
+  const res2 = await stub.fetch("http://localhost:8787/instance");
+  t.is(await res2.text(), instance1);
+
+  // Check new instance created once idle, but storage retained
+  await setTimeout(200);
+  const res3 = await stub.fetch("http://localhost:8787/instance");
+  t.not(await res3.text(), instance1);
+  const res4 = await stub.fetch("http://localhost:8787/");
+  t.is(await res4.text(), `${testId}:request2:GET:http://localhost:8787/`);
+});
+test("DurableObjectsPlugin: doesn't evict objects handling requests", async (t) => {
+  let instances = 0;
+  class TestObject implements DurableObject {
+    readonly instance = instances++;
+    async fetch() {
+      await setTimeout(200);
+      return new Response(String(this.instance));
+    }
+  }
+  const factory = new MemoryStorageFactory();
+  const plugin = new DurableObjectsPlugin(ctx, {
+    durableObjects: { TEST: "TestObject" },
+    durableObjectsEvictionTimeout: 0.1,
+  });
+  await plugin.beforeReload();
+  plugin.reload({}, { TestObject }, new Map());
+  const stub = plugin.getNamespace(factory, "TEST").get(testId);
+  const res1 = await stub.fetch("http://localhost:8787/");
+  const res2 = await stub.fetch("http://localhost:8787/");
+  t.is(await res1.text(), "0");
+  t.is(await res2.text(), "0");
+  t.is(instances, 1);
+});
+test("DurableObjectsPlugin: evictObject: evicts specific objects", async (t) => {
+  const factory = new MemoryStorageFactory();
+  const plugin = new DurableObjectsPlugin(ctx, {
+    durableObjects: { TEST: "TestObject" },
+  });
+  await plugin.beforeReload();
+  plugin.reload({}, { TestObject }, new Map());
+  const ns = plugin.getNamespace(factory, "TEST");
+  const otherId = ns.newUniqueId();
+  const instance1 = await plugin.getInstance(factory, testId);
+  const otherInstance = await plugin.getInstance(factory, otherId);
+  await ns.get(testId).fetch("http://localhost:8787/");
+
+  t.true(plugin.evictObject(testId));
+  t.false(plugin.evictObject(testId));
+  t.not(await plugin.getInstance(factory, testId), instance1);
+  t.is(await plugin.getInstance(factory, otherId), otherInstance);
+  // Check storage retained
+  const storage = plugin.getStorage(factory, testId);
+  t.is(await storage.get("count"), 1);
+});
+test("DurableObjectsPlugin: evictObjects: evicts all objects", async (t) => {
+  const factory = new MemoryStorageFactory();
+  const plugin = new DurableObjectsPlugin(ctx, {
+    durableObjects: { TEST: "TestObject" },
+  });
+  await plugin.beforeReload();
+  plugin.reload({}, { TestObject }, new Map());
+  const otherId = plugin.getNamespace(factory, "TEST").newUniqueId();
+  const instance1 = await plugin.getInstance(factory, testId);
+  const otherInstance1 = await plugin.getInstance(factory, otherId);
+  plugin.evictObjects();
+  t.deepEqual(plugin.getObjects(factory, "TEST"), []);
+  t.not(await plugin.getInstance(factory, testId), instance1);
+  t.not(await plugin.getInstance(factory, otherId), otherInstance1);
+});
+
 test("DurableObjectsPlugin: reload: throws if object constructor cannot be found in exports", (t) => {
   const plugin = new DurableObjectsPlugin(ctx, {
     durableObjects: { TEST: "TestObject" },
@@ -482,6 +616,49 @@ test("DurableObjectsPlugin: flush scheduled alarms", async (t) => {
 
   await plugin.dispose();
 });
+test("DurableObjectsPlugin: retries failed alarms", async (t) => {
+  class TestObject implements DurableObject {
+    constructor(private readonly state: DurableObjectState) {}
+
+    async fetch() {
+      await this.state.storage.setAlarm(Date.now() + 60 * 1000);
+      return new Response("ok");
+    }
+
+    async alarm(info: DurableObjectAlarmInvocationInfo) {
+      const infos = (await this.state.storage.get<unknown[]>("infos")) ?? [];
+      await this.state.storage.put("infos", [...infos, info]);
+      if (!info.isRetry) throw new Error("Failed");
+    }
+  }
+
+  const factory = new MemoryStorageFactory();
+  const plugin = new DurableObjectsPlugin(ctx, {
+    durableObjects: { TEST: "TestObject" },
+  });
+  await plugin.setup(factory);
+  await plugin.beforeReload();
+  plugin.reload({}, { TestObject }, new Map());
+
+  const ns = plugin.getNamespace(factory, "TEST");
+  const res = await ns.get(testId).fetch("/");
+  t.is(await res.text(), "ok");
+
+  // Check failed alarm retried on next flush
+  await plugin.flushAlarms(factory);
+  const storage = plugin.getStorage(factory, testId);
+  t.deepEqual(await storage.get("infos"), [{ retryCount: 0, isRetry: false }]);
+  await plugin.flushAlarms(factory);
+  t.deepEqual(await storage.get("infos"), [
+    { retryCount: 0, isRetry: false },
+    { retryCount: 1, isRetry: true },
+  ]);
+  // Check successful retry isn't retried again
+  await plugin.flushAlarms(factory);
+  t.is((await storage.get<unknown[]>("infos"))?.length, 2);
+
+  await plugin.dispose();
+});
 test("DurableObjectsPlugin: flush specific scheduled alarms", async (t) => {
   class TestObject implements DurableObject {
     constructor(private readonly state: DurableObjectState) {}
@@ -0,0 +1,164 @@
+import {
+  DurableObjectStorage,
+  SqlStorage,
+  kSetupSql,
+} from "@miniflare/durable-objects";
+import { OutputGate } from "@miniflare/shared";
+import { utf8Decode, utf8Encode } from "@miniflare/shared-test";
+import { MemoryStorage } from "@miniflare/storage-memory";
+import test from "ava";
+
+async function useStorage(): Promise<
+  [storage: DurableObjectStorage, sql: SqlStorage, inner: MemoryStorage]
+> {
+  const inner = new MemoryStorage();
+  const storage = new DurableObjectStorage(inner);
+  await storage[kSetupSql]();
+  return [storage, storage.sql, inner];
+}
+
+test("DurableObjectStorage: sql: throws if not enabled", (t) => {
+  const storage = new DurableObjectStorage(new MemoryStorage());
+  t.throws(() => storage.sql, {
+    instanceOf: Error,
+    message: "SQL is not enabled for this Durable Object class.",
+  });
+  t.throws(() => storage.transactionSync(() => {}), {
+    instanceOf: Error,
+    message: "SQL is not enabled for this Durable Object class.",
+  });
+});
+
+test("SqlStorage: exec: executes queries with bindings", async (t) => {
+  const [, sql] = await useStorage();
+  sql.exec("CREATE TABLE entries (key TEXT PRIMARY KEY, value INTEGER)");
+  const insert = sql.exec(
+    "INSERT INTO entries VALUES (?, ?), (?, ?)",
+    "a",
+    1,
+    "b",
+    2
+  );
+  t.deepEqual(insert.columnNames, []);
+  t.deepEqual(insert.toArray(), []);
+  t.is(insert.rowsWritten, 2);
+
+  const select = sql.exec("SELECT * FROM entries WHERE value > ?", 0);
+  t.deepEqual(select.columnNames, ["key", "value"]);
+  t.deepEqual(select.toArray(), [
+    { key: "a", value: 1 },
+    { key: "b", value: 2 },
+  ]);
+  t.is(select.rowsRead, 2);
+  t.is(select.rowsWritten, 0);
+});
+test("SqlStorage: exec: executes multiple statements", async (t) => {
+  const [, sql] = await useStorage();
+  const cursor = sql.exec(
+    `
+    CREATE TABLE entries (key TEXT PRIMARY KEY, value INTEGER);
+    -- comment
+    INSERT INTO entries VALUES ('a', 1);
+    SELECT value FROM entries WHERE key = ?;
+  `,
+    "a"
+  );
+  // Only returns results of the last statement
+  t.deepEqual(cursor.toArray(), [{ value: 1 }]);
+  t.is(cursor.rowsWritten, 1);
+  t.deepEqual(sql.exec("-- comment").toArray(), []);
+});
+test("SqlStorage: exec: reads and writes BLOBs", async (t) => {
+  const [, sql] = await useStorage();
+  sql.exec("CREATE TABLE blobs (value BLOB)");
+  sql.exec("INSERT INTO blobs VALUES (?)", utf8Encode("view"));
+  sql.exec("INSERT INTO blobs VALUES (?)", utf8Encode("buffer").buffer);
+  const values = sql
+    .exec("SELECT value FROM blobs")
+    .toArray()
+    .map(({ value }) => {
+      t.true(value instanceof ArrayBuffer);
+      return utf8Decode(new Uint8Array(value as ArrayBuffer));
+    });
+  t.deepEqual(values, ["view", "buffer"]);
+});
+test("SqlStorage: exec: throws on transaction statements", async (t) => {
+  const [, sql] = await useStorage();
+  for (const query of [
+    "BEGIN",
+    "COMMIT",
+    "SAVEPOINT a",
+    "SELECT 1; ROLLBACK",
+  ]) {
+    t.throws(() => sql.exec(query), {
+      instanceOf: Error,
+      message:
+        "To execute a transaction, please use the state.storage.transaction() or state.storage.transactionSync() APIs instead of the SQL BEGIN TRANSACTION or SAVEPOINT statements.",
+    });
+  }
+});
+test("SqlStorage: exec: commits writes before output gate opens", async (t) => {
+  const [, sql, inner] = await useStorage();
+  const db = await inner.getSqliteDatabase();
+  await new OutputGate().runWith(() => {
+    sql.exec("CREATE TABLE entries (key TEXT)");
+    sql.exec("INSERT INTO entries VALUES ('a')");
+    // Check writes coalesced into a single implicit transaction
+    t.true(db.inTransaction);
+  });
+  t.false(db.inTransaction);
+  t.deepEqual(sql.exec("SELECT * FROM entries").toArray(), [{ key: "a" }]);
+});
+
+test("SqlStorageCursor: iterates over results", async (t) => {
+  const [, sql] = await useStorage();
+  const query = "SELECT 1 AS a, 'one' AS b UNION ALL SELECT 2, 'two'";
+  const cursor = sql.exec(query);
+  t.deepEqual(cursor.next(), { done: false, value: { a: 1, b: "one" } });
+  t.deepEqual(Array.from(cursor), [{ a: 2, b: "two" }]);
+  t.deepEqual(cursor.next(), { done: true, value: undefined });
+
+  t.deepEqual(Array.from(sql.exec(query).raw()), [
+    [1, "one"],
+    [2, "two"],
+  ]);
+});
+test("SqlStorageCursor: one: returns exactly one result", async (t) => {
+  const [, sql] = await useStorage();
+  t.deepEqual(sql.exec("SELECT 1 AS a").one(), { a: 1 });
+  t.throws(() => sql.exec("SELECT 1 WHERE 0").one(), {
+    instanceOf: Error,
+    message: "Expected exactly one result from SQL query, but got no results.",
+  });
+  t.throws(() => sql.exec("SELECT 1 UNION ALL SELECT 2").one(), {
+    instanceOf: Error,
+    message:
+      "Expected exactly one result from SQL query, but got multiple results.",
+  });
+});
+
+test("SqlStorage: databaseSize: returns size of database", async (t) => {
+  const [, sql] = await useStorage();
+  const size = sql.databaseSize;
+  sql.exec("CREATE TABLE entries (key TEXT)");
+  t.true(sql.databaseSize > size);
+});
+
+test("DurableObjectStorage: transactionSync: rolls back on error", async (t) => {
+  const [storage, sql] = await useStorage();
+  sql.exec("CREATE TABLE entries (key TEXT)");
+  const result = storage.transactionSync(() => {
+    sql.exec("INSERT INTO entries VALUES ('a')");
+    return "result";
+  });
+  t.is(result, "result");
+  t.throws(
+    () =>
+      storage.transactionSync(() => {
+        sql.exec("INSERT INTO entries VALUES ('b')");
+        throw new Error("rollback");
+      }),
+    { message: "rollback" }
+  );
+  t.deepEqual(sql.exec("SELECT * FROM entries").toArray(), [{ key: "a" }]);
+});
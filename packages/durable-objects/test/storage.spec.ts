@@ -1403,8 +1403,10 @@ test("hides implementation details", (t) => {
     "list",
     "put",
     "setAlarm",
+    "sql",
     "sync",
     "transaction",
+    "transactionSync",
   ]);
 });
 test("transaction: hides implementation details", async (t) => {
@@ -19,6 +19,7 @@ import {
   fetch,
   logResponse,
 } from "@miniflare/core";
+import { HTTP_PULL_PATH_REGEXP, handleHTTPPull } from "@miniflare/queues";
 import { Log, prefixError, randomHex } from "@miniflare/shared";
 import { coupleWebSocket } from "@miniflare/web-sockets";
 import { BodyInit, Headers } from "undici";
@@ -291,6 +292,24 @@ export function createRequestListener<Plugins extends HTTPPluginSignatures>(
         status = 200;
         res?.writeHead(status, { "Content-Type": "text/plain; charset=UTF-8" });
         res?.end();
+      } else if (HTTP_PULL_PATH_REGEXP.test(pathname)) {
+        const [, queueName, action] = HTTP_PULL_PATH_REGEXP.exec(pathname)!;
+        const headers = { "Content-Type": "application/json" };
+        if (req.method !== "POST") {
+          status = 405;
+          res?.writeHead(status, { ...headers, Allow: "POST" });
+          res?.end();
+        } else {
+          const result = await handleHTTPPull(
+            mf.queueBroker,
+            decodeURIComponent(queueName),
+            action as "pull" | "ack",
+            await request.text()
+          );
+          status = result.status;
+          res?.writeHead(status, headers);
+          res?.end(JSON.stringify(result.body), "utf8");
+        }
       } else if (pathname.startsWith("/cdn-cgi/scripts/")) {
         response = await fetch(new URL(pathname, "https://cloudflare.com"));
         status = response.status;
@@ -298,9 +317,18 @@ export function createRequestListener<Plugins extends HTTPPluginSignatures>(
           await writeResponse(response, res, HTTPPlugin.liveReload, mf.log);
         }
       } else {
-        status = 404;
-        res?.writeHead(status, { "Content-Type": "text/plain; charset=UTF-8" });
-        res?.end();
+        // Plugins may serve their own utility APIs (e.g. R2's S3 API)
+        response = await mf.dispatchUtilityRequest(request, url);
+        if (response !== undefined) {
+          status = response.status;
+          if (res) await writeResponse(response, res, false, mf.log);
+        } else {
+          status = 404;
+          res?.writeHead(status, {
+            "Content-Type": "text/plain; charset=UTF-8",
+          });
+          res?.end();
+        }
       }
     } else {
       try {
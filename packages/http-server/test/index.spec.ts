@@ -28,6 +28,8 @@ import {
   createRequestListener,
   createServer,
 } from "@miniflare/http-server";
+import { QueuesPlugin } from "@miniflare/queues";
+import { R2Plugin, S3_PATH_PREFIX, presignS3Url } from "@miniflare/r2";
 import { LogLevel, getRequestContext } from "@miniflare/shared";
 import {
   TestLog,
@@ -400,6 +402,141 @@ test("createRequestListener: handles scheduled event triggers over http for moun
   await request(port, "/cdn-cgi/mf/scheduled", { host: "mount.mf" });
   t.deepEqual(events, ["parent", "child"]);
 });
+test("createRequestListener: handles queue HTTP pull consumer requests", async (t) => {
+  const mf = useMiniflare(
+    { HTTPPlugin, QueuesPlugin },
+    {
+      script: "",
+      queueBindings: [{ name: "QUEUE", queueName: "queue" }],
+      queueConsumers: [{ queueName: "queue", type: "http_pull" }],
+    }
+  );
+  const port = await listen(t, http.createServer(createRequestListener(mf)));
+  const { QUEUE } = await mf.getBindings();
+  await QUEUE.send({ key: "value" });
+  await QUEUE.send("text");
+
+  const url = `http://localhost:${port}/cdn-cgi/mf/queues/queue/messages`;
+  let res = await fetch(`${url}/pull`, {
+    method: "POST",
+    body: JSON.stringify({ batch_size: 5 }),
+  });
+  t.is(res.status, 200);
+  const pulled = await res.json<any>();
+  t.true(pulled.success);
+  t.deepEqual(
+    pulled.result.messages.map((message: any) => ({
+      body: message.body,
+      attempts: message.attempts,
+      metadata: message.metadata,
+    })),
+    [
+      {
+        body: '{"key":"value"}',
+        attempts: 1,
+        metadata: { "CF-Content-Type": "json" },
+      },
+      { body: "text", attempts: 1, metadata: { "CF-Content-Type": "text" } },
+    ]
+  );
+
+  const [lease1, lease2] = pulled.result.messages.map(
+    (message: any) => message.lease_id
+  );
+  res = await fetch(`${url}/ack`, {
+    method: "POST",
+    body: JSON.stringify({
+      acks: [{ lease_id: lease1 }],
+      retries: [{ lease_id: lease2 }],
+    }),
+  });
+  t.is(res.status, 200);
+  t.deepEqual((await res.json<any>()).result, {
+    ackCount: 1,
+    retryCount: 1,
+    warnings: [],
+  });
+
+  // Check retried message can be pulled again
+  res = await fetch(`${url}/pull`, { method: "POST" });
+  const repulled = await res.json<any>();
+  t.deepEqual(
+    repulled.result.messages.map((message: any) => message.attempts),
+    [2]
+  );
+
+  // Check errors returned for queues without pull consumers or bad methods
+  res = await fetch(
+    `http://localhost:${port}/cdn-cgi/mf/queues/other/messages/pull`,
+    { method: "POST" }
+  );
+  t.is(res.status, 400);
+  t.deepEqual((await res.json<any>()).errors, [
+    {
+      code: "ERR_NO_PULL_CONSUMER",
+      message: 'Queue "other" does not have an HTTP pull consumer',
+    },
+  ]);
+  res = await fetch(`${url}/pull`);
+  t.is(res.status, 405);
+});
+test("createRequestListener: handles R2 S3 API requests if enabled", async (t) => {
+  const mf = useMiniflare(
+    { HTTPPlugin, R2Plugin },
+    {
+      script: "",
+      globalAsyncIO: true,
+      r2Buckets: ["BUCKET"],
+      r2S3Endpoint: true,
+    }
+  );
+  const port = await listen(t, http.createServer(createRequestListener(mf)));
+  const url = `http://localhost:${port}/cdn-cgi/mf/r2/BUCKET/key`;
+  let res = await fetch(url, { method: "PUT", body: "value" });
+  t.is(res.status, 200);
+  const { BUCKET } = await mf.getBindings();
+  t.is(await (await BUCKET.get("key")).text(), "value");
+
+  res = await fetch(url);
+  t.is(res.status, 200);
+  t.is(await res.text(), "value");
+
+  // Check S3 API not served if disabled
+  await mf.setOptions({ r2S3Endpoint: false });
+  res = await fetch(url);
+  t.is(res.status, 404);
+  t.not(await res.text(), "value");
+});
+test("createRequestListener: handles R2 presigned URL requests", async (t) => {
+  const mf = useMiniflare(
+    { HTTPPlugin, R2Plugin },
+    { script: "", globalAsyncIO: true, r2Buckets: ["BUCKET"] }
+  );
+  const port = await listen(t, http.createServer(createRequestListener(mf)));
+  const { BUCKET } = await mf.getBindings();
+  await BUCKET.put("key", "value");
+  const endpoint = `http://localhost:${port}${S3_PATH_PREFIX}`;
+
+  // Check presigned URLs served even if S3 API disabled
+  let res = await fetch(presignS3Url(endpoint, "BUCKET", "key"));
+  t.is(res.status, 200);
+  t.is(await res.text(), "value");
+  res = await fetch(
+    presignS3Url(endpoint, "BUCKET", "key", { method: "PUT" }),
+    { method: "PUT", body: "new" }
+  );
+  t.is(res.status, 200);
+  t.is(await (await BUCKET.get("key")).text(), "new");
+
+  // Check invalid signatures rejected
+  const url = presignS3Url(endpoint, "BUCKET", "key").replace(
+    /X-Amz-Signature=[0-9a-f]/,
+    "X-Amz-Signature=x"
+  );
+  res = await fetch(url);
+  t.is(res.status, 403);
+  t.regex(await res.text(), /<Code>SignatureDoesNotMatch<\/Code>/);
+});
 test("createRequestListener: displays appropriately-formatted error page", async (t) => {
   const log = new TestLog();
   log.error = (message) =>
@@ -0,0 +1,102 @@
+import { TextDecoder, TextEncoder } from "util";
+import { Storage, StoredValueMeta } from "@miniflare/shared";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder("utf8", { fatal: true });
+
+// Entry in a JSON file for `wrangler kv:bulk put`:
+// https://developers.cloudflare.com/workers/wrangler/workers-kv/#put-1
+export interface KVBulkEntry {
+  key: string;
+  value: string;
+  expiration?: number;
+  expiration_ttl?: number;
+  metadata?: unknown;
+  base64?: boolean;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function assertNumber(i: number, name: string, value: unknown): void {
+  if (value !== undefined && (typeof value !== "number" || value <= 0)) {
+    throw new TypeError(`Entry ${i}: "${name}" must be a positive number`);
+  }
+}
+
+// Validates entries for `wrangler kv:bulk put`, converting them to key-value
+// pairs for `Storage#putMany()`. `now` is the current time in seconds.
+export function _parseKVBulkPut(
+  entries: unknown,
+  now: number
+): [key: string, value: StoredValueMeta][] {
+  if (!Array.isArray(entries)) {
+    throw new TypeError("Expected an array of entries");
+  }
+  return entries.map((entry, i) => {
+    if (!isObject(entry)) throw new TypeError(`Entry ${i}: expected an object`);
+    const { key, value, expiration, expiration_ttl, metadata, base64 } = entry;
+    if (typeof key !== "string" || key === "") {
+      throw new TypeError(`Entry ${i}: "key" must be a non-empty string`);
+    }
+    if (typeof value !== "string") {
+      throw new TypeError(`Entry ${i}: "value" must be a string`);
+    }
+    assertNumber(i, "expiration", expiration);
+    assertNumber(i, "expiration_ttl", expiration_ttl);
+    const stored: StoredValueMeta = {
+      value: base64
+        ? new Uint8Array(Buffer.from(value, "base64"))
+        : encoder.encode(value),
+      expiration:
+        expiration_ttl === undefined
+          ? (expiration as number | undefined)
+          : now + (expiration_ttl as number),
+      metadata,
+    };
+    return [key, stored];
+  });
+}
+
+// Validates keys for `wrangler kv:bulk delete`, which may be strings or
+// entries in the `kv:bulk put` format
+export function _parseKVBulkDelete(keys: unknown): string[] {
+  if (!Array.isArray(keys)) throw new TypeError("Expected an array of keys");
+  return keys.map((key, i) => {
+    if (isObject(key)) key = key.key;
+    if (typeof key !== "string" || key === "") {
+      throw new TypeError(`Entry ${i}: key must be a non-empty string`);
+    }
+    return key;
+  });
+}
+
+// Exports all keys in storage as entries in the `kv:bulk put` format, base64
+// encoding values that aren't valid UTF-8
+export async function _exportKVBulk(storage: Storage): Promise<KVBulkEntry[]> {
+  const entries: KVBulkEntry[] = [];
+  let cursor: string | undefined;
+  do {
+    const res = await storage.list({ cursor, limit: 1000 }, true);
+    const keys = res.keys.map(({ name }) => name);
+    const values = await storage.getMany(keys);
+    keys.forEach((key, i) => {
+      const stored = values[i];
+      // Key may have expired since it was listed
+      if (stored === undefined) return;
+      const entry: KVBulkEntry = { key, value: "" };
+      try {
+        entry.value = decoder.decode(stored.value);
+      } catch {
+        entry.value = Buffer.from(stored.value).toString("base64");
+        entry.base64 = true;
+      }
+      if (stored.expiration !== undefined) entry.expiration = stored.expiration;
+      if (stored.metadata !== undefined) entry.metadata = stored.metadata;
+      entries.push(entry);
+    });
+    cursor = res.cursor;
+  } while (cursor !== "");
+  return entries;
+}
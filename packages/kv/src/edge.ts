@@ -0,0 +1,192 @@
+import {
+  Clock,
+  Storage,
+  StoredValueMeta,
+  defaultClock,
+  millisToSeconds,
+} from "@miniflare/shared";
+
+export const DEFAULT_LOCATION = "default";
+const DEFAULT_CACHE_TTL = 60; /* 60s */
+
+interface CachedValue {
+  stored?: StoredValueMeta;
+  expiresAt: number;
+}
+
+interface PendingWrite {
+  stored?: StoredValueMeta;
+  visibleAt: number;
+}
+
+// Writes that haven't propagated to all locations yet. `initial` is the value
+// before the first of these writes, and is what locations without a cached
+// value see until then.
+interface PendingWrites {
+  initial?: StoredValueMeta;
+  writes: PendingWrite[];
+}
+
+export interface KVEdgeLocationsOptions {
+  // Seconds before writes are visible to other locations
+  propagationDelay?: number;
+  clock?: Clock;
+}
+
+// Emulates KV's eventual consistency: each edge location caches values it
+// reads for their `cacheTtl`, and writes only become visible to locations that
+// don't have them cached after a propagation delay. Locations see their own
+// writes immediately. Operations outside a location (e.g. from tests) read and
+// write the central store directly.
+// https://developers.cloudflare.com/workers/learning/how-kv-works/
+export class KVEdgeLocations {
+  readonly #storage: Storage;
+  readonly #propagationDelay: number;
+  readonly #clock: Clock;
+  readonly #caches = new Map<string, Map<string, CachedValue>>();
+  readonly #pending = new Map<string, PendingWrites>();
+
+  constructor(
+    storage: Storage,
+    { propagationDelay = 0, clock = defaultClock }: KVEdgeLocationsOptions = {}
+  ) {
+    this.#storage = storage;
+    this.#propagationDelay = propagationDelay * 1000;
+    this.#clock = clock;
+  }
+
+  #getCache(location: string): Map<string, CachedValue> {
+    let cache = this.#caches.get(location);
+    if (cache === undefined) {
+      cache = new Map();
+      this.#caches.set(location, cache);
+    }
+    return cache;
+  }
+
+  // Gets the values of keys visible to locations without them cached
+  async #getPropagated(
+    keys: string[]
+  ): Promise<(StoredValueMeta | undefined)[]> {
+    const now = this.#clock();
+    const values: (StoredValueMeta | undefined)[] = [];
+    // Indices of keys without pending writes, these are read from storage
+    const propagated: number[] = [];
+    keys.forEach((key, i) => {
+      const pending = this.#pending.get(key);
+      if (pending !== undefined) {
+        // Remove writes that have propagated everywhere, apart from the latest
+        let visible = -1;
+        pending.writes.forEach(({ visibleAt }, j) => {
+          if (visibleAt <= now) visible = j;
+        });
+        if (visible === pending.writes.length - 1) {
+          this.#pending.delete(key);
+        } else {
+          if (visible >= 0) pending.initial = pending.writes[visible].stored;
+          pending.writes.splice(0, visible + 1);
+          values[i] = pending.initial;
+          return;
+        }
+      }
+      propagated.push(i);
+    });
+    if (propagated.length > 0) {
+      const stored = await this.#storage.getMany(
+        propagated.map((i) => keys[i])
+      );
+      propagated.forEach((i, j) => (values[i] = stored[j]));
+    }
+    return values;
+  }
+
+  async get<Meta = unknown>(
+    key: string,
+    location?: string,
+    cacheTtl?: number
+  ): Promise<StoredValueMeta<Meta> | undefined> {
+    if (location === undefined) return this.#storage.get<Meta>(key);
+    return (await this.getMany<Meta>([key], location, cacheTtl))[0];
+  }
+
+  async getMany<Meta = unknown>(
+    keys: string[],
+    location?: string,
+    cacheTtl = DEFAULT_CACHE_TTL
+  ): Promise<(StoredValueMeta<Meta> | undefined)[]> {
+    if (location === undefined) return this.#storage.getMany<Meta>(keys);
+    const now = this.#clock();
+    const cache = this.#getCache(location);
+    const missing = keys.filter((key) => {
+      const cached = cache.get(key);
+      return cached === undefined || cached.expiresAt <= now;
+    });
+    if (missing.length > 0) {
+      // Cache misses (including for keys that don't exist) too
+      const stored = await this.#getPropagated(missing);
+      const expiresAt = now + cacheTtl * 1000;
+      missing.forEach((key, i) =>
+        cache.set(key, { stored: stored[i], expiresAt })
+      );
+    }
+    return keys.map((key) => {
+      const stored = cache.get(key)?.stored;
+      // Cached values may have expired since they were read
+      const expiration = stored?.expiration;
+      if (expiration !== undefined && expiration <= millisToSeconds(now)) {
+        return undefined;
+      }
+      return stored as StoredValueMeta<Meta> | undefined;
+    });
+  }
+
+  // Writes a value for a key, or deletes it if `stored` is undefined
+  put(
+    key: string,
+    stored: StoredValueMeta | undefined,
+    location?: string
+  ): Promise<void> {
+    return this.putMany([[key, stored]], location);
+  }
+
+  // Writes values for keys, deleting keys with undefined values
+  async putMany(
+    data: [key: string, stored: StoredValueMeta | undefined][],
+    location?: string
+  ): Promise<void> {
+    const now = this.#clock();
+    // If keys are written multiple times, the last write wins
+    const writes = new Map(data);
+    const keys = Array.from(writes.keys());
+    if (location === undefined) {
+      // Writes to the central store are visible immediately
+      for (const key of keys) this.#pending.delete(key);
+    } else if (this.#propagationDelay > 0) {
+      // Record the values before these writes for keys without pending writes
+      const initialKeys = keys.filter((key) => !this.#pending.has(key));
+      const initial = await this.#storage.getMany(initialKeys);
+      initialKeys.forEach((key, i) =>
+        this.#pending.set(key, { initial: initial[i], writes: [] })
+      );
+      const visibleAt = now + this.#propagationDelay;
+      for (const [key, stored] of writes) {
+        this.#pending.get(key)?.writes.push({ stored, visibleAt });
+      }
+    }
+
+    const puts: [string, StoredValueMeta][] = [];
+    const deletes: string[] = [];
+    for (const [key, stored] of writes) {
+      if (stored === undefined) deletes.push(key);
+      else puts.push([key, stored]);
+    }
+    if (puts.length > 0) await this.#storage.putMany(puts);
+    if (deletes.length > 0) await this.#storage.deleteMany(deletes);
+
+    if (location !== undefined) {
+      const cache = this.#getCache(location);
+      const expiresAt = now + DEFAULT_CACHE_TTL * 1000;
+      for (const [key, stored] of writes) cache.set(key, { stored, expiresAt });
+    }
+  }
+}
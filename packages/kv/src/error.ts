@@ -0,0 +1,7 @@
+import { MiniflareError } from "@miniflare/shared";
+
+export type KVErrorCode =
+  | "ERR_BULK_READ" // Unable to read or parse a bulk file
+  | "ERR_BULK_INVALID"; // Bulk file doesn't match wrangler's kv:bulk format
+
+export class KVError extends MiniflareError<KVErrorCode> {}
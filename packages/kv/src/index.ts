@@ -1,2 +1,5 @@
+export * from "./bulk";
+export * from "./edge";
+export * from "./error";
 export * from "./namespace";
 export * from "./plugin";
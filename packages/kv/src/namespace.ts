@@ -3,6 +3,7 @@ import { ReadableStream } from "stream/web";
 import { TextDecoder, TextEncoder } from "util";
 import {
   Clock,
+  RequestContext,
   Storage,
   StoredKeyMeta,
   assertInRequest,
@@ -14,11 +15,13 @@ import {
   waitForOpenInputGate,
   waitForOpenOutputGate,
 } from "@miniflare/shared";
+import { DEFAULT_LOCATION, KVEdgeLocations } from "./edge";
 
 const MIN_CACHE_TTL = 60; /* 60s */
 const MIN_EXPIRATION = -2147483648; /* Minimum signed 32-bit integer */
 const MAX_EXPIRATION = 2147483647; /* Maximum signed 32-bit integer */
 const MAX_LIST_KEYS = 1000;
+const MAX_BULK_GET_KEYS = 100;
 const MAX_KEY_SIZE = 512; /* 512B */
 const MAX_VALUE_SIZE = 25 * 1024 * 1024; /* 25MiB */
 const MAX_METADATA_SIZE = 1024; /* 1KiB */
@@ -33,6 +36,10 @@ export type KVValueMeta<Value, Meta> = Promise<{
   value: Value | null;
   metadata: Meta | null;
 }>;
+export type KVValues<Value> = Promise<Map<string, Value | null>>;
+export type KVValuesMeta<Value, Meta> = Promise<
+  Map<string, { value: Value | null; metadata: Meta | null }>
+>;
 
 export type KVGetValueType = "text" | "json" | "arrayBuffer" | "stream";
 export type KVGetOptions<Type extends KVGetValueType = KVGetValueType> = {
@@ -40,6 +47,9 @@ export type KVGetOptions<Type extends KVGetValueType = KVGetValueType> = {
   cacheTtl?: number;
 };
 const getValueTypes = new Set(["text", "json", "arrayBuffer", "stream"]);
+// Only text and JSON values can be fetched in bulk
+export type KVGetBulkValueType = "text" | "json";
+const getBulkValueTypes = new Set(["text", "json"]);
 
 export type KVPutValueType =
   | string
@@ -86,12 +96,13 @@ function validateKey(method: Method, key: string): void {
 }
 
 /**
- * Normalises type, ignoring cacheTtl as there is only one "edge location":
- * the user's computer
+ * Normalises type and validates cacheTtl. cacheTtl is ignored unless emulating
+ * edge locations, as otherwise there's only one: the user's computer.
  */
 function validateGetOptions(
-  options?: KVGetValueType | Partial<KVGetOptions>
-): KVGetValueType {
+  options?: KVGetValueType | Partial<KVGetOptions>,
+  bulk = false
+): [type: KVGetValueType, cacheTtl?: number] {
   const string = typeof options === "string";
   const type = string ? options : options?.type ?? "text";
   const cacheTtl = string ? undefined : options?.cacheTtl;
@@ -107,7 +118,29 @@ function validateGetOptions(
       'Unknown response type. Possible types are "text", "arrayBuffer", "json", and "stream".'
     );
   }
-  return type;
+  if (bulk && !getBulkValueTypes.has(type)) {
+    throw new TypeError(
+      `"${type}" is not a valid type. Use "json" or "text" instead.`
+    );
+  }
+  return [type, cacheTtl];
+}
+
+function validateKeys(method: string, keys: string[]): void {
+  if (keys.length > MAX_BULK_GET_KEYS) {
+    throwKVError(
+      "GET",
+      400,
+      `You can request a maximum of ${MAX_BULK_GET_KEYS} keys.`
+    );
+  }
+  for (const key of keys) {
+    // noinspection SuspiciousTypeOfGuard
+    if (typeof key !== "string") {
+      throw new TypeError(`Failed to execute '${method}'` + keyTypeError);
+    }
+    validateKey("GET", key);
+  }
 }
 
 /** Returns value as an integer or undefined if it isn't one */
@@ -150,23 +183,32 @@ function convertStoredToGetValue(stored: Uint8Array, type: KVGetValueType) {
 export interface InternalKVNamespaceOptions {
   clock?: Clock;
   blockGlobalAsyncIO?: boolean;
+  edgeLocations?: KVEdgeLocations;
+}
+
+// Gets the edge location handling the current request, if any
+function getLocation(ctx?: RequestContext): string | undefined {
+  return ctx && (ctx.location ?? DEFAULT_LOCATION);
 }
 
 export class KVNamespace {
   readonly #storage: Storage;
   readonly #clock: Clock;
   readonly #blockGlobalAsyncIO: boolean;
+  readonly #edgeLocations?: KVEdgeLocations;
 
   constructor(
     storage: Storage,
     {
       clock = defaultClock,
       blockGlobalAsyncIO = false,
+      edgeLocations,
     }: InternalKVNamespaceOptions = {}
   ) {
     this.#storage = storage;
     this.#clock = clock;
     this.#blockGlobalAsyncIO = blockGlobalAsyncIO;
+    this.#edgeLocations = edgeLocations;
   }
 
   get(
@@ -185,13 +227,27 @@ export class KVNamespace {
     key: string,
     options: "stream" | KVGetOptions<"stream">
   ): KVValue<ReadableStream<Uint8Array>>;
+  get(
+    keys: string[],
+    options?: "text" | Partial<KVGetOptions<"text">>
+  ): KVValues<string>;
+  get<Value = unknown>(
+    keys: string[],
+    options: "json" | KVGetOptions<"json">
+  ): KVValues<Value>;
   async get<Value = unknown>(
-    key: string,
+    key: string | string[],
     options?: KVGetValueType | Partial<KVGetOptions>
-  ): KVValue<KVPutValueType | Value> {
+  ): Promise<KVPutValueType | Value | Map<string, unknown> | null> {
     if (this.#blockGlobalAsyncIO) assertInRequest();
     const ctx = getRequestContext();
     ctx?.incrementInternalSubrequests();
+    if (Array.isArray(key)) {
+      const values = await this.#getMany(ctx, "get", key, options);
+      return new Map(
+        Array.from(values, ([key, stored]) => [key, stored?.value ?? null])
+      );
+    }
     // noinspection SuspiciousTypeOfGuard
     if (typeof key !== "string") {
       throw new TypeError("Failed to execute 'get'" + keyTypeError);
@@ -199,10 +255,12 @@ export class KVNamespace {
 
     // Validate key and options
     validateKey("GET", key);
-    const type = validateGetOptions(options);
+    const [type, cacheTtl] = validateGetOptions(options);
 
     // Get value without metadata, returning null if not found
-    const stored = await this.#storage.get(key, true);
+    const stored = this.#edgeLocations
+      ? await this.#edgeLocations.get(key, getLocation(ctx), cacheTtl)
+      : await this.#storage.get(key, true);
     await waitForOpenInputGate();
     ctx?.advanceCurrentTime();
     if (stored === undefined) return null;
@@ -227,13 +285,38 @@ export class KVNamespace {
     key: string,
     options: "stream" | KVGetOptions<"stream">
   ): KVValueMeta<ReadableStream<Uint8Array>, Metadata>;
+  getWithMetadata<Metadata = unknown>(
+    keys: string[],
+    options?: "text" | Partial<KVGetOptions<"text">>
+  ): KVValuesMeta<string, Metadata>;
+  getWithMetadata<Value = unknown, Metadata = unknown>(
+    keys: string[],
+    options: "json" | KVGetOptions<"json">
+  ): KVValuesMeta<Value, Metadata>;
   async getWithMetadata<Value = unknown, Metadata = unknown>(
-    key: string,
+    key: string | string[],
     options?: KVGetValueType | Partial<KVGetOptions>
-  ): KVValueMeta<KVPutValueType | Value, Metadata> {
+  ): Promise<
+    | Awaited<KVValueMeta<KVPutValueType | Value, Metadata>>
+    | Map<string, unknown>
+  > {
     if (this.#blockGlobalAsyncIO) assertInRequest();
     const ctx = getRequestContext();
     ctx?.incrementInternalSubrequests();
+    if (Array.isArray(key)) {
+      const values = await this.#getMany<Metadata>(
+        ctx,
+        "getWithMetadata",
+        key,
+        options
+      );
+      return new Map(
+        Array.from(values, ([key, stored]) => [
+          key,
+          { value: stored?.value ?? null, metadata: stored?.metadata ?? null },
+        ])
+      );
+    }
     // noinspection SuspiciousTypeOfGuard
     if (typeof key !== "string") {
       throw new TypeError("Failed to execute 'getWithMetadata'" + keyTypeError);
@@ -241,10 +324,12 @@ export class KVNamespace {
 
     // Validate key and options
     validateKey("GET", key);
-    const type = validateGetOptions(options);
+    const [type, cacheTtl] = validateGetOptions(options);
 
     // Get value with metadata, returning nulls if not found
-    const storedValue = await this.#storage.get<Metadata>(key);
+    const storedValue = this.#edgeLocations
+      ? await this.#edgeLocations.get<Metadata>(key, getLocation(ctx), cacheTtl)
+      : await this.#storage.get<Metadata>(key);
     await waitForOpenInputGate();
     ctx?.advanceCurrentTime();
     if (storedValue === undefined) return { value: null, metadata: null };
@@ -254,6 +339,43 @@ export class KVNamespace {
     return { value: convertStoredToGetValue(value, type), metadata };
   }
 
+  // Gets typed values for many keys at once, counting as a single operation
+  async #getMany<Metadata>(
+    ctx: RequestContext | undefined,
+    method: string,
+    keys: string[],
+    options?: KVGetValueType | Partial<KVGetOptions>
+  ): Promise<Map<string, { value: unknown; metadata?: Metadata } | undefined>> {
+    validateKeys(method, keys);
+    const [type, cacheTtl] = validateGetOptions(options, true);
+
+    const stored = this.#edgeLocations
+      ? await this.#edgeLocations.getMany<Metadata>(
+          keys,
+          getLocation(ctx),
+          cacheTtl
+        )
+      : await this.#storage.getMany<Metadata>(keys);
+    await waitForOpenInputGate();
+    ctx?.advanceCurrentTime();
+
+    const values = new Map<
+      string,
+      { value: unknown; metadata?: Metadata } | undefined
+    >();
+    keys.forEach((key, i) => {
+      const value = stored[i];
+      values.set(
+        key,
+        value && {
+          value: convertStoredToGetValue(value.value, type),
+          metadata: value.metadata,
+        }
+      );
+    });
+    return values;
+  }
+
   async put<Meta = unknown>(
     key: string,
     value: KVPutValueType,
@@ -356,11 +478,16 @@ export class KVNamespace {
 
     // Store value with expiration and metadata
     await waitForOpenOutputGate();
-    await this.#storage.put(key, {
+    const storedValue = {
       value: stored,
       expiration,
       metadata: options.metadata,
-    });
+    };
+    if (this.#edgeLocations) {
+      await this.#edgeLocations.put(key, storedValue, getLocation(ctx));
+    } else {
+      await this.#storage.put(key, storedValue);
+    }
     await waitForOpenInputGate();
     ctx?.advanceCurrentTime();
   }
@@ -376,7 +503,11 @@ export class KVNamespace {
 
     validateKey("DELETE", key);
     await waitForOpenOutputGate();
-    await this.#storage.delete(key);
+    if (this.#edgeLocations) {
+      await this.#edgeLocations.put(key, undefined, getLocation(ctx));
+    } else {
+      await this.#storage.delete(key);
+    }
     await waitForOpenInputGate();
     ctx?.advanceCurrentTime();
   }
@@ -1,3 +1,5 @@
+import fs from "fs/promises";
+import path from "path";
 import {
   Context,
   Option,
@@ -5,14 +7,23 @@ import {
   Plugin,
   PluginContext,
   SetupResult,
+  Storage,
   StorageFactory,
+  StoredValueMeta,
+  defaultClock,
+  millisToSeconds,
   resolveStoragePersist,
 } from "@miniflare/shared";
+import { _exportKVBulk, _parseKVBulkDelete, _parseKVBulkPut } from "./bulk";
+import { KVEdgeLocations } from "./edge";
+import { KVError } from "./error";
 import { KVNamespace } from "./namespace";
 
 export interface KVOptions {
   kvNamespaces?: string[];
   kvPersist?: boolean | string;
+  kvEdgeCaching?: boolean;
+  kvPropagationDelay?: number;
 }
 
 export class KVPlugin extends Plugin<KVOptions> implements KVOptions {
@@ -34,7 +45,26 @@ export class KVPlugin extends Plugin<KVOptions> implements KVOptions {
     fromWrangler: ({ miniflare }) => miniflare?.kv_persist,
   })
   kvPersist?: boolean | string;
+
+  @Option({
+    type: OptionType.BOOLEAN,
+    description: "Emulate KV edge caching and eventual consistency",
+    logName: "KV Edge Caching",
+    fromWrangler: ({ miniflare }) => miniflare?.kv_edge_caching,
+  })
+  kvEdgeCaching?: boolean;
+
+  @Option({
+    type: OptionType.NUMBER,
+    description: "Seconds before KV writes are visible to other locations",
+    logName: "KV Propagation Delay",
+    fromWrangler: ({ miniflare }) => miniflare?.kv_propagation_delay,
+  })
+  kvPropagationDelay?: number;
+
   readonly #persist?: boolean | string;
+  // Edge location caches must outlive namespaces, which are recreated on reload
+  readonly #edgeLocations = new Map<string, KVEdgeLocations>();
 
   constructor(ctx: PluginContext, options?: KVOptions) {
     super(ctx);
@@ -42,16 +72,124 @@ export class KVPlugin extends Plugin<KVOptions> implements KVOptions {
     this.#persist = resolveStoragePersist(ctx.rootPath, this.kvPersist);
   }
 
+  #getEdgeLocations(
+    storage: Storage,
+    namespace: string
+  ): KVEdgeLocations | undefined {
+    if (!this.kvEdgeCaching) return;
+    let edgeLocations = this.#edgeLocations.get(namespace);
+    if (edgeLocations === undefined) {
+      edgeLocations = new KVEdgeLocations(storage, {
+        propagationDelay: this.kvPropagationDelay,
+      });
+      this.#edgeLocations.set(namespace, edgeLocations);
+    }
+    return edgeLocations;
+  }
+
   getNamespace(
     storage: StorageFactory,
     namespace: string,
     blockGlobalAsyncIO = false
   ): KVNamespace {
-    return new KVNamespace(storage.storage(namespace, this.#persist), {
+    const namespaceStorage = storage.storage(namespace, this.#persist);
+    return new KVNamespace(namespaceStorage, {
       blockGlobalAsyncIO,
+      edgeLocations: this.#getEdgeLocations(namespaceStorage, namespace),
     });
   }
 
+  async #readBulkFile(filePath: string): Promise<unknown> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, "utf8"));
+    } catch (e: any) {
+      throw new KVError(
+        "ERR_BULK_READ",
+        `Unable to read KV bulk file "${filePath}": ${e.message}`,
+        e
+      );
+    }
+  }
+
+  // Writes data (or deletes keys with undefined values) to a namespace's
+  // central store, updating edge locations if enabled
+  async #writeBulk(
+    storageFactory: StorageFactory,
+    namespace: string,
+    data: [key: string, value: StoredValueMeta | undefined][]
+  ): Promise<void> {
+    const storage = storageFactory.storage(namespace, this.#persist);
+    const edgeLocations = this.#getEdgeLocations(storage, namespace);
+    if (edgeLocations !== undefined) return edgeLocations.putMany(data);
+    const puts = data.filter(
+      (entry): entry is [string, StoredValueMeta] => entry[1] !== undefined
+    );
+    if (puts.length > 0) await storage.putMany(puts);
+    const deletes = data.filter(([, value]) => value === undefined);
+    if (deletes.length > 0) await storage.deleteMany(deletes.map(([k]) => k));
+  }
+
+  // Puts entries from a JSON file in the `wrangler kv:bulk put` format into a
+  // namespace, returning the number of entries written
+  async putBulk(
+    storageFactory: StorageFactory,
+    namespace: string,
+    filePath: string
+  ): Promise<number> {
+    filePath = path.resolve(this.ctx.rootPath, filePath);
+    const entries = await this.#readBulkFile(filePath);
+    let data: [string, StoredValueMeta][];
+    try {
+      data = _parseKVBulkPut(entries, millisToSeconds(defaultClock()));
+    } catch (e: any) {
+      throw new KVError(
+        "ERR_BULK_INVALID",
+        `Invalid KV bulk file "${filePath}": ${e.message}`,
+        e
+      );
+    }
+    await this.#writeBulk(storageFactory, namespace, data);
+    return data.length;
+  }
+
+  // Deletes keys in a JSON file in the `wrangler kv:bulk delete` format from a
+  // namespace, returning the number of keys deleted
+  async deleteBulk(
+    storageFactory: StorageFactory,
+    namespace: string,
+    filePath: string
+  ): Promise<number> {
+    filePath = path.resolve(this.ctx.rootPath, filePath);
+    const keys = await this.#readBulkFile(filePath);
+    let data: [string, undefined][];
+    try {
+      data = _parseKVBulkDelete(keys).map((key) => [key, undefined]);
+    } catch (e: any) {
+      throw new KVError(
+        "ERR_BULK_INVALID",
+        `Invalid KV bulk file "${filePath}": ${e.message}`,
+        e
+      );
+    }
+    await this.#writeBulk(storageFactory, namespace, data);
+    return data.length;
+  }
+
+  // Writes all entries in a namespace to a JSON file in the
+  // `wrangler kv:bulk put` format, returning the number of entries written
+  async exportBulk(
+    storageFactory: StorageFactory,
+    namespace: string,
+    filePath: string
+  ): Promise<number> {
+    filePath = path.resolve(this.ctx.rootPath, filePath);
+    const storage = storageFactory.storage(namespace, this.#persist);
+    const entries = await _exportKVBulk(storage);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(entries, null, 2), "utf8");
+    return entries.length;
+  }
+
   setup(storageFactory: StorageFactory): SetupResult {
     const blockGlobalAsyncIO = !this.ctx.globalAsyncIO;
     const bindings: Context = {};
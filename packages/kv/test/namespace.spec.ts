@@ -1,6 +1,7 @@
 import assert from "assert";
 import { ReadableStream } from "stream/web";
 import {
+  KVEdgeLocations,
   KVGetValueType,
   KVListOptions,
   KVNamespace,
@@ -328,6 +329,79 @@ test("getWithMetadata", validateGetMacro, async (ns, cacheTtl, type) => {
   await ns.getWithMetadata("key", { cacheTtl, type: type as any });
 });
 
+test("get: gets many keys", async (t) => {
+  const { storage, ns } = t.context;
+  await storage.put("key1", { value: utf8Encode("value1") });
+  await storage.put("key2", { value: utf8Encode('{"field":"value2"}') });
+  t.deepEqual(
+    await ns.get(["key1", "key3"]),
+    new Map([
+      ["key1", "value1"],
+      ["key3", null],
+    ])
+  );
+  t.deepEqual(
+    await ns.get(["key2"], { type: "json", cacheTtl: 3600 }),
+    new Map([["key2", { field: "value2" }]])
+  );
+});
+test("getWithMetadata: gets many keys with metadata", async (t) => {
+  const { storage, ns } = t.context;
+  await storage.put("key1", {
+    value: utf8Encode('{"field":"value1"}'),
+    metadata: { testing: true },
+  });
+  await storage.put("key2", { value: utf8Encode("value2") });
+  t.deepEqual(
+    await ns.getWithMetadata(["key1", "key3"], "json"),
+    new Map([
+      ["key1", { value: { field: "value1" }, metadata: { testing: true } }],
+      ["key3", { value: null, metadata: null }],
+    ])
+  );
+  t.deepEqual(
+    await ns.getWithMetadata(["key2"]),
+    new Map([["key2", { value: "value2", metadata: null }]])
+  );
+});
+test("get: getting many keys increments subrequest count once", async (t) => {
+  const { ns } = t.context;
+  const ctx = new RequestContext(requestCtxOptions);
+  await ctx.runWith(() => ns.get(["key1", "key2"]));
+  await ctx.runWith(() => ns.getWithMetadata(["key1", "key2"]));
+  t.is(ctx.internalSubrequests, 2);
+});
+test("get: getting many keys waits for input gate to open before returning", async (t) => {
+  const { ns } = t.context;
+  await waitsForInputGate(t, () => ns.get(["key"]));
+  await waitsForInputGate(t, () => ns.getWithMetadata(["key"]));
+});
+test("get: validates many keys and options", async (t) => {
+  const { ns } = t.context;
+  const keys = Array.from({ length: 101 }, (_, i) => `key${i}`);
+  await t.throwsAsync(ns.get(keys), {
+    instanceOf: Error,
+    message: "KV GET failed: 400 You can request a maximum of 100 keys.",
+  });
+  await t.throwsAsync(ns.getWithMetadata(["key", ""]), {
+    instanceOf: TypeError,
+    message: "Key name cannot be empty.",
+  });
+  await t.throwsAsync(ns.get(["key", 1 as any]), {
+    instanceOf: TypeError,
+    message:
+      "Failed to execute 'get' on 'KvNamespace': parameter 1 is not of type 'string'.",
+  });
+  await t.throwsAsync(ns.get(["key"], "arrayBuffer" as any), {
+    instanceOf: TypeError,
+    message: '"arrayBuffer" is not a valid type. Use "json" or "text" instead.',
+  });
+  await t.throwsAsync(ns.getWithMetadata(["key"], { type: "stream" as any }), {
+    instanceOf: TypeError,
+    message: '"stream" is not a valid type. Use "json" or "text" instead.',
+  });
+});
+
 const putMacro: Macro<
   [
     { value: KVPutValueType; options?: KVPutOptions; expected: StoredValueMeta }
@@ -883,3 +957,124 @@ test("operations advance current time", async (t) => {
   await advancesTime(t, () => ns.delete("key"));
   await advancesTime(t, () => ns.list());
 });
+
+function useEdgeLocations(propagationDelay?: number) {
+  const clock = { now: TIME_NOW * 1000 };
+  const storage = new MemoryStorage(undefined, () => clock.now);
+  const edgeLocations = new KVEdgeLocations(storage, {
+    propagationDelay,
+    clock: () => clock.now,
+  });
+  const ns = new KVNamespace(storage, {
+    clock: () => clock.now,
+    edgeLocations,
+  });
+  // Runs a function in a request context handled by the specified location
+  const at = <T>(location: string | undefined, closure: () => Promise<T>) =>
+    new RequestContext({ ...requestCtxOptions, location }).runWith(closure);
+  return { clock, storage, ns, at };
+}
+test("edge locations: caches values for cache ttl", async (t) => {
+  const { clock, storage, ns, at } = useEdgeLocations();
+  await storage.put("key", { value: utf8Encode("1") });
+  t.is(await at("LHR", () => ns.get("key")), "1");
+  await storage.put("key", { value: utf8Encode("2") });
+  t.is(await at("LHR", () => ns.get("key")), "1");
+  const { value } = await at("LHR", () => ns.getWithMetadata("key"));
+  t.is(value, "1");
+  // Check other locations and operations outside requests read storage
+  t.is(await at("SFO", () => ns.get("key")), "2");
+  t.is(await ns.get("key"), "2");
+
+  // Check values expire after the default cache ttl of 60s
+  clock.now += 59_000;
+  t.is(await at("LHR", () => ns.get("key")), "1");
+  clock.now += 1_000;
+  t.is(await at("LHR", () => ns.get("key")), "2");
+
+  // Check custom cache ttl
+  await storage.put("key", { value: utf8Encode("3") });
+  clock.now += 60_000;
+  t.is(await at("LHR", () => ns.get("key", { cacheTtl: 120 })), "3");
+  await storage.put("key", { value: utf8Encode("4") });
+  clock.now += 119_000;
+  t.is(await at("LHR", () => ns.get("key")), "3");
+  clock.now += 1_000;
+  t.is(await at("LHR", () => ns.get("key")), "4");
+});
+test("edge locations: caches non-existent keys", async (t) => {
+  const { storage, ns, at } = useEdgeLocations();
+  t.is(await at("LHR", () => ns.get("key")), null);
+  await storage.put("key", { value: utf8Encode("value") });
+  t.is(await at("LHR", () => ns.get("key")), null);
+  t.is(await at("SFO", () => ns.get("key")), "value");
+});
+test("edge locations: respects expiration of cached values", async (t) => {
+  const { clock, ns, at } = useEdgeLocations();
+  await ns.put("key", "value", { expirationTtl: 60 });
+  t.is(await at("LHR", () => ns.get("key", { cacheTtl: 3600 })), "value");
+  clock.now += 60_000;
+  t.is(await at("LHR", () => ns.get("key")), null);
+});
+test("edge locations: writes visible immediately in writing location", async (t) => {
+  const { ns, at } = useEdgeLocations(60);
+  await at("LHR", () => ns.put("key", "1"));
+  t.is(await at("LHR", () => ns.get("key")), "1");
+  await at("LHR", () => ns.delete("key"));
+  t.is(await at("LHR", () => ns.get("key")), null);
+  // Requests without a location use the default location
+  await at(undefined, () => ns.put("key", "2"));
+  t.is(await at(undefined, () => ns.get("key")), "2");
+});
+test("edge locations: writes propagate to other locations after delay", async (t) => {
+  const { clock, ns, at } = useEdgeLocations(120);
+  await ns.put("key", "1");
+  await at("LHR", () => ns.put("key", "2"));
+  clock.now += 60_000;
+  await at("LHR", () => ns.put("key", "3"));
+  t.is(await at("SFO", () => ns.get("key")), "1");
+  clock.now += 60_000;
+  t.is(await at("SFO", () => ns.get("key", { cacheTtl: 120 })), "2");
+  t.is(await at("SIN", () => ns.get("key")), "2");
+  clock.now += 60_000;
+  t.is(await at("SIN", () => ns.get("key")), "3");
+  t.is(await at("SFO", () => ns.get("key")), "2");
+  // Check storage is always up-to-date
+  t.is(await ns.get("key"), "3");
+
+  // Check deletes propagate too
+  await at("LHR", () => ns.delete("key"));
+  t.is(await at("CDG", () => ns.get("key")), "3");
+  clock.now += 120_000;
+  t.is(await at("AMS", () => ns.get("key")), null);
+});
+test("edge locations: gets many keys through cache", async (t) => {
+  const { storage, ns, at } = useEdgeLocations(60);
+  await storage.put("key1", { value: utf8Encode("1") });
+  t.is(await at("LHR", () => ns.get("key1")), "1");
+  await at("SFO", () => ns.put("key2", "2"));
+  await storage.put("key1", { value: utf8Encode("3") });
+  t.deepEqual(
+    await at("LHR", () => ns.get(["key1", "key2"])),
+    new Map([
+      ["key1", "1"],
+      ["key2", null],
+    ])
+  );
+  t.deepEqual(
+    await at("SFO", () => ns.get(["key1", "key2"])),
+    new Map([
+      ["key1", "3"],
+      ["key2", "2"],
+    ])
+  );
+});
+test("edge locations: lists keys from storage", async (t) => {
+  const { ns, at } = useEdgeLocations(60);
+  await at("LHR", () => ns.put("key", "value"));
+  const { keys } = await at("SFO", () => ns.list());
+  t.deepEqual(
+    keys.map(({ name }) => name),
+    ["key"]
+  );
+});
@@ -1,12 +1,15 @@
 import assert from "assert";
+import fs from "fs/promises";
 import path from "path";
-import { KVNamespace, KVPlugin } from "@miniflare/kv";
+import { KVError, KVNamespace, KVPlugin } from "@miniflare/kv";
 import { QueueBroker } from "@miniflare/queues";
 import {
   Compatibility,
+  EXTERNAL_SUBREQUEST_LIMIT_BUNDLED,
   NoOpLog,
   PluginContext,
   QueueEventDispatcher,
+  RequestContext,
   StoredValueMeta,
 } from "@miniflare/shared";
 import {
@@ -15,6 +18,7 @@ import {
   parsePluginArgv,
   parsePluginWranglerConfig,
   useTmp,
+  utf8Encode,
 } from "@miniflare/shared-test";
 import test from "ava";
 
@@ -40,10 +44,15 @@ test("KVPlugin: parses options from argv", (t) => {
     "NAMESPACE2",
     "--kv-persist",
     "path",
+    "--kv-edge-caching",
+    "--kv-propagation-delay",
+    "10",
   ]);
   t.deepEqual(options, {
     kvNamespaces: ["NAMESPACE1", "NAMESPACE2"],
     kvPersist: "path",
+    kvEdgeCaching: true,
+    kvPropagationDelay: 10,
   });
   options = parsePluginArgv(KVPlugin, [
     "-k",
@@ -60,21 +69,31 @@ test("KVPlugin: parses options from argv", (t) => {
 test("KVPlugin: parses options from wrangler config", (t) => {
   const options = parsePluginWranglerConfig(KVPlugin, {
     kv_namespaces: [{ binding: "NAMESPACE1" }, { binding: "NAMESPACE2" }],
-    miniflare: { kv_persist: "path" },
+    miniflare: {
+      kv_persist: "path",
+      kv_edge_caching: true,
+      kv_propagation_delay: 10,
+    },
   });
   t.deepEqual(options, {
     kvNamespaces: ["NAMESPACE1", "NAMESPACE2"],
     kvPersist: "path",
+    kvEdgeCaching: true,
+    kvPropagationDelay: 10,
   });
 });
 test("KVPlugin: logs options", (t) => {
   const logs = logPluginOptions(KVPlugin, {
     kvNamespaces: ["NAMESPACE1", "NAMESPACE2"],
     kvPersist: true,
+    kvEdgeCaching: true,
+    kvPropagationDelay: 10,
   });
   t.deepEqual(logs, [
     "KV Namespaces: NAMESPACE1, NAMESPACE2",
     "KV Persistence: true",
+    "KV Edge Caching: true",
+    "KV Propagation Delay: 10",
   ]);
 });
 test("KVPlugin: getNamespace: creates namespace", async (t) => {
@@ -101,6 +120,26 @@ test("KVPlugin: getNamespace: resolves persist path relative to rootPath", async
   await namespace.put("key", "value");
   t.true(map.has("key"));
 });
+test("KVPlugin: getNamespace: shares edge locations between namespaces", async (t) => {
+  const map = new Map<string, StoredValueMeta>();
+  const factory = new MemoryStorageFactory({ ["test://map:NAMESPACE"]: map });
+  const plugin = new KVPlugin(ctx, {
+    kvPersist: "test://map",
+    kvEdgeCaching: true,
+  });
+  const ns1 = plugin.getNamespace(factory, "NAMESPACE");
+  const ns2 = plugin.getNamespace(factory, "NAMESPACE");
+  const requestCtx = new RequestContext({
+    externalSubrequestLimit: EXTERNAL_SUBREQUEST_LIMIT_BUNDLED,
+  });
+
+  await ns1.put("key", "1");
+  t.is(await requestCtx.runWith(() => ns1.get("key")), "1");
+  await ns1.put("key", "2");
+  // Check cached value from first namespace used by second
+  t.is(await requestCtx.runWith(() => ns2.get("key")), "1");
+  t.is(await ns2.get("key"), "2");
+});
 test("KVPlugin: setup: includes namespaces in bindings", async (t) => {
   const map1 = new Map<string, StoredValueMeta>();
   const map2 = new Map<string, StoredValueMeta>();
@@ -149,3 +188,100 @@ test("KVPlugin: setup: operations throw outside request handler unless globalAsy
   ns = (await plugin.setup(factory)).bindings?.NAMESPACE;
   await ns.get("key");
 });
+test("KVPlugin: putBulk: puts entries from file", async (t) => {
+  const tmp = await useTmp(t);
+  const map = new Map<string, StoredValueMeta>();
+  const factory = new MemoryStorageFactory({ ["test://map:NAMESPACE"]: map });
+  const plugin = new KVPlugin(
+    { ...ctx, rootPath: tmp },
+    { kvPersist: "test://map" }
+  );
+  await fs.writeFile(
+    path.join(tmp, "bulk.json"),
+    JSON.stringify([
+      { key: "key1", value: "value1", metadata: { testing: true } },
+      { key: "key2", value: "AQID", base64: true, expiration: 2_000_000_000 },
+      { key: "key3", value: "value3", expiration_ttl: 3600 },
+    ])
+  );
+  t.is(await plugin.putBulk(factory, "NAMESPACE", "bulk.json"), 3);
+  t.deepEqual(map.get("key1"), {
+    value: utf8Encode("value1"),
+    expiration: undefined,
+    metadata: { testing: true },
+  });
+  t.deepEqual(map.get("key2")?.value, new Uint8Array([1, 2, 3]));
+  t.is(map.get("key2")?.expiration, 2_000_000_000);
+  const expiration = map.get("key3")?.expiration ?? 0;
+  t.true(Math.abs(expiration - (Math.floor(Date.now() / 1000) + 3600)) <= 1);
+});
+test("KVPlugin: putBulk: throws on invalid files", async (t) => {
+  const tmp = await useTmp(t);
+  const factory = new MemoryStorageFactory();
+  const plugin = new KVPlugin({ ...ctx, rootPath: tmp });
+  const filePath = path.join(tmp, "bulk.json");
+  const error = await t.throwsAsync<KVError>(
+    plugin.putBulk(factory, "NAMESPACE", "bulk.json"),
+    { instanceOf: KVError, code: "ERR_BULK_READ" }
+  );
+  t.true(
+    error?.message.startsWith(`Unable to read KV bulk file "${filePath}"`)
+  );
+  await fs.writeFile(filePath, '[{ "key": "key", "value": 1 }]');
+  await t.throwsAsync(plugin.putBulk(factory, "NAMESPACE", "bulk.json"), {
+    instanceOf: KVError,
+    code: "ERR_BULK_INVALID",
+    message: `Invalid KV bulk file "${filePath}": Entry 0: "value" must be a string`,
+  });
+});
+test("KVPlugin: deleteBulk: deletes keys from file", async (t) => {
+  const tmp = await useTmp(t);
+  const map = new Map<string, StoredValueMeta>();
+  const factory = new MemoryStorageFactory({ ["test://map:NAMESPACE"]: map });
+  const plugin = new KVPlugin(
+    { ...ctx, rootPath: tmp },
+    { kvPersist: "test://map" }
+  );
+  for (const key of ["key1", "key2", "key3"]) {
+    map.set(key, { value: utf8Encode("value") });
+  }
+  await fs.writeFile(
+    path.join(tmp, "bulk.json"),
+    JSON.stringify(["key1", { key: "key2" }])
+  );
+  t.is(await plugin.deleteBulk(factory, "NAMESPACE", "bulk.json"), 2);
+  t.deepEqual([...map.keys()], ["key3"]);
+});
+test("KVPlugin: exportBulk: writes entries to file", async (t) => {
+  const tmp = await useTmp(t);
+  const map = new Map<string, StoredValueMeta>();
+  const factory = new MemoryStorageFactory({ ["test://map:NAMESPACE"]: map });
+  const plugin = new KVPlugin(
+    { ...ctx, rootPath: tmp },
+    { kvPersist: "test://map" }
+  );
+  map.set("key1", {
+    value: utf8Encode("value1"),
+    expiration: 2_000_000_000,
+    metadata: { testing: true },
+  });
+  map.set("key2", { value: new Uint8Array([0xff, 0xfe]) });
+  t.is(await plugin.exportBulk(factory, "NAMESPACE", "out/bulk.json"), 2);
+  const entries = JSON.parse(
+    await fs.readFile(path.join(tmp, "out", "bulk.json"), "utf8")
+  );
+  t.deepEqual(entries, [
+    {
+      key: "key1",
+      value: "value1",
+      expiration: 2_000_000_000,
+      metadata: { testing: true },
+    },
+    { key: "key2", value: "//4=", base64: true },
+  ]);
+
+  // Check exported files can be imported again
+  map.clear();
+  t.is(await plugin.putBulk(factory, "NAMESPACE", "out/bulk.json"), 2);
+  t.deepEqual(map.get("key2")?.value, new Uint8Array([0xff, 0xfe]));
+});
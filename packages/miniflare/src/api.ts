@@ -8,7 +8,7 @@ import {
   MiniflareCore,
   MiniflareCoreOptions,
 } from "@miniflare/core";
-import { D1Plugin } from "@miniflare/d1";
+import { D1Migration, D1Plugin } from "@miniflare/d1";
 import {
   DurableObjectId,
   DurableObjectNamespace,
@@ -25,14 +25,20 @@ import {
 import { KVNamespace, KVPlugin } from "@miniflare/kv";
 import { QueuesPlugin } from "@miniflare/queues";
 import { QueueBroker } from "@miniflare/queues";
-import { R2Bucket, R2Plugin } from "@miniflare/r2";
+import {
+  R2Bucket,
+  R2Plugin,
+  R2PresignOptions,
+  S3_PATH_PREFIX,
+  presignS3Url,
+} from "@miniflare/r2";
 import { VMScriptRunner } from "@miniflare/runner-vm";
 import {
   CronScheduler,
   SchedulerPlugin,
   startScheduler,
 } from "@miniflare/scheduler";
-import { Log, NoOpLog } from "@miniflare/shared";
+import { Clock, Log, NoOpLog } from "@miniflare/shared";
 import { SitesPlugin } from "@miniflare/sites";
 import { WebSocketPlugin } from "@miniflare/web-sockets";
 import sourceMap from "source-map-support";
@@ -114,12 +120,75 @@ export class Miniflare extends MiniflareCore<Plugins> {
     return plugin.getNamespace(storage, namespace);
   }
 
+  // Puts entries from a JSON file in the `wrangler kv:bulk put` format
+  async putKVBulk(namespace: string, filePath: string): Promise<number> {
+    const plugin = (await this.getPlugins()).KVPlugin;
+    const storage = this.getPluginStorage("KVPlugin");
+    return plugin.putBulk(storage, namespace, filePath);
+  }
+
+  // Deletes keys in a JSON file in the `wrangler kv:bulk delete` format
+  async deleteKVBulk(namespace: string, filePath: string): Promise<number> {
+    const plugin = (await this.getPlugins()).KVPlugin;
+    const storage = this.getPluginStorage("KVPlugin");
+    return plugin.deleteBulk(storage, namespace, filePath);
+  }
+
+  // Writes all entries to a JSON file in the `wrangler kv:bulk put` format
+  async exportKVBulk(namespace: string, filePath: string): Promise<number> {
+    const plugin = (await this.getPlugins()).KVPlugin;
+    const storage = this.getPluginStorage("KVPlugin");
+    return plugin.exportBulk(storage, namespace, filePath);
+  }
+
   async getR2Bucket(bucket: string): Promise<R2Bucket> {
     const plugin = (await this.getPlugins()).R2Plugin;
     const storage = this.getPluginStorage("R2Plugin");
     return plugin.getBucket(storage, bucket);
   }
 
+  // Removes objects and multipart uploads expired by R2 lifecycle rules. If
+  // `clock` is specified, it's used as the current time.
+  async sweepR2Lifecycle(clock?: Clock): Promise<void> {
+    const plugin = (await this.getPlugins()).R2Plugin;
+    const storage = this.getPluginStorage("R2Plugin");
+    await plugin.sweepLifecycle(storage, clock);
+  }
+
+  // Creates a presigned URL for an object, served by the HTTP server
+  async createR2PresignedUrl(
+    bucket: string,
+    key: string,
+    options?: R2PresignOptions
+  ): Promise<string> {
+    const {
+      httpsEnabled,
+      host = "localhost",
+      port = DEFAULT_PORT,
+    } = (await this.getPlugins()).HTTPPlugin;
+    const protocol = httpsEnabled ? "https" : "http";
+    const endpoint = `${protocol}://${host}:${port}${S3_PATH_PREFIX}`;
+    return presignS3Url(endpoint, bucket, key, options);
+  }
+
+  async listD1Migrations(binding: string): Promise<D1Migration[]> {
+    const plugin = (await this.getPlugins()).D1Plugin;
+    const storage = this.getPluginStorage("D1Plugin");
+    return plugin.listMigrations(storage, binding);
+  }
+
+  async applyD1Migrations(binding: string): Promise<string[]> {
+    const plugin = (await this.getPlugins()).D1Plugin;
+    const storage = this.getPluginStorage("D1Plugin");
+    return plugin.applyMigrations(storage, binding);
+  }
+
+  async exportD1Database(binding: string): Promise<string> {
+    const plugin = (await this.getPlugins()).D1Plugin;
+    const storage = this.getPluginStorage("D1Plugin");
+    return plugin.exportDatabase(storage, binding);
+  }
+
   async getCaches(): Promise<CacheStorage> {
     const plugin = (await this.getPlugins()).CachePlugin;
     return plugin.getCaches();
@@ -138,7 +207,17 @@ export class Miniflare extends MiniflareCore<Plugins> {
   ): Promise<DurableObjectStorage> {
     const plugin = (await this.getPlugins()).DurableObjectsPlugin;
     const storage = this.getPluginStorage("DurableObjectsPlugin");
-    return plugin.getStorage(storage, id);
+    return plugin.getStorageWithSql(storage, id);
+  }
+
+  async evictDurableObject(id: DurableObjectId): Promise<boolean> {
+    const plugin = (await this.getPlugins()).DurableObjectsPlugin;
+    return plugin.evictObject(id);
+  }
+
+  async evictAllDurableObjects(): Promise<void> {
+    const plugin = (await this.getPlugins()).DurableObjectsPlugin;
+    plugin.evictObjects();
   }
 
   createServer(
@@ -1,4 +1,6 @@
+import fs from "fs/promises";
 import { AddressInfo } from "net";
+import path from "path";
 import { Response } from "@miniflare/core";
 import { Log, LogLevel } from "@miniflare/shared";
 import { interceptConsoleLogs, useTmp } from "@miniflare/shared-test";
@@ -49,6 +51,7 @@ test.serial("Miniflare: dispose: disposes plugins and storage", async (t) => {
   await mf.dispose();
   t.deepEqual(logs, [
     "[mf:vrb] - dispose(DurableObjectsPlugin)",
+    "[mf:vrb] - dispose(QueuesPlugin)",
     "[mf:vrb] - dispose(WebSocketPlugin)",
     "[mf:vrb] - dispose(BindingsPlugin)",
     "[mf:vrb] Disposing storage...",
@@ -67,6 +70,133 @@ test("Miniflare: getKVNamespace: gets KV namespace", async (t) => {
   const res = await mf.dispatchFetch("http://localhost/");
   t.is(await res.text(), "value");
 });
+test("Miniflare: putKVBulk/deleteKVBulk/exportKVBulk: imports and exports KV namespace", async (t) => {
+  const tmp = await useTmp(t);
+  const mf = new Miniflare({
+    script: `export default {
+      fetch: async (request, env) => {
+        const values = await env.TEST_NAMESPACE.get(["key1", "key2"]);
+        return Response.json(Object.fromEntries(values));
+      }
+    }`,
+    modules: true,
+    kvNamespaces: ["TEST_NAMESPACE"],
+  });
+  const putPath = path.join(tmp, "put.json");
+  await fs.writeFile(
+    putPath,
+    JSON.stringify([
+      { key: "key1", value: "value1" },
+      { key: "key2", value: "value2" },
+    ])
+  );
+  t.is(await mf.putKVBulk("TEST_NAMESPACE", putPath), 2);
+  let res = await mf.dispatchFetch("http://localhost/");
+  t.deepEqual(await res.json(), { key1: "value1", key2: "value2" });
+
+  const deletePath = path.join(tmp, "delete.json");
+  await fs.writeFile(deletePath, JSON.stringify(["key1"]));
+  t.is(await mf.deleteKVBulk("TEST_NAMESPACE", deletePath), 1);
+  res = await mf.dispatchFetch("http://localhost/");
+  t.deepEqual(await res.json(), { key1: null, key2: "value2" });
+
+  const exportPath = path.join(tmp, "export.json");
+  t.is(await mf.exportKVBulk("TEST_NAMESPACE", exportPath), 1);
+  t.deepEqual(JSON.parse(await fs.readFile(exportPath, "utf8")), [
+    { key: "key2", value: "value2" },
+  ]);
+});
+test("Miniflare: listD1Migrations/applyD1Migrations: applies migrations to persisted database", async (t) => {
+  const tmp = await useTmp(t);
+  const migrationsDir = path.join(tmp, "migrations");
+  await fs.mkdir(migrationsDir);
+  await fs.writeFile(
+    path.join(migrationsDir, "0001_init.sql"),
+    "CREATE TABLE entries (key TEXT PRIMARY KEY, value TEXT);"
+  );
+  const mf = new Miniflare({
+    script: "//",
+    d1Persist: path.join(tmp, "d1"),
+    d1Migrations: { __D1_BETA__DB: migrationsDir },
+  });
+  let migrations = await mf.listD1Migrations("__D1_BETA__DB");
+  t.deepEqual(migrations, [{ name: "0001_init.sql" }]);
+  t.deepEqual(await mf.applyD1Migrations("__D1_BETA__DB"), ["0001_init.sql"]);
+  migrations = await mf.listD1Migrations("__D1_BETA__DB");
+  t.is(migrations[0].name, "0001_init.sql");
+  t.true(migrations[0].appliedAt instanceof Date);
+  await mf.dispose();
+});
+test("Miniflare: exportD1Database: exports seeded database as SQL", async (t) => {
+  const tmp = await useTmp(t);
+  const seedPath = path.join(tmp, "seed.sql");
+  await fs.writeFile(
+    seedPath,
+    "CREATE TABLE entries (key TEXT PRIMARY KEY, value TEXT);\nINSERT INTO entries VALUES ('key', 'value');"
+  );
+  const mf = new Miniflare({
+    script: "//",
+    d1Databases: ["__D1_BETA__DB"],
+    d1Seed: { __D1_BETA__DB: seedPath },
+  });
+  t.is(
+    await mf.exportD1Database("__D1_BETA__DB"),
+    [
+      "PRAGMA defer_foreign_keys=TRUE;",
+      "CREATE TABLE entries (key TEXT PRIMARY KEY, value TEXT);",
+      `INSERT INTO "entries" VALUES('key','value');`,
+      "",
+    ].join("\n")
+  );
+});
+test("Miniflare: sweepR2Lifecycle: removes expired objects", async (t) => {
+  const mf = new Miniflare({
+    script: "//",
+    r2Buckets: ["BUCKET"],
+    r2Lifecycle: { BUCKET: [{ prefix: "tmp/", deleteAfterDays: 7 }] },
+  });
+  const bucket = await mf.getR2Bucket("BUCKET");
+  await bucket.put("tmp/key", "value");
+  await bucket.put("key", "value");
+  await mf.sweepR2Lifecycle();
+  t.is((await bucket.list()).objects.length, 2);
+  await mf.sweepR2Lifecycle(() => Date.now() + 7 * 86_400_000);
+  const { objects } = await bucket.list();
+  t.deepEqual(
+    objects.map(({ key }) => key),
+    ["key"]
+  );
+});
+test("Miniflare: createR2PresignedUrl: creates URL served by HTTP server", async (t) => {
+  const mf = new Miniflare({
+    script: "//",
+    r2Buckets: ["BUCKET"],
+    globalAsyncIO: true,
+  });
+  const server = await mf.createServer();
+  const port = await new Promise<number>((resolve) => {
+    server.listen(0, () => {
+      t.teardown(() => server.close());
+      resolve((server.address() as AddressInfo).port);
+    });
+  });
+  await mf.setOptions({ port });
+
+  const putUrl = await mf.createR2PresignedUrl("BUCKET", "dir/key", {
+    method: "PUT",
+  });
+  t.true(
+    putUrl.startsWith(`http://localhost:${port}/cdn-cgi/mf/r2/BUCKET/dir/key?`)
+  );
+  let res = await fetch(putUrl, { method: "PUT", body: "value" });
+  t.is(res.status, 200);
+  const bucket = await mf.getR2Bucket("BUCKET");
+  t.is(await (await bucket.get("dir/key"))?.text(), "value");
+
+  res = await fetch(await mf.createR2PresignedUrl("BUCKET", "dir/key"));
+  t.is(res.status, 200);
+  t.is(await res.text(), "value");
+});
 test("Miniflare: getCaches: gets CacheStorage instance", async (t) => {
   const mf = new Miniflare({
     script: `export default {
@@ -134,6 +264,37 @@ test("Miniflare: getDurableObjectStorage: doesn't construct object", async (t) =
   await mf.getDurableObjectStorage(id);
   t.pass();
 });
+test("Miniflare: evictDurableObject: evicts Durable Object instance", async (t) => {
+  const mf = new Miniflare({
+    script: `export class TestObject {
+      constructor(state) {
+        this.storage = state.storage;
+        this.count = 0;
+      }
+      async fetch(request) {
+        const stored = (await this.storage.get("count")) ?? 0;
+        await this.storage.put("count", stored + 1);
+        return new Response(\`\${++this.count}:\${stored + 1}\`);
+      }
+    }`,
+    modules: true,
+    durableObjects: { TEST: "TestObject" },
+  });
+  const ns = await mf.getDurableObjectNamespace("TEST");
+  const id1 = ns.newUniqueId();
+  const id2 = ns.newUniqueId();
+  t.is(await (await ns.get(id1).fetch("http://localhost/")).text(), "1:1");
+  t.is(await (await ns.get(id2).fetch("http://localhost/")).text(), "1:1");
+
+  // Check instance fields reset, but storage retained
+  t.true(await mf.evictDurableObject(id1));
+  t.is(await (await ns.get(id1).fetch("http://localhost/")).text(), "1:2");
+  t.is(await (await ns.get(id2).fetch("http://localhost/")).text(), "2:2");
+
+  await mf.evictAllDurableObjects();
+  t.is(await (await ns.get(id1).fetch("http://localhost/")).text(), "1:3");
+  t.is(await (await ns.get(id2).fetch("http://localhost/")).text(), "1:3");
+});
 test("Miniflare: createServer: creates HTTP server", async (t) => {
   const mf = new Miniflare({
     script: `export default { 
@@ -1,61 +1,227 @@
+import { deserialize, serialize } from "v8";
 import {
   Consumer,
   Log,
   MessageBatch as MessageBatchInterface,
+  MessageBatchSendOptions,
   Message as MessageInterface,
+  MessageRetryOptions,
   MessageSendOptions,
   MessageSendRequest,
   MiniflareError,
+  Mutex,
   QueueBroker as QueueBrokerInterface,
+  QueueConfig,
   Queue as QueueInterface,
+  Storage,
+  StoredValueMeta,
   kGetConsumer,
+  kGetConsumers,
+  kRemoveConsumer,
+  kSetConfig,
   kSetConsumer,
+  kSetStorage,
+  numericCompare,
   prefixError,
+  randomHex,
   structuredCloneImpl,
+  viewToArray,
 } from "@miniflare/shared";
-
-export type QueueErrorCode = "ERR_CONSUMER_ALREADY_SET";
+export type QueueErrorCode =
+  | "ERR_CONSUMER_ALREADY_SET" // Same consumer added to a queue twice
+  | "ERR_NO_CONSUMER" // Dispatched a queue without a push consumer
+  | "ERR_NO_PULL_CONSUMER" // Pulled from a queue without an HTTP pull consumer
+  | "ERR_INVALID_PULL_OPTIONS" // Pulled with an invalid batch size or timeout
+  | "ERR_CONFLICTING_DELIVERY_DELAY"; // Consumers of a queue set different delays
 
 export class QueueError extends MiniflareError<QueueErrorCode> {}
 
+// Maximum delay Cloudflare allows for sending and retrying messages (12 hours)
+export const MAX_DELAY_SECONDS = 43200;
+// Time pulled messages are hidden from other pulls before being redelivered
+export const DEFAULT_VISIBILITY_TIMEOUT_MS = 30_000;
+
+function validateDelaySeconds(delaySeconds?: number): void {
+  if (delaySeconds === undefined) return;
+  if (
+    typeof delaySeconds !== "number" ||
+    Number.isNaN(delaySeconds) ||
+    delaySeconds < 0 ||
+    delaySeconds > MAX_DELAY_SECONDS
+  ) {
+    throw new TypeError(
+      `delaySeconds must be a number between 0 and ${MAX_DELAY_SECONDS}.`
+    );
+  }
+}
+
 const kGetPendingRetry = Symbol("kGetPendingRetry");
+const kGetPendingRetryDelay = Symbol("kGetPendingRetryDelay");
 const kPrepareForRetry = Symbol("kPrepareForRetry");
 const kGetFailedAttempts = Symbol("kGetFailedAttempts");
+const kGetVisibleAt = Symbol("kGetVisibleAt");
+const kBatchAck = Symbol("kBatchAck");
+const kBatchRetry = Symbol("kBatchRetry");
+
+export const kPull = Symbol("kPull");
+export const kAcknowledgeLeases = Symbol("kAcknowledgeLeases");
+export const kGetMessages = Symbol("kGetMessages");
+export const kDispatchPending = Symbol("kDispatchPending");
+
+// Maximum batch size and visibility timeout Cloudflare allows for pulls
+export const MAX_PULL_BATCH_SIZE = 100;
+export const MAX_VISIBILITY_TIMEOUT_MS = 43200_000;
+
+export interface PullOptions {
+  batchSize?: number;
+  visibilityTimeoutMs?: number;
+}
+
+export interface PulledMessage<Body = unknown> {
+  leaseId: string;
+  message: Message<Body>;
+}
+
+export interface LeaseRetry {
+  leaseId: string;
+  delaySeconds?: number;
+}
+
+export interface AcknowledgeResult {
+  ackCount: number;
+  retryCount: number;
+  warnings: string[];
+}
+
+// Snapshot of a message for inspection, `attempts` is the number of times the
+// message has been delivered so far
+export interface QueuedMessage<Body = unknown> {
+  id: string;
+  timestamp: Date;
+  body: Body;
+  attempts: number;
+  visibleAt: Date;
+}
+
+export interface DeadLetteredMessage<Body = unknown>
+  extends QueuedMessage<Body> {
+  // Queue the message was moved to, or undefined if it was dropped
+  deadLetterQueue?: string;
+}
+
+export interface QueueMessages<Body = unknown> {
+  pending: QueuedMessage<Body>[];
+  inFlight: QueuedMessage<Body>[];
+  deadLettered: DeadLetteredMessage<Body>[];
+}
+
+function toQueuedMessage<Body>(
+  msg: Message<Body>,
+  attempts: number
+): QueuedMessage<Body> {
+  return {
+    id: msg.id,
+    timestamp: msg.timestamp,
+    body: msg.body,
+    attempts,
+    visibleAt: new Date(msg[kGetVisibleAt]()),
+  };
+}
+
+interface Lease<Body> {
+  message: Message<Body>;
+  consumer: Consumer;
+  timeout: NodeJS.Timeout;
+}
+
+function isPullConsumer(consumer: Consumer): boolean {
+  return consumer.type === "http_pull";
+}
+
+interface StoredMessageMeta {
+  timestamp: number;
+  visibleAt: number;
+  failedAttempts: number;
+}
+
+// Message IDs have the form `<queueName>-<sequence>`
+function getMessageSequence(id: string): number {
+  return parseInt(id.substring(id.lastIndexOf("-") + 1));
+}
+
+type MessageAction = { type: "ack" } | { type: "retry"; delaySeconds?: number };
 
 export class Message<Body = unknown> implements MessageInterface<Body> {
   readonly body: Body;
   readonly #log?: Log;
 
-  // Internal state for tracking retries
-  // Eventually, this will need to be moved or modified to support
-  // multiple consumers on a single queue.
-  #pendingRetry: boolean;
+  // Internal state for tracking acknowledgements and retries. Calls on a
+  // message take precedence over calls on its batch, and in both cases, the
+  // first call wins. Messages without an action are acknowledged once
+  // delivered.
+  #action?: MessageAction;
+  #batchAction?: MessageAction;
   #failedAttempts: number;
+  // Time in milliseconds since the epoch this message can be delivered at
+  #visibleAt: number;
 
   constructor(
     readonly id: string,
     readonly timestamp: Date,
     body: Body,
-    log?: Log
+    log?: Log,
+    visibleAt = timestamp.getTime(),
+    failedAttempts = 0
   ) {
     this.body = (globalThis.structuredClone ?? structuredCloneImpl)(body);
     this.#log = log;
 
-    this.#pendingRetry = false;
-    this.#failedAttempts = 0;
+    this.#failedAttempts = failedAttempts;
+    this.#visibleAt = visibleAt;
+  }
+
+  get attempts(): number {
+    return this.#failedAttempts + 1;
+  }
+
+  ack(): void {
+    this.#action ??= { type: "ack" };
   }
 
-  retry(): void {
-    this.#pendingRetry = true;
+  retry(options?: MessageRetryOptions): void {
+    validateDelaySeconds(options?.delaySeconds);
+    this.#action ??= { type: "retry", delaySeconds: options?.delaySeconds };
   }
 
-  [kPrepareForRetry]() {
-    this.#pendingRetry = false;
+  [kBatchAck](): void {
+    this.#batchAction ??= { type: "ack" };
+  }
+
+  [kBatchRetry](options?: MessageRetryOptions): void {
+    this.#batchAction ??= {
+      type: "retry",
+      delaySeconds: options?.delaySeconds,
+    };
+  }
+
+  [kPrepareForRetry](visibleAt: number) {
+    this.#action = undefined;
+    this.#batchAction = undefined;
     this.#failedAttempts++;
+    this.#visibleAt = visibleAt;
   }
 
   [kGetPendingRetry](): boolean {
-    return this.#pendingRetry;
+    return (this.#action ?? this.#batchAction)?.type === "retry";
+  }
+
+  [kGetPendingRetryDelay](): number | undefined {
+    const action = this.#action ?? this.#batchAction;
+    return action?.type === "retry" ? action.delaySeconds : undefined;
+  }
+
+  [kGetVisibleAt](): number {
+    return this.#visibleAt;
   }
 
   [kGetFailedAttempts](): number {
@@ -74,9 +240,16 @@ export class MessageBatch<Body = unknown>
     this.messages = messages;
   }
 
-  retryAll(): void {
+  ackAll(): void {
     for (const msg of this.messages) {
-      msg.retry();
+      msg[kBatchAck]();
+    }
+  }
+
+  retryAll(options?: MessageRetryOptions): void {
+    validateDelaySeconds(options?.delaySeconds);
+    for (const msg of this.messages) {
+      msg[kBatchRetry](options);
     }
   }
 }
@@ -88,18 +261,35 @@ enum FlushType {
 }
 
 export const kSetFlushCallback = Symbol("kSetFlushCallback");
+export const kGetConfig = Symbol("kGetConfig");
 
 export class WorkerQueue<Body = unknown> implements QueueInterface<Body> {
   readonly #broker: QueueBroker;
   readonly #queueName: string;
   readonly #log?: Log;
 
-  #consumer?: Consumer;
+  // Push consumers receive batches in turn, pull consumers lease messages
+  // when they pull
+  readonly #consumers: Consumer[] = [];
+  #nextConsumer = 0;
+  #config: QueueConfig = {};
+  #storage?: Storage;
+  // Ensures writes to storage are applied in the order they were made
+  readonly #storageMutex = new Mutex();
+  // Messages currently being delivered to a consumer, keyed by ID
+  readonly #inFlight = new Map<string, Message<Body>>();
+  // Messages leased by pull consumers, keyed by lease ID
+  readonly #leases = new Map<string, Lease<Body>>();
+  // Messages that exhausted their retries, for inspection
+  readonly #deadLettered: DeadLetteredMessage<Body>[] = [];
 
   #messages: Message<Body>[];
   #messageCounter: number;
   #pendingFlush: FlushType;
   #timeout?: NodeJS.Timeout;
+  // Timeout for waking up when the next delayed message becomes visible
+  #delayTimeout?: NodeJS.Timeout;
+  #delayVisibleAt?: number;
 
   // A callback to run after a flush() has been executed: useful for testing.
   #flushCallback?: () => void;
@@ -115,59 +305,218 @@ export class WorkerQueue<Body = unknown> implements QueueInterface<Body> {
   }
 
   async send(body: Body, options?: MessageSendOptions): Promise<void> {
-    this.#enqueue(body, options);
+    validateDelaySeconds(options?.delaySeconds);
+    await this.#putMessages([this.#enqueue(body, options?.delaySeconds)]);
   }
 
-  async sendBatch(batch: Iterable<MessageSendRequest<Body>>): Promise<void> {
-    for (const req of batch) {
-      this.#enqueue(req.body, req);
-    }
+  async sendBatch(
+    batch: Iterable<MessageSendRequest<Body>>,
+    options?: MessageBatchSendOptions
+  ): Promise<void> {
+    // Validate all messages before enqueuing any, so we never partially send
+    // a batch
+    const reqs = Array.from(batch);
+    validateDelaySeconds(options?.delaySeconds);
+    for (const req of reqs) validateDelaySeconds(req.delaySeconds);
+    const msgs = reqs.map((req) =>
+      this.#enqueue(req.body, req.delaySeconds ?? options?.delaySeconds)
+    );
+    await this.#putMessages(msgs);
   }
 
   [kSetConsumer](consumer: Consumer) {
-    // only allow one subscription per queue (for now)
-    if (this.#consumer) {
+    if (this.#consumers.includes(consumer)) {
       throw new QueueError("ERR_CONSUMER_ALREADY_SET");
     }
 
-    this.#consumer = consumer;
+    this.#consumers.push(consumer);
     if (this.#messages.length) {
       this.#ensurePendingFlush();
     }
   }
 
+  [kRemoveConsumer](consumer: Consumer) {
+    const index = this.#consumers.indexOf(consumer);
+    if (index !== -1) this.#consumers.splice(index, 1);
+  }
+
   [kGetConsumer](): Consumer | null {
-    return this.#consumer ?? null;
+    return this.#consumers[0] ?? null;
   }
 
-  #enqueue(body: Body, _options?: MessageSendOptions): void {
+  [kGetConsumers](): Consumer[] {
+    return [...this.#consumers];
+  }
+
+  // Returns the push consumer that should receive the next batch, if any
+  #getPushConsumer(): Consumer | undefined {
+    const consumers = this.#consumers.filter((c) => !isPullConsumer(c));
+    if (consumers.length === 0) return;
+    return consumers[this.#nextConsumer % consumers.length];
+  }
+
+  [kSetConfig](config: QueueConfig): void {
+    this.#config = config;
+  }
+
+  [kGetConfig](): QueueConfig {
+    return this.#config;
+  }
+
+  async [kSetStorage](storage: Storage): Promise<void> {
+    this.#storage = storage;
+
+    // Restore persisted messages we don't already know about. Messages that
+    // were in-flight when Miniflare last stopped are still in storage, so will
+    // be redelivered.
+    const known = new Set(this.#messages.map(({ id }) => id));
+    for (const id of this.#inFlight.keys()) known.add(id);
+    const { keys } = await storage.list<StoredMessageMeta>();
+    const restoreKeys = keys.filter(({ name }) => !known.has(name));
+    const values = await storage.getMany(
+      restoreKeys.map(({ name }) => name),
+      true
+    );
+    const restored: Message<Body>[] = [];
+    for (let i = 0; i < restoreKeys.length; i++) {
+      const { name, metadata } = restoreKeys[i];
+      const value = values[i];
+      if (value === undefined || metadata === undefined) continue;
+      restored.push(
+        new Message<Body>(
+          name,
+          new Date(metadata.timestamp),
+          deserialize(value.value),
+          this.#log,
+          metadata.visibleAt,
+          metadata.failedAttempts
+        )
+      );
+      const sequence = getMessageSequence(name);
+      if (sequence >= this.#messageCounter) {
+        this.#messageCounter = sequence + 1;
+      }
+    }
+    restored.sort((a, b) => numericCompare(a.id, b.id));
+
+    // Persist any in-memory messages this storage doesn't have yet
+    const stored = new Set(keys.map(({ name }) => name));
+    await this.#putMessages(this.#messages.filter(({ id }) => !stored.has(id)));
+
+    if (restored.length) {
+      this.#log?.debug(
+        `Restored ${restored.length} message(s) for queue "${
+          this.#queueName
+        }"...`
+      );
+      this.#messages = [...restored, ...this.#messages];
+      this.#ensurePendingFlush();
+    }
+  }
+
+  #putMessages(msgs: Message<Body>[]): Promise<void> {
+    const storage = this.#storage;
+    if (storage === undefined || msgs.length === 0) return Promise.resolve();
+    const data = msgs.map(
+      (msg): [string, StoredValueMeta<StoredMessageMeta>] => [
+        msg.id,
+        {
+          value: viewToArray(serialize(msg.body)),
+          metadata: {
+            timestamp: msg.timestamp.getTime(),
+            visibleAt: msg[kGetVisibleAt](),
+            failedAttempts: msg[kGetFailedAttempts](),
+          },
+        },
+      ]
+    );
+    return this.#storageMutex.runWith(() => storage.putMany(data));
+  }
+
+  async #deleteMessages(msgs: Message<Body>[]): Promise<void> {
+    const storage = this.#storage;
+    if (storage === undefined || msgs.length === 0) return;
+    const ids = msgs.map(({ id }) => id);
+    await this.#storageMutex.runWith(() => storage.deleteMany(ids));
+  }
+
+  #enqueue(body: Body, delaySeconds?: number): Message<Body> {
+    const delay = delaySeconds ?? this.#config.deliveryDelay ?? 0;
+    const now = Date.now();
     const msg = new Message<Body>(
       `${this.#queueName}-${this.#messageCounter}`,
-      new Date(),
+      new Date(now),
       body,
-      this.#log
+      this.#log,
+      now + delay * 1000
     );
 
     this.#messages.push(msg);
     this.#messageCounter++;
-    if (this.#consumer) {
-      this.#ensurePendingFlush();
+    this.#ensurePendingFlush();
+    return msg;
+  }
+
+  #countVisible(now: number): number {
+    let count = 0;
+    for (const msg of this.#messages) {
+      if (msg[kGetVisibleAt]() <= now) count++;
     }
+    return count;
+  }
+
+  #ensureDelayedWakeup(now: number) {
+    // Find the time the next delayed message becomes visible at, if any
+    let nextVisibleAt = Infinity;
+    for (const msg of this.#messages) {
+      const visibleAt = msg[kGetVisibleAt]();
+      if (visibleAt > now && visibleAt < nextVisibleAt) {
+        nextVisibleAt = visibleAt;
+      }
+    }
+
+    if (nextVisibleAt === Infinity) {
+      clearTimeout(this.#delayTimeout);
+      this.#delayTimeout = undefined;
+      this.#delayVisibleAt = undefined;
+      return;
+    }
+
+    // Nothing to do if we're already going to wake up at the right time
+    if (this.#delayTimeout && this.#delayVisibleAt === nextVisibleAt) {
+      return;
+    }
+
+    clearTimeout(this.#delayTimeout);
+    this.#delayVisibleAt = nextVisibleAt;
+    this.#delayTimeout = setTimeout(() => {
+      this.#delayTimeout = undefined;
+      this.#delayVisibleAt = undefined;
+      this.#ensurePendingFlush();
+    }, nextVisibleAt - now);
   }
 
   #ensurePendingFlush() {
-    if (!this.#consumer) {
+    const consumer = this.#getPushConsumer();
+    if (!consumer) {
       return;
     }
 
+    // Make sure we check again once delayed messages become visible
+    const now = Date.now();
+    this.#ensureDelayedWakeup(now);
+
     // Nothing to do if there is already an immediate flush pending
     if (this.#pendingFlush === FlushType.IMMEDIATE) {
       return;
     }
 
+    // Only messages that are visible can be included in a batch
+    const visible = this.#countVisible(now);
+
     if (this.#pendingFlush === FlushType.DELAYED) {
       // Nothing to do if there is already a delayed flush pending and there is no full batch
-      if (this.#messages.length < this.#consumer?.maxBatchSize) {
+      if (visible < consumer.maxBatchSize) {
         return;
       }
 
@@ -176,18 +525,24 @@ export class WorkerQueue<Body = unknown> implements QueueInterface<Body> {
       this.#timeout = undefined;
     }
 
+    // If all messages are delayed, wait until one becomes visible
+    if (visible === 0) {
+      return;
+    }
+
     // Register a new flush timeout with the appropriate delay
     const newFlushType =
-      this.#messages.length < this.#consumer.maxBatchSize
-        ? FlushType.DELAYED
-        : FlushType.IMMEDIATE;
+      visible < consumer.maxBatchSize ? FlushType.DELAYED : FlushType.IMMEDIATE;
     this.#pendingFlush = newFlushType;
 
-    const delay =
-      newFlushType === FlushType.DELAYED ? this.#consumer?.maxWaitMs : 0;
+    const delay = newFlushType === FlushType.DELAYED ? consumer.maxWaitMs : 0;
 
-    this.#timeout = setTimeout(() => {
-      this.#flush();
+    this.#timeout = setTimeout(async () => {
+      try {
+        await this.#flush();
+      } catch (e: any) {
+        this.#log?.error(prefixError(`${this.#queueName} Queue`, e));
+      }
       if (this.#flushCallback) {
         this.#flushCallback();
       }
@@ -195,36 +550,73 @@ export class WorkerQueue<Body = unknown> implements QueueInterface<Body> {
   }
 
   async #flush() {
-    if (!this.#consumer) {
+    const consumer = this.#getPushConsumer();
+    if (!consumer) {
+      this.#pendingFlush = FlushType.NONE;
+      this.#timeout = undefined;
       return;
     }
-    const maxAttempts = this.#consumer.maxRetries + 1;
-    const deadLetterQueueName = this.#consumer.deadLetterQueue;
+    this.#nextConsumer++;
 
     // Create a batch and execute the queue event handler, making sure to send
-    // no more than maxBatchSize messages at a time.
-    const msgs = this.#messages.slice(0, this.#consumer.maxBatchSize);
+    // no more than maxBatchSize visible messages at a time.
+    const msgs = this.#takeVisible(consumer.maxBatchSize);
     const batch = new MessageBatch<Body>(this.#queueName, msgs);
-    this.#messages = this.#messages.slice(msgs.length);
-    try {
-      await this.#consumer?.dispatcher(batch);
-    } catch (err) {
-      this.#log?.error(prefixError(`${this.#queueName} Consumer`, err));
-      batch.retryAll();
+    if (msgs.length > 0) {
+      for (const msg of msgs) this.#inFlight.set(msg.id, msg);
+      try {
+        await consumer.dispatcher(batch);
+      } catch (err) {
+        // Retry all messages that haven't been explicitly acknowledged
+        this.#log?.error(prefixError(`${this.#queueName} Consumer`, err));
+        batch.retryAll();
+      } finally {
+        for (const msg of msgs) this.#inFlight.delete(msg.id);
+      }
     }
 
     // Reset state and check for any messages to retry
     this.#pendingFlush = FlushType.NONE;
     this.#timeout = undefined;
 
+    await this.#settle(batch.messages, consumer);
+  }
+
+  // Removes and returns up to `limit` messages that are visible now
+  #takeVisible(limit: number): Message<Body>[] {
+    const now = Date.now();
+    const msgs: Message<Body>[] = [];
+    const remaining: Message<Body>[] = [];
+    for (const msg of this.#messages) {
+      if (msgs.length < limit && msg[kGetVisibleAt]() <= now) {
+        msgs.push(msg);
+      } else {
+        remaining.push(msg);
+      }
+    }
+    this.#messages = remaining;
+    return msgs;
+  }
+
+  // Retries, dead-letters or removes delivered messages depending on whether
+  // they were acknowledged
+  async #settle(msgs: Message<Body>[], consumer: Consumer) {
+    const maxAttempts = consumer.maxRetries + 1;
+    const deadLetterQueueName = consumer.deadLetterQueue;
+
     const toRetry: Message<Body>[] = [];
     const toDLQ: Message<Body>[] = [];
-    batch.messages.forEach((msg) => {
+    const toDelete: Message<Body>[] = [];
+    const retryAt = Date.now();
+    msgs.forEach((msg) => {
       if (!msg[kGetPendingRetry]()) {
+        toDelete.push(msg);
         return;
       }
 
-      msg[kPrepareForRetry]();
+      const delaySeconds =
+        msg[kGetPendingRetryDelay]() ?? consumer.retryDelay ?? 0;
+      msg[kPrepareForRetry](retryAt + delaySeconds * 1000);
       if (msg[kGetFailedAttempts]() < maxAttempts) {
         this.#log?.debug(`Retrying message "${msg.id}"...`);
         toRetry.push(msg);
@@ -233,10 +625,19 @@ export class WorkerQueue<Body = unknown> implements QueueInterface<Body> {
           `Moving message "${msg.id}" to dead letter queue "${deadLetterQueueName}"...`
         );
         toDLQ.push(msg);
+        toDelete.push(msg);
+        this.#deadLettered.push({
+          ...toQueuedMessage(msg, msg[kGetFailedAttempts]()),
+          deadLetterQueue: deadLetterQueueName,
+        });
       } else {
         this.#log?.warn(
           `Dropped message "${msg.id}" after ${maxAttempts} failed attempts!`
         );
+        toDelete.push(msg);
+        this.#deadLettered.push(
+          toQueuedMessage(msg, msg[kGetFailedAttempts]())
+        );
       }
     });
 
@@ -248,12 +649,140 @@ export class WorkerQueue<Body = unknown> implements QueueInterface<Body> {
       this.#ensurePendingFlush();
     }
 
+    // Record delivered messages and updated attempt counts in storage
+    await this.#putMessages(toRetry);
+    await this.#deleteMessages(toDelete);
+
     if (deadLetterQueueName) {
       const deadLetterQueue =
         this.#broker.getOrCreateQueue(deadLetterQueueName);
-      toDLQ.forEach((msg) => {
-        deadLetterQueue.send(msg.body);
-      });
+      await Promise.all(toDLQ.map((msg) => deadLetterQueue.send(msg.body)));
+    }
+  }
+
+  [kPull](options?: PullOptions): PulledMessage<Body>[] {
+    const consumer = this.#consumers.find(isPullConsumer);
+    if (consumer === undefined) {
+      throw new QueueError(
+        "ERR_NO_PULL_CONSUMER",
+        `Queue "${this.#queueName}" does not have an HTTP pull consumer`
+      );
+    }
+    const batchSize = options?.batchSize ?? consumer.maxBatchSize;
+    const visibilityTimeoutMs =
+      options?.visibilityTimeoutMs ??
+      consumer.visibilityTimeoutMs ??
+      DEFAULT_VISIBILITY_TIMEOUT_MS;
+    if (
+      !Number.isInteger(batchSize) ||
+      batchSize < 1 ||
+      batchSize > MAX_PULL_BATCH_SIZE
+    ) {
+      throw new QueueError(
+        "ERR_INVALID_PULL_OPTIONS",
+        `Batch size must be an integer between 1 and ${MAX_PULL_BATCH_SIZE}`
+      );
+    }
+    if (
+      !Number.isInteger(visibilityTimeoutMs) ||
+      visibilityTimeoutMs < 0 ||
+      visibilityTimeoutMs > MAX_VISIBILITY_TIMEOUT_MS
+    ) {
+      throw new QueueError(
+        "ERR_INVALID_PULL_OPTIONS",
+        `Visibility timeout must be an integer between 0 and ${MAX_VISIBILITY_TIMEOUT_MS}ms`
+      );
+    }
+
+    return this.#takeVisible(batchSize).map((message) => {
+      const leaseId = randomHex(32);
+      this.#inFlight.set(message.id, message);
+      // If the message isn't acknowledged before the visibility timeout
+      // expires, make it available for redelivery
+      const timeout = setTimeout(() => {
+        this.#log?.debug(`Lease for message "${message.id}" expired...`);
+        this.#releaseLease(leaseId)?.catch((e) =>
+          this.#log?.error(prefixError(`${this.#queueName} Queue`, e))
+        );
+      }, visibilityTimeoutMs);
+      this.#leases.set(leaseId, { message, consumer, timeout });
+      return { leaseId, message };
+    });
+  }
+
+  // Ends a lease, retrying its message unless it was acknowledged
+  #releaseLease(leaseId: string, ack = false): Promise<void> | undefined {
+    const lease = this.#leases.get(leaseId);
+    if (lease === undefined) return;
+    this.#leases.delete(leaseId);
+    clearTimeout(lease.timeout);
+    this.#inFlight.delete(lease.message.id);
+    if (ack) lease.message.ack();
+    else lease.message.retry();
+    return this.#settle([lease.message], lease.consumer);
+  }
+
+  async [kAcknowledgeLeases](
+    acks: string[],
+    retries: LeaseRetry[]
+  ): Promise<AcknowledgeResult> {
+    const result: AcknowledgeResult = {
+      ackCount: 0,
+      retryCount: 0,
+      warnings: [],
+    };
+    for (const { delaySeconds } of retries) validateDelaySeconds(delaySeconds);
+    for (const leaseId of acks) {
+      const promise = this.#releaseLease(leaseId, /* ack */ true);
+      if (promise === undefined) {
+        result.warnings.push(`Unknown lease ID "${leaseId}"`);
+      } else {
+        await promise;
+        result.ackCount++;
+      }
+    }
+    for (const { leaseId, delaySeconds } of retries) {
+      const lease = this.#leases.get(leaseId);
+      if (lease === undefined) {
+        result.warnings.push(`Unknown lease ID "${leaseId}"`);
+        continue;
+      }
+      lease.message.retry({ delaySeconds });
+      await this.#releaseLease(leaseId);
+      result.retryCount++;
+    }
+    return result;
+  }
+
+  [kGetMessages](): QueueMessages<Body> {
+    return {
+      pending: this.#messages.map((msg) =>
+        toQueuedMessage(msg, msg[kGetFailedAttempts]())
+      ),
+      inFlight: Array.from(this.#inFlight.values()).map((msg) =>
+        toQueuedMessage(msg, msg.attempts)
+      ),
+      deadLettered: [...this.#deadLettered],
+    };
+  }
+
+  // Sends `requests`, then delivers all visible messages to push consumers
+  // now, instead of waiting for the next flush. Messages retried without a
+  // delay are redelivered before this resolves.
+  async [kDispatchPending](
+    requests: MessageSendRequest<Body>[] = []
+  ): Promise<void> {
+    if (this.#getPushConsumer() === undefined) {
+      throw new QueueError(
+        "ERR_NO_CONSUMER",
+        `Queue "${this.#queueName}" does not have a consumer`
+      );
+    }
+    // Only enqueue messages once we know they can be delivered
+    if (requests.length > 0) await this.sendBatch(requests);
+    while (this.#countVisible(Date.now()) > 0) {
+      clearTimeout(this.#timeout);
+      await this.#flush();
     }
   }
 
@@ -282,4 +811,16 @@ export class QueueBroker implements QueueBrokerInterface {
   setConsumer(queue: WorkerQueue, consumer: Consumer) {
     queue[kSetConsumer](consumer);
   }
+
+  removeConsumer(queue: WorkerQueue, consumer: Consumer) {
+    queue[kRemoveConsumer](consumer);
+  }
+
+  setStorage(queue: WorkerQueue, storage: Storage): Promise<void> {
+    return queue[kSetStorage](storage);
+  }
+
+  setConfig(queue: WorkerQueue, config: QueueConfig): void {
+    queue[kSetConfig](config);
+  }
 }
@@ -0,0 +1,180 @@
+import { serialize } from "v8";
+import {
+  LeaseRetry,
+  MAX_DELAY_SECONDS,
+  QueueBroker,
+  QueueError,
+  WorkerQueue,
+  kAcknowledgeLeases,
+  kPull,
+} from "./broker";
+
+// Local equivalent of Cloudflare's HTTP pull consumer API, served by the HTTP
+// server under /cdn-cgi/mf/queues/<queue>/messages/(pull|ack)
+export const HTTP_PULL_PATH_REGEXP =
+  /^\/cdn-cgi\/mf\/queues\/([^/]+)\/messages\/(pull|ack)$/;
+
+export type PulledContentType = "text" | "bytes" | "json" | "v8";
+
+export interface HTTPPullResponse {
+  status: number;
+  body: {
+    success: boolean;
+    errors: { code: string; message: string }[];
+    messages: string[];
+    result: unknown;
+  };
+}
+
+// Encodes a message body as a string, using the same content types as
+// Cloudflare: binary data is base64 encoded, and values that can't be
+// represented as JSON are returned as base64 encoded V8 serialised values.
+export function encodePulledBody(body: unknown): {
+  body: string;
+  contentType: PulledContentType;
+} {
+  if (typeof body === "string") return { body, contentType: "text" };
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    const view = ArrayBuffer.isView(body)
+      ? Buffer.from(body.buffer, body.byteOffset, body.byteLength)
+      : Buffer.from(body);
+    return { body: view.toString("base64"), contentType: "bytes" };
+  }
+  try {
+    const json = JSON.stringify(body);
+    if (json !== undefined) return { body: json, contentType: "json" };
+  } catch {
+    // Fallthrough to V8 serialisation, e.g. for values containing BigInts
+  }
+  return { body: serialize(body).toString("base64"), contentType: "v8" };
+}
+
+function success(result: unknown): HTTPPullResponse {
+  return {
+    status: 200,
+    body: { success: true, errors: [], messages: [], result },
+  };
+}
+
+function failure(code: string, message: string): HTTPPullResponse {
+  return {
+    status: 400,
+    body: {
+      success: false,
+      errors: [{ code, message }],
+      messages: [],
+      result: null,
+    },
+  };
+}
+
+type RequestBody = Record<string, unknown>;
+
+interface LeaseEntry {
+  lease_id: string;
+  delay_seconds?: unknown;
+}
+
+function isRequestBody(value: unknown): value is RequestBody {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isOptionalNumber(value: unknown): value is number | undefined {
+  return value === undefined || typeof value === "number";
+}
+
+function isLeaseEntries(value: unknown): value is LeaseEntry[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (entry) => isRequestBody(entry) && typeof entry.lease_id === "string"
+    )
+  );
+}
+
+function isDelaySeconds(value: unknown): value is number | undefined {
+  return (
+    value === undefined ||
+    (typeof value === "number" && value >= 0 && value <= MAX_DELAY_SECONDS)
+  );
+}
+
+function handlePull(queue: WorkerQueue, body: RequestBody): HTTPPullResponse {
+  const { batch_size, visibility_timeout_ms } = body;
+  if (
+    !isOptionalNumber(batch_size) ||
+    !isOptionalNumber(visibility_timeout_ms)
+  ) {
+    return failure(
+      "ERR_INVALID_BODY",
+      "batch_size and visibility_timeout_ms must be numbers"
+    );
+  }
+  const pulled = queue[kPull]({
+    batchSize: batch_size,
+    visibilityTimeoutMs: visibility_timeout_ms,
+  });
+  const messages = pulled.map(({ leaseId, message }) => {
+    const { body, contentType } = encodePulledBody(message.body);
+    return {
+      id: message.id,
+      lease_id: leaseId,
+      body,
+      timestamp_ms: message.timestamp.getTime(),
+      attempts: message.attempts,
+      metadata: { "CF-Content-Type": contentType },
+    };
+  });
+  return success({ messages });
+}
+
+async function handleAck(
+  queue: WorkerQueue,
+  body: RequestBody
+): Promise<HTTPPullResponse> {
+  const { acks = [], retries = [] } = body;
+  if (!isLeaseEntries(acks) || !isLeaseEntries(retries)) {
+    return failure(
+      "ERR_INVALID_BODY",
+      "acks and retries must be arrays of objects with string lease_id properties"
+    );
+  }
+  const leaseRetries: LeaseRetry[] = [];
+  for (const { lease_id, delay_seconds } of retries) {
+    if (!isDelaySeconds(delay_seconds)) {
+      return failure(
+        "ERR_INVALID_DELAY",
+        `delay_seconds must be a number between 0 and ${MAX_DELAY_SECONDS}`
+      );
+    }
+    leaseRetries.push({ leaseId: lease_id, delaySeconds: delay_seconds });
+  }
+  const leaseAcks = acks.map(({ lease_id }) => lease_id);
+  return success(await queue[kAcknowledgeLeases](leaseAcks, leaseRetries));
+}
+
+export async function handleHTTPPull(
+  broker: QueueBroker,
+  queueName: string,
+  action: "pull" | "ack",
+  text: string
+): Promise<HTTPPullResponse> {
+  let body: unknown;
+  try {
+    body = text === "" ? {} : JSON.parse(text);
+  } catch {
+    return failure("ERR_INVALID_BODY", "Request body must be valid JSON");
+  }
+  if (!isRequestBody(body)) {
+    return failure("ERR_INVALID_BODY", "Request body must be a JSON object");
+  }
+
+  const queue = broker.getOrCreateQueue(queueName);
+  try {
+    if (action === "pull") return handlePull(queue, body);
+    return await handleAck(queue, body);
+  } catch (e) {
+    if (e instanceof QueueError) return failure(e.code, e.message);
+    throw e;
+  }
+}
@@ -1,2 +1,3 @@
 export * from "./plugin";
 export * from "./broker";
+export * from "./http";
@@ -1,13 +1,17 @@
 import {
-  Consumer as Consumer,
+  Consumer,
+  ConsumerType,
   Context,
   Option,
   OptionType,
   Plugin,
   PluginContext,
+  Queue,
   SetupResult,
   StorageFactory,
+  resolveStoragePersist,
 } from "@miniflare/shared";
+import { DEFAULT_VISIBILITY_TIMEOUT_MS, QueueError } from "./broker";
 
 export const DEFAULT_BATCH_SIZE = 5;
 export const DEFAULT_WAIT_MS = 1000;
@@ -20,15 +24,20 @@ export interface BindingOptions {
 
 export interface ConsumerOptions {
   queueName: string;
+  type?: ConsumerType;
   maxBatchSize?: number;
   maxWaitMs?: number;
   maxRetries?: number;
   deadLetterQueue?: string;
+  deliveryDelay?: number;
+  retryDelay?: number;
+  visibilityTimeoutMs?: number;
 }
 
 export interface QueuesOptions {
   queueBindings?: BindingOptions[];
   queueConsumers?: (string | ConsumerOptions)[];
+  queuesPersist?: boolean | string;
 }
 
 export class QueuesPlugin
@@ -77,14 +86,41 @@ export class QueuesPlugin
         if (opts.dead_letter_queue) {
           result.deadLetterQueue = opts.dead_letter_queue;
         }
+        if (opts.delivery_delay) {
+          result.deliveryDelay = opts.delivery_delay;
+        }
+        if (opts.retry_delay) {
+          result.retryDelay = opts.retry_delay;
+        }
+        if (opts.type) {
+          result.type = opts.type;
+        }
+        if (opts.visibility_timeout_ms) {
+          result.visibilityTimeoutMs = opts.visibility_timeout_ms;
+        }
         return result;
       }),
   })
   queueConsumers?: (string | ConsumerOptions)[];
 
+  @Option({
+    type: OptionType.BOOLEAN_STRING,
+    description: "Persist queue messages (to optional path)",
+    logName: "Queues Persistence",
+    fromWrangler: ({ miniflare }) => miniflare?.queues_persist,
+  })
+  queuesPersist?: boolean | string;
+  readonly #persist?: boolean | string;
+  // Consumers added by setup(), removed when this plugin is disposed so other
+  // instances (e.g. after reloading or in other mounts) can add their own
+  #consumers: [queue: Queue, consumer: Consumer][] = [];
+  // Queues configured by setup(), reset along with consumers
+  #configuredQueues: Queue[] = [];
+
   constructor(ctx: PluginContext, options?: QueuesOptions) {
     super(ctx);
     this.assignOptions(options);
+    this.#persist = resolveStoragePersist(ctx.rootPath, this.queuesPersist);
     if (options?.queueBindings?.length || options?.queueConsumers?.length) {
       ctx.log.warn(
         "Queues are experimental. There may be breaking changes in the future."
@@ -92,28 +128,76 @@ export class QueuesPlugin
     }
   }
 
-  async setup(_storageFactory: StorageFactory): Promise<SetupResult> {
-    for (const entry of this.queueConsumers ?? []) {
-      let opts: ConsumerOptions;
-      if (typeof entry === "string") {
-        opts = {
-          queueName: entry,
-        };
-      } else {
-        opts = entry;
+  #removeConsumers(): void {
+    for (const [queue, consumer] of this.#consumers) {
+      this.ctx.queueBroker.removeConsumer(queue, consumer);
+    }
+    this.#consumers = [];
+    for (const queue of this.#configuredQueues) {
+      this.ctx.queueBroker.setConfig(queue, {});
+    }
+    this.#configuredQueues = [];
+  }
+
+  async setup(storageFactory: StorageFactory): Promise<SetupResult> {
+    this.#removeConsumers();
+    const consumerOptions = (this.queueConsumers ?? []).map((entry) =>
+      typeof entry === "string" ? { queueName: entry } : entry
+    );
+
+    // Delivery delays apply to all messages sent to a queue, whether or not it
+    // has consumers yet, so consumers of the same queue must agree on them
+    const deliveryDelays = new Map<string, number>();
+    for (const { queueName, deliveryDelay } of consumerOptions) {
+      if (deliveryDelay === undefined) continue;
+      const existing = deliveryDelays.get(queueName);
+      if (existing !== undefined && existing !== deliveryDelay) {
+        throw new QueueError(
+          "ERR_CONFLICTING_DELIVERY_DELAY",
+          `Consumers of queue "${queueName}" have different delivery delays (${existing}s and ${deliveryDelay}s)`
+        );
       }
+      deliveryDelays.set(queueName, deliveryDelay);
+    }
+    for (const [queueName, deliveryDelay] of deliveryDelays) {
+      const queue = this.ctx.queueBroker.getOrCreateQueue(queueName);
+      this.ctx.queueBroker.setConfig(queue, { deliveryDelay });
+      this.#configuredQueues.push(queue);
+    }
+
+    // Restore persisted messages for all queues we know about before adding
+    // consumers, so they're delivered once consumers are ready
+    const queueNames = new Set<string>();
+    for (const binding of this.queueBindings ?? []) {
+      queueNames.add(binding.queueName);
+    }
+    for (const opts of consumerOptions) {
+      queueNames.add(opts.queueName);
+      if (opts.deadLetterQueue) queueNames.add(opts.deadLetterQueue);
+    }
+    for (const queueName of queueNames) {
+      const queue = this.ctx.queueBroker.getOrCreateQueue(queueName);
+      const storage = storageFactory.storage(queueName, this.#persist);
+      await this.ctx.queueBroker.setStorage(queue, storage);
+    }
 
+    for (const opts of consumerOptions) {
       const consumer: Consumer = {
         queueName: opts.queueName,
+        type: opts.type ?? "worker",
         maxBatchSize: opts.maxBatchSize ?? DEFAULT_BATCH_SIZE,
         maxWaitMs: opts.maxWaitMs ?? DEFAULT_WAIT_MS,
         maxRetries: opts.maxRetries ?? DEFAULT_RETRIES,
         deadLetterQueue: opts.deadLetterQueue,
+        retryDelay: opts.retryDelay,
+        visibilityTimeoutMs:
+          opts.visibilityTimeoutMs ?? DEFAULT_VISIBILITY_TIMEOUT_MS,
         dispatcher: this.ctx.queueEventDispatcher,
       };
 
       const queue = this.ctx.queueBroker.getOrCreateQueue(opts.queueName);
       this.ctx.queueBroker.setConsumer(queue, consumer);
+      this.#consumers.push([queue, consumer]);
     }
 
     const bindings: Context = {};
@@ -124,4 +208,8 @@ export class QueuesPlugin
     }
     return { bindings };
   }
+
+  dispose(): void {
+    this.#removeConsumers();
+  }
 }
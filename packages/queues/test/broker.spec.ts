@@ -1,8 +1,22 @@
-import { QueueBroker, kSetFlushCallback } from "@miniflare/queues";
+import { setTimeout } from "timers/promises";
+import {
+  MAX_DELAY_SECONDS,
+  Message,
+  QueueBroker,
+  QueueError,
+  WorkerQueue,
+  kAcknowledgeLeases,
+  kDispatchPending,
+  kGetMessages,
+  kPull,
+  kSetFlushCallback,
+} from "@miniflare/queues";
 import {
   Consumer,
   LogLevel,
   MessageBatch,
+  kGetConsumers,
+  kRemoveConsumer,
   kSetConsumer,
 } from "@miniflare/shared";
 import { TestLog } from "@miniflare/shared-test";
@@ -400,3 +414,576 @@ test("QueueBroker: dead letter queue support", async (t) => {
     'Moving message "myQueue-0" to dead letter queue "myDLQ"...',
   ]);
 });
+
+// Resolves once `count` messages have been delivered. Batch boundaries depend
+// on timer scheduling, so delay tests shouldn't rely on them.
+function waitForDeliveries(
+  q: WorkerQueue,
+  deliveries: Map<unknown, number>,
+  count: number
+): Promise<void> {
+  return new Promise((resolve) => {
+    q[kSetFlushCallback](() => {
+      if (deliveries.size >= count) resolve();
+    });
+  });
+}
+
+test("QueueBroker: delays messages sent with delaySeconds", async (t) => {
+  const broker = new QueueBroker();
+  const q = broker.getOrCreateQueue("myQueue");
+  const sub: Consumer = {
+    queueName: "myQueue",
+    maxBatchSize: 5,
+    maxWaitMs: 1,
+    maxRetries: 2,
+    dispatcher: async (_batch) => {},
+  };
+  q[kSetConsumer](sub);
+
+  const deliveries = new Map<unknown, number>();
+  sub.dispatcher = async (batch: MessageBatch) => {
+    for (const msg of batch.messages) deliveries.set(msg.body, Date.now());
+  };
+  const delivered = waitForDeliveries(q, deliveries, 3);
+
+  const start = Date.now();
+  await q.send("delayed", { delaySeconds: 0.1 });
+  await q.sendBatch([
+    { body: "message1" },
+    { body: "batchDelayed", delaySeconds: 0.2 },
+  ]);
+  await delivered;
+
+  // Delayed messages should only be delivered once they become visible
+  t.true(deliveries.has("message1"));
+  t.true((deliveries.get("delayed") ?? 0) - start >= 100);
+  t.true((deliveries.get("batchDelayed") ?? 0) - start >= 200);
+});
+
+test("QueueBroker: sendBatch() applies batch delaySeconds to messages without their own", async (t) => {
+  const broker = new QueueBroker();
+  const q = broker.getOrCreateQueue("myQueue");
+  const sub: Consumer = {
+    queueName: "myQueue",
+    maxBatchSize: 5,
+    maxWaitMs: 1,
+    maxRetries: 2,
+    dispatcher: async (_batch) => {},
+  };
+  q[kSetConsumer](sub);
+
+  const deliveries = new Map<unknown, number>();
+  sub.dispatcher = async (batch: MessageBatch) => {
+    for (const msg of batch.messages) deliveries.set(msg.body, Date.now());
+  };
+  const delivered = waitForDeliveries(q, deliveries, 2);
+
+  const start = Date.now();
+  await q.sendBatch(
+    [{ body: "delayed" }, { body: "immediate", delaySeconds: 0 }],
+    { delaySeconds: 0.1 }
+  );
+  await delivered;
+  t.true(deliveries.has("immediate"));
+  t.true((deliveries.get("delayed") ?? 0) - start >= 100);
+});
+
+test("QueueBroker: delays retried messages", async (t) => {
+  const broker = new QueueBroker();
+  const q = broker.getOrCreateQueue("myQueue");
+  const sub: Consumer = {
+    queueName: "myQueue",
+    maxBatchSize: 5,
+    maxWaitMs: 1,
+    maxRetries: 2,
+    dispatcher: async (_batch) => {},
+  };
+  q[kSetConsumer](sub);
+
+  const times: number[] = [];
+  sub.dispatcher = async (batch: MessageBatch) => {
+    times.push(Date.now());
+    if (times.length === 1) batch.messages[0].retry({ delaySeconds: 0.1 });
+    if (times.length === 2) batch.retryAll({ delaySeconds: 0.05 });
+  };
+
+  await q.send("message1");
+  for (let i = 0; i < 3; i++) {
+    await new Promise<void>((resolve) => {
+      q[kSetFlushCallback](() => resolve());
+    });
+  }
+  t.true(times[1] - times[0] >= 100);
+  t.true(times[2] - times[1] >= 50);
+});
+
+test("QueueBroker: applies queue deliveryDelay and consumer retryDelay", async (t) => {
+  const broker = new QueueBroker();
+  const q = broker.getOrCreateQueue("myQueue");
+  broker.setConfig(q, { deliveryDelay: 0.1 });
+
+  // Check messages sent before the consumer is added are delayed too
+  const start = Date.now();
+  await q.send("message1");
+
+  const times: number[] = [];
+  const sub: Consumer = {
+    queueName: "myQueue",
+    maxBatchSize: 5,
+    maxWaitMs: 1,
+    maxRetries: 2,
+    retryDelay: 0.05,
+    dispatcher: async (batch: MessageBatch) => {
+      times.push(Date.now());
+      if (times.length === 1) batch.retryAll();
+    },
+  };
+  q[kSetConsumer](sub);
+  for (let i = 0; i < 2; i++) {
+    await new Promise<void>((resolve) => {
+      q[kSetFlushCallback](() => resolve());
+    });
+  }
+  t.true(times[0] - start >= 100);
+  t.true(times[1] - times[0] >= 50);
+});
+
+test("QueueBroker: validates delaySeconds", async (t) => {
+  const broker = new QueueBroker();
+  const q = broker.getOrCreateQueue("myQueue");
+  const expectations = {
+    instanceOf: TypeError,
+    message: `delaySeconds must be a number between 0 and ${MAX_DELAY_SECONDS}.`,
+  };
+  await t.throwsAsync(q.send("message", { delaySeconds: -1 }), expectations);
+  await t.throwsAsync(
+    q.send("message", { delaySeconds: MAX_DELAY_SECONDS + 1 }),
+    expectations
+  );
+  await t.throwsAsync(
+    q.sendBatch([{ body: "message" }], { delaySeconds: NaN }),
+    expectations
+  );
+
+  const message = new Message("id", new Date(), "body");
+  t.throws(() => message.retry({ delaySeconds: -1 }), expectations);
+});
+
+test("QueueBroker: acknowledged messages are not redelivered on consumer error", async (t) => {
+  const log = new TestLog();
+  log.error = (message) =>
+    log.logWithLevel(LogLevel.ERROR, message?.stack ?? "");
+
+  const broker = new QueueBroker(log);
+  const q = broker.getOrCreateQueue("myQueue");
+  const sub: Consumer = {
+    queueName: "myQueue",
+    maxBatchSize: 5,
+    maxWaitMs: 1,
+    maxRetries: 2,
+    dispatcher: async (_batch) => {},
+  };
+  q[kSetConsumer](sub);
+
+  const batches: unknown[][] = [];
+  sub.dispatcher = async (batch: MessageBatch) => {
+    batches.push(batch.messages.map((x) => x.body));
+    if (batches.length === 1) {
+      batch.messages[0].ack();
+      throw new Error("fake consumer error");
+    }
+  };
+
+  await q.send("message1");
+  await q.send("message2");
+  for (let i = 0; i < 2; i++) {
+    await new Promise<void>((resolve) => {
+      q[kSetFlushCallback](() => resolve());
+    });
+  }
+  t.deepEqual(batches, [["message1", "message2"], ["message2"]]);
+  t.deepEqual(log.logsAtLevel(LogLevel.DEBUG), [
+    'Retrying message "myQueue-1"...',
+  ]);
+});
+
+test("QueueBroker: message calls take precedence over batch calls", async (t) => {
+  const broker = new QueueBroker();
+  const q = broker.getOrCreateQueue("myQueue");
+  const sub: Consumer = {
+    queueName: "myQueue",
+    maxBatchSize: 5,
+    maxWaitMs: 1,
+    maxRetries: 2,
+    dispatcher: async (_batch) => {},
+  };
+  q[kSetConsumer](sub);
+
+  const batches: unknown[][] = [];
+  sub.dispatcher = async (batch: MessageBatch) => {
+    batches.push(batch.messages.map((x) => x.body));
+    if (batches.length > 1) return;
+    const [retryThenAck, ackThenRetry, ackThenRetryAll, retryThenAckAll] =
+      batch.messages;
+    // First call on a message wins...
+    retryThenAck.retry();
+    retryThenAck.ack();
+    ackThenRetry.ack();
+    ackThenRetry.retry();
+    // ...and message calls take precedence over batch calls
+    ackThenRetryAll.ack();
+    retryThenAckAll.retry();
+    batch.ackAll();
+    batch.retryAll();
+  };
+
+  await q.sendBatch([
+    { body: "retryThenAck" },
+    { body: "ackThenRetry" },
+    { body: "ackThenRetryAll" },
+    { body: "retryThenAckAll" },
+    { body: "batchAcked" },
+  ]);
+  for (let i = 0; i < 2; i++) {
+    await new Promise<void>((resolve) => {
+      q[kSetFlushCallback](() => resolve());
+    });
+  }
+  t.deepEqual(batches[1], ["retryThenAck", "retryThenAckAll"]);
+});
+
+test("QueueBroker: ackAll() prevents redelivery on consumer error", async (t) => {
+  const broker = new QueueBroker();
+  const q = broker.getOrCreateQueue("myQueue");
+  const sub: Consumer = {
+    queueName: "myQueue",
+    maxBatchSize: 5,
+    maxWaitMs: 1,
+    maxRetries: 2,
+    dispatcher: async (_batch) => {},
+  };
+  q[kSetConsumer](sub);
+
+  let invocations = 0;
+  sub.dispatcher = async (batch: MessageBatch) => {
+    invocations++;
+    batch.ackAll();
+    throw new Error("fake consumer error");
+  };
+
+  await q.send("message1");
+  await new Promise<void>((resolve) => {
+    q[kSetFlushCallback](() => resolve());
+  });
+
+  // Send another message to check "message1" isn't redelivered with it
+  sub.dispatcher = async (batch: MessageBatch) => {
+    invocations++;
+    t.deepEqual(
+      batch.messages.map((x) => x.body),
+      ["message2"]
+    );
+  };
+  await q.send("message2");
+  await new Promise<void>((resolve) => {
+    q[kSetFlushCallback](() => resolve());
+  });
+  t.is(invocations, 2);
+});
+
+test("QueueBroker: exposes delivery attempts on messages", async (t) => {
+  const broker = new QueueBroker();
+  const q = broker.getOrCreateQueue("myQueue");
+  const sub: Consumer = {
+    queueName: "myQueue",
+    maxBatchSize: 5,
+    maxWaitMs: 1,
+    maxRetries: 2,
+    dispatcher: async (_batch) => {},
+  };
+  q[kSetConsumer](sub);
+
+  const attempts: number[] = [];
+  sub.dispatcher = async (batch: MessageBatch) => {
+    attempts.push(batch.messages[0].attempts);
+    batch.retryAll();
+  };
+
+  await q.send("message1");
+  for (let i = 0; i < 3; i++) {
+    await new Promise<void>((resolve) => {
+      q[kSetFlushCallback](() => resolve());
+    });
+  }
+  t.deepEqual(attempts, [1, 2, 3]);
+});
+
+test("QueueBroker: throws if same consumer added twice", (t) => {
+  const broker = new QueueBroker();
+  const q = broker.getOrCreateQueue("myQueue");
+  const sub: Consumer = {
+    queueName: "myQueue",
+    maxBatchSize: 5,
+    maxWaitMs: 1,
+    maxRetries: 2,
+    dispatcher: async (_batch) => {},
+  };
+  q[kSetConsumer](sub);
+  t.throws(() => q[kSetConsumer](sub), {
+    instanceOf: QueueError,
+    code: "ERR_CONSUMER_ALREADY_SET",
+  });
+});
+
+test("QueueBroker: dispatches batches to multiple consumers in turn", async (t) => {
+  const broker = new QueueBroker();
+  const q = broker.getOrCreateQueue("myQueue");
+  const received: [consumer: string, bodies: unknown[]][] = [];
+  const sub1: Consumer = {
+    queueName: "myQueue",
+    maxBatchSize: 1,
+    maxWaitMs: 1,
+    maxRetries: 2,
+    dispatcher: async (batch) => {
+      received.push(["sub1", batch.messages.map((x) => x.body)]);
+    },
+  };
+  const sub2: Consumer = {
+    ...sub1,
+    dispatcher: async (batch) => {
+      received.push(["sub2", batch.messages.map((x) => x.body)]);
+    },
+  };
+  q[kSetConsumer](sub1);
+  broker.setConsumer(q, sub2);
+  t.deepEqual(q[kGetConsumers](), [sub1, sub2]);
+
+  await q.sendBatch([
+    { body: "message1" },
+    { body: "message2" },
+    { body: "message3" },
+  ]);
+  for (let i = 0; i < 3; i++) {
+    await new Promise<void>((resolve) => {
+      q[kSetFlushCallback](() => resolve());
+    });
+  }
+  t.deepEqual(received, [
+    ["sub1", ["message1"]],
+    ["sub2", ["message2"]],
+    ["sub1", ["message3"]],
+  ]);
+
+  // Check removed consumers no longer receive messages
+  q[kRemoveConsumer](sub1);
+  broker.removeConsumer(q, sub2);
+  t.deepEqual(q[kGetConsumers](), []);
+  broker.setConsumer(q, sub2);
+  await q.send("message4");
+  await new Promise<void>((resolve) => {
+    q[kSetFlushCallback](() => resolve());
+  });
+  t.deepEqual(received[3], ["sub2", ["message4"]]);
+});
+
+function usePullQueue(consumer?: Partial<Consumer>) {
+  const broker = new QueueBroker();
+  const q = broker.getOrCreateQueue("myQueue");
+  const sub: Consumer = {
+    queueName: "myQueue",
+    type: "http_pull",
+    maxBatchSize: 5,
+    maxWaitMs: 1,
+    maxRetries: 2,
+    visibilityTimeoutMs: 30_000,
+    dispatcher: async (_batch) => {},
+    ...consumer,
+  };
+  q[kSetConsumer](sub);
+  return { broker, q, sub };
+}
+
+test("QueueBroker: pulls batches of messages", async (t) => {
+  const { q } = usePullQueue({ maxBatchSize: 2 });
+  await q.sendBatch([
+    { body: "message1" },
+    { body: "message2" },
+    { body: "message3" },
+  ]);
+
+  let pulled = q[kPull]();
+  t.deepEqual(
+    pulled.map(({ message }) => message.body),
+    ["message1", "message2"]
+  );
+  t.not(pulled[0].leaseId, pulled[1].leaseId);
+  pulled = q[kPull]({ batchSize: 5 });
+  t.deepEqual(
+    pulled.map(({ message }) => message.body),
+    ["message3"]
+  );
+  t.deepEqual(q[kPull](), []);
+});
+
+test("QueueBroker: throws if pulling without pull consumer", async (t) => {
+  const broker = new QueueBroker();
+  const q = broker.getOrCreateQueue("myQueue");
+  t.throws(() => q[kPull](), {
+    instanceOf: QueueError,
+    code: "ERR_NO_PULL_CONSUMER",
+    message: 'Queue "myQueue" does not have an HTTP pull consumer',
+  });
+});
+
+test("QueueBroker: validates pull options", async (t) => {
+  const { q } = usePullQueue();
+  const expectations = {
+    instanceOf: QueueError,
+    code: "ERR_INVALID_PULL_OPTIONS",
+  };
+  t.throws(() => q[kPull]({ batchSize: 0 }), expectations);
+  t.throws(() => q[kPull]({ batchSize: 101 }), expectations);
+  t.throws(() => q[kPull]({ visibilityTimeoutMs: -1 }), expectations);
+  t.throws(() => q[kPull]({ visibilityTimeoutMs: 43200_001 }), expectations);
+});
+
+test("QueueBroker: acknowledges and retries leased messages", async (t) => {
+  const { q } = usePullQueue();
+  await q.sendBatch([
+    { body: "message1" },
+    { body: "message2" },
+    { body: "message3" },
+  ]);
+  const [lease1, lease2, lease3] = q[kPull]();
+
+  const result = await q[kAcknowledgeLeases](
+    [lease1.leaseId, "unknown"],
+    [{ leaseId: lease2.leaseId }, { leaseId: lease3.leaseId, delaySeconds: 60 }]
+  );
+  t.deepEqual(result, {
+    ackCount: 1,
+    retryCount: 2,
+    warnings: ['Unknown lease ID "unknown"'],
+  });
+
+  // Check only the undelayed retried message is available again, and that
+  // leases can only be used once
+  const pulled = q[kPull]();
+  t.deepEqual(
+    pulled.map(({ message }) => [message.body, message.attempts]),
+    [["message2", 2]]
+  );
+  const repeated = await q[kAcknowledgeLeases]([lease1.leaseId], []);
+  t.is(repeated.ackCount, 0);
+});
+
+test("QueueBroker: redelivers pulled messages after visibility timeout", async (t) => {
+  const { q } = usePullQueue({ maxRetries: 1 });
+  await q.send("message1");
+  t.is(q[kPull]({ visibilityTimeoutMs: 50 }).length, 1);
+  t.deepEqual(q[kPull](), []);
+
+  await setTimeout(100);
+  const [pulled] = q[kPull]({ visibilityTimeoutMs: 50 });
+  t.is(pulled.message.body, "message1");
+  t.is(pulled.message.attempts, 2);
+
+  // Check message dropped once out of retries
+  await setTimeout(100);
+  t.deepEqual(q[kPull](), []);
+});
+
+test("QueueBroker: lists pending, in-flight and dead-lettered messages", async (t) => {
+  const { broker, q } = usePullQueue({
+    maxRetries: 0,
+    deadLetterQueue: "dlq",
+  });
+  await q.sendBatch([
+    { body: "message1" },
+    { body: "message2" },
+    { body: "message3", delaySeconds: 60 },
+  ]);
+  const [lease1, lease2] = q[kPull]({ batchSize: 2 });
+  await q[kAcknowledgeLeases]([], [{ leaseId: lease1.leaseId }]);
+
+  const messages = q[kGetMessages]();
+  t.deepEqual(
+    messages.pending.map(({ body, attempts }) => [body, attempts]),
+    [["message3", 0]]
+  );
+  t.true(messages.pending[0].visibleAt.getTime() > Date.now());
+  t.deepEqual(
+    messages.inFlight.map(({ id, body, attempts }) => [id, body, attempts]),
+    [[lease2.message.id, "message2", 1]]
+  );
+  t.deepEqual(
+    messages.deadLettered.map(({ body, attempts, deadLetterQueue }) => [
+      body,
+      attempts,
+      deadLetterQueue,
+    ]),
+    [["message1", 1, "dlq"]]
+  );
+  t.deepEqual(
+    broker
+      .getOrCreateQueue("dlq")
+      [kGetMessages]()
+      .pending.map(({ body }) => body),
+    ["message1"]
+  );
+});
+
+test("QueueBroker: dispatches pending messages immediately", async (t) => {
+  const broker = new QueueBroker();
+  const q = broker.getOrCreateQueue("myQueue");
+  const batches: unknown[][] = [];
+  const sub: Consumer = {
+    queueName: "myQueue",
+    maxBatchSize: 2,
+    maxWaitMs: 60_000,
+    maxRetries: 2,
+    dispatcher: async (batch) => {
+      batches.push(batch.messages.map(({ body }) => body));
+      for (const msg of batch.messages) {
+        if (msg.body === "message2") msg.retry();
+      }
+    },
+  };
+  q[kSetConsumer](sub);
+  await q.sendBatch([
+    { body: "message1" },
+    { body: "message2" },
+    { body: "message3" },
+  ]);
+
+  // Check messages delivered without waiting for maxWaitMs, including retries
+  await q[kDispatchPending]();
+  t.deepEqual(batches, [
+    ["message1", "message2"],
+    ["message3", "message2"],
+    ["message2"],
+  ]);
+  const messages = q[kGetMessages]();
+  t.deepEqual(messages.pending, []);
+  t.deepEqual(
+    messages.deadLettered.map(({ body, attempts, deadLetterQueue }) => [
+      body,
+      attempts,
+      deadLetterQueue,
+    ]),
+    [["message2", 3, undefined]]
+  );
+});
+
+test("QueueBroker: throws if dispatching without consumer", async (t) => {
+  const broker = new QueueBroker();
+  const q = broker.getOrCreateQueue("myQueue");
+  await t.throwsAsync(q[kDispatchPending]([{ body: "message" }]), {
+    instanceOf: QueueError,
+    code: "ERR_NO_CONSUMER",
+    message: 'Queue "myQueue" does not have a consumer',
+  });
+  // Check messages weren't enqueued
+  t.deepEqual(q[kGetMessages]().pending, []);
+});
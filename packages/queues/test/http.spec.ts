@@ -0,0 +1,83 @@
+import {
+  MAX_DELAY_SECONDS,
+  QueueBroker,
+  handleHTTPPull,
+} from "@miniflare/queues";
+import { Consumer } from "@miniflare/shared";
+import test from "ava";
+
+function useBroker(): QueueBroker {
+  const broker = new QueueBroker();
+  const consumer: Consumer = {
+    queueName: "queue",
+    type: "http_pull",
+    maxBatchSize: 5,
+    maxWaitMs: 1000,
+    maxRetries: 2,
+    dispatcher: async () => {},
+  };
+  broker.setConsumer(broker.getOrCreateQueue("queue"), consumer);
+  return broker;
+}
+
+test("handleHTTPPull: pulls and acknowledges messages", async (t) => {
+  const broker = useBroker();
+  await broker.getOrCreateQueue("queue").send("message");
+  let res = await handleHTTPPull(broker, "queue", "pull", "");
+  t.is(res.status, 200);
+  const { messages } = res.body.result as { messages: any[] };
+  t.deepEqual(
+    messages.map(({ body }) => body),
+    ["message"]
+  );
+
+  res = await handleHTTPPull(
+    broker,
+    "queue",
+    "ack",
+    JSON.stringify({ acks: [{ lease_id: messages[0].lease_id }] })
+  );
+  t.is(res.status, 200);
+  t.deepEqual(res.body.result, { ackCount: 1, retryCount: 0, warnings: [] });
+});
+test("handleHTTPPull: rejects malformed bodies", async (t) => {
+  const broker = useBroker();
+  const cases: [action: "pull" | "ack", body: string, message: string][] = [
+    ["pull", "{", "Request body must be valid JSON"],
+    ["pull", "[]", "Request body must be a JSON object"],
+    [
+      "pull",
+      '{"batch_size":"5"}',
+      "batch_size and visibility_timeout_ms must be numbers",
+    ],
+    [
+      "ack",
+      '{"acks":"lease"}',
+      "acks and retries must be arrays of objects with string lease_id properties",
+    ],
+    [
+      "ack",
+      '{"retries":[{"lease_id":1}]}',
+      "acks and retries must be arrays of objects with string lease_id properties",
+    ],
+  ];
+  for (const [action, body, message] of cases) {
+    const res = await handleHTTPPull(broker, "queue", action, body);
+    t.is(res.status, 400);
+    t.deepEqual(res.body.errors, [{ code: "ERR_INVALID_BODY", message }]);
+  }
+});
+test("handleHTTPPull: rejects invalid retry delays", async (t) => {
+  const broker = useBroker();
+  const body = JSON.stringify({
+    retries: [{ lease_id: "lease", delay_seconds: MAX_DELAY_SECONDS + 1 }],
+  });
+  const res = await handleHTTPPull(broker, "queue", "ack", body);
+  t.is(res.status, 400);
+  t.deepEqual(res.body.errors, [
+    {
+      code: "ERR_INVALID_DELAY",
+      message: `delay_seconds must be a number between 0 and ${MAX_DELAY_SECONDS}`,
+    },
+  ]);
+});
@@ -2,15 +2,19 @@ import {
   DEFAULT_BATCH_SIZE,
   DEFAULT_WAIT_MS,
   QueueBroker,
+  QueueError,
   QueuesPlugin,
   WorkerQueue,
+  kGetConfig,
 } from "@miniflare/queues";
 import {
   Compatibility,
+  MessageBatch,
   NoOpLog,
   PluginContext,
   QueueEventDispatcher,
   kGetConsumer,
+  kGetConsumers,
 } from "@miniflare/shared";
 import {
   MemoryStorageFactory,
@@ -34,6 +38,8 @@ test("QueuesPlugin: parses options from argv", async (t) => {
     "QUEUE2=queue2",
     "--queue-consumer",
     "queue1",
+    "--queues-persist",
+    "path",
   ]);
   t.deepEqual(options, {
     queueBindings: [
@@ -41,6 +47,7 @@ test("QueuesPlugin: parses options from argv", async (t) => {
       { name: "QUEUE2", queueName: "queue2" },
     ],
     queueConsumers: ["queue1"],
+    queuesPersist: "path",
   });
 
   // setup the plugin and verify default values
@@ -76,9 +83,17 @@ test("QueuesPlugin: parses options from wrangler config", async (t) => {
           batch_timeout: 7,
           message_retries: 5,
           dead_letter_queue: "DLQ",
+          delivery_delay: 3,
+          retry_delay: 10,
+        },
+        {
+          queue: "queue3",
+          type: "http_pull",
+          visibility_timeout_ms: 5000,
         },
       ],
     },
+    miniflare: { queues_persist: "path" },
   });
   t.deepEqual(options, {
     queueBindings: [
@@ -93,8 +108,16 @@ test("QueuesPlugin: parses options from wrangler config", async (t) => {
         maxWaitMs: 7000,
         maxRetries: 5,
         deadLetterQueue: "DLQ",
+        deliveryDelay: 3,
+        retryDelay: 10,
+      },
+      {
+        queueName: "queue3",
+        type: "http_pull",
+        visibilityTimeoutMs: 5000,
       },
     ],
+    queuesPersist: "path",
   });
 
   // verify default vs custom values on optional settings
@@ -119,6 +142,13 @@ test("QueuesPlugin: parses options from wrangler config", async (t) => {
   const queue2 = queueBroker.getOrCreateQueue("queue2");
   t.deepEqual(queue2[kGetConsumer]()?.maxBatchSize, 10);
   t.deepEqual(queue2[kGetConsumer]()?.maxWaitMs, 7000);
+  t.deepEqual(queue2[kGetConfig]().deliveryDelay, 3);
+  t.deepEqual(queue2[kGetConsumer]()?.retryDelay, 10);
+
+  // queue3 is an HTTP pull consumer
+  const queue3 = queueBroker.getOrCreateQueue("queue3");
+  t.deepEqual(queue3[kGetConsumer]()?.type, "http_pull");
+  t.deepEqual(queue3[kGetConsumer]()?.visibilityTimeoutMs, 5000);
 });
 
 test("QueuesPlugin: logs options", (t) => {
@@ -131,10 +161,12 @@ test("QueuesPlugin: logs options", (t) => {
       { queueName: "queue1", maxBatchSize: 10, maxWaitMs: 7000 },
       { queueName: "queue2", maxBatchSize: 10, maxWaitMs: 7000 },
     ],
+    queuesPersist: true,
   });
   t.deepEqual(logs, [
     "Queue Bindings: QUEUE1, QUEUE2",
     "Queue Consumers: queue1, queue2",
+    "Queues Persistence: true",
   ]);
 });
 
@@ -160,3 +192,122 @@ test("QueuesPlugin: setup: includes queues in bindings", async (t) => {
   t.true(result.bindings?.QUEUE1 instanceof WorkerQueue);
   t.true(result.bindings?.QUEUE2 instanceof WorkerQueue);
 });
+
+test("QueuesPlugin: setup: restores persisted messages", async (t) => {
+  const storageFactory = new MemoryStorageFactory();
+  const options = {
+    queueBindings: [{ name: "QUEUE", queueName: "queue" }],
+  };
+
+  // Send messages without a consumer, so they remain pending in storage
+  let queueBroker = new QueueBroker();
+  let plugin = new QueuesPlugin(
+    { log, compat, rootPath, queueBroker, queueEventDispatcher },
+    options
+  );
+  let result = await plugin.setup(storageFactory);
+  const queue: WorkerQueue = result.bindings?.QUEUE;
+  await queue.send("message1");
+  await queue.sendBatch([{ body: { key: "message2" } }]);
+
+  // Simulate restart by creating a new broker with the same storage, and
+  // check messages are delivered to the new consumer
+  queueBroker = new QueueBroker();
+  let resolveBatch: (batch: MessageBatch) => void;
+  const batchPromise = new Promise<MessageBatch>(
+    (resolve) => (resolveBatch = resolve)
+  );
+  plugin = new QueuesPlugin(
+    {
+      log,
+      compat,
+      rootPath,
+      queueBroker,
+      queueEventDispatcher: async (batch) => resolveBatch(batch),
+    },
+    { ...options, queueConsumers: [{ queueName: "queue", maxWaitMs: 1 }] }
+  );
+  result = await plugin.setup(storageFactory);
+  const batch = await batchPromise;
+  t.deepEqual(
+    batch.messages.map(({ id, body }) => ({ id, body })),
+    [
+      { id: "queue-0", body: "message1" },
+      { id: "queue-1", body: { key: "message2" } },
+    ]
+  );
+
+  // Check message IDs continue from restored messages, and delivered messages
+  // are removed from storage
+  await result.bindings?.QUEUE.send("message3");
+  const storage = storageFactory.storage("queue");
+  const { keys } = await storage.list();
+  t.deepEqual(
+    keys.map(({ name }) => name),
+    ["queue-2"]
+  );
+});
+
+test("QueuesPlugin: setup: replaces consumers when setup again or disposed", async (t) => {
+  const queueBroker = new QueueBroker();
+  const ctx: PluginContext = {
+    log,
+    compat,
+    rootPath,
+    globalAsyncIO: true,
+    queueBroker,
+    queueEventDispatcher,
+  };
+  const queue = queueBroker.getOrCreateQueue("queue");
+
+  const plugin1 = new QueuesPlugin(ctx, { queueConsumers: ["queue"] });
+  await plugin1.setup(factory);
+  await plugin1.setup(factory);
+  t.is(queue[kGetConsumers]().length, 1);
+
+  // Check consumers from other plugins (e.g. mounts) can share the queue
+  const plugin2 = new QueuesPlugin(ctx, { queueConsumers: ["queue"] });
+  await plugin2.setup(factory);
+  t.is(queue[kGetConsumers]().length, 2);
+
+  plugin1.dispose();
+  plugin2.dispose();
+  t.is(queue[kGetConsumers]().length, 0);
+});
+
+test("QueuesPlugin: setup: configures queue delivery delays", async (t) => {
+  const queueBroker = new QueueBroker();
+  const ctx: PluginContext = {
+    log,
+    compat,
+    rootPath,
+    globalAsyncIO: true,
+    queueBroker,
+    queueEventDispatcher,
+  };
+  const queue = queueBroker.getOrCreateQueue("queue");
+  const plugin = new QueuesPlugin(ctx, {
+    queueConsumers: [
+      { queueName: "queue", deliveryDelay: 5 },
+      { queueName: "queue", type: "http_pull" },
+    ],
+  });
+  await plugin.setup(factory);
+  t.is(queue[kGetConfig]().deliveryDelay, 5);
+  plugin.dispose();
+  t.is(queue[kGetConfig]().deliveryDelay, undefined);
+
+  // Check consumers of the same queue can't disagree on delivery delays
+  const conflicting = new QueuesPlugin(ctx, {
+    queueConsumers: [
+      { queueName: "queue", deliveryDelay: 5 },
+      { queueName: "queue", deliveryDelay: 10, type: "http_pull" },
+    ],
+  });
+  await t.throwsAsync(conflicting.setup(factory), {
+    instanceOf: QueueError,
+    code: "ERR_CONFLICTING_DELIVERY_DELAY",
+    message:
+      'Consumers of queue "queue" have different delivery delays (5s and 10s)',
+  });
+});
@@ -6,16 +6,22 @@ import { arrayBuffer } from "stream/consumers";
 import { ReadableStream } from "stream/web";
 import { TextEncoder } from "util";
 import {
+  Clock,
   RangeStoredValueMeta,
   RequestContext,
   Storage,
+  StorageListResult,
+  StoredKeyMeta,
   assertInRequest,
+  defaultClock,
   getRequestContext,
+  millisToSeconds,
   parseRanges,
   viewToArray,
   waitForOpenInputGate,
   waitForOpenOutputGate,
 } from "@miniflare/shared";
+import { MemoryStorage } from "@miniflare/storage-memory";
 import { Headers } from "undici";
 import {
   HEX_REGEXP,
@@ -25,6 +31,7 @@ import {
   R2ObjectBody,
   R2_HASH_ALGORITHMS,
   createMD5Hash,
+  createMultipartETag,
   createVersion,
   parseHttpMetadata,
   parseOnlyIf,
@@ -79,6 +86,21 @@ export interface R2PutOptions extends R2Checksums<ArrayBuffer | string> {
   customMetadata?: Record<string, string>;
 }
 
+export interface R2MultipartOptions {
+  // Various HTTP headers associated with the object. Refer to
+  // https://developers.cloudflare.com/r2/runtime-apis/#http-metadata.
+  httpMetadata?: R2HTTPMetadata | Headers;
+  // A map of custom, user-defined metadata that will be stored with the object.
+  customMetadata?: Record<string, string>;
+}
+
+export interface R2UploadedPart {
+  // The number of the part, between 1 and 10000 (inclusive).
+  partNumber: number;
+  // The etag of the part, required to complete the upload.
+  etag: string;
+}
+
 export type R2ListOptionsInclude = ("httpMetadata" | "customMetadata")[];
 
 export interface R2ListOptions {
@@ -122,14 +144,30 @@ const MAX_LIST_KEYS = 1_000;
 const MAX_KEY_SIZE = 1024;
 // https://developers.cloudflare.com/r2/platform/limits/ (5GB - 5MB)
 const MAX_VALUE_SIZE = 5 * 1_000 * 1_000 * 1_000 - 5 * 1_000 * 1_000;
+// https://developers.cloudflare.com/r2/platform/limits/ (5MiB)
+const MIN_MULTIPART_PART_SIZE = 5 * 1024 * 1024;
+const MAX_MULTIPART_PART_NUMBER = 10_000;
+// Abandoned multipart uploads are aborted after 7 days, matching R2's default
+// object lifecycle rule
+const MULTIPART_UPLOAD_EXPIRATION = 7 * 24 * 60 * 60; // seconds
+const UPLOAD_ID_REGEXP = /^[0-9a-f]{32}$/;
 const UNPAIRED_SURROGATE_PAIR_REGEX =
   /^(?:[^\uD800-\uDBFF]|^)[\uDC00-\uDFFF]|[\uD800-\uDBFF](?![\uDC00-\uDFFF])$/;
 
 const encoder = new TextEncoder();
 
-type Method = "HEAD" | "GET" | "PUT" | "LIST" | "DELETE";
-
-function throwR2Error(method: Method, status: number, message: string): void {
+type Method =
+  | "HEAD"
+  | "GET"
+  | "PUT"
+  | "LIST"
+  | "DELETE"
+  | "CREATE_MULTIPART_UPLOAD"
+  | "UPLOAD_PART"
+  | "COMPLETE_MULTIPART_UPLOAD"
+  | "ABORT_MULTIPART_UPLOAD";
+
+function throwR2Error(method: Method, status: number, message: string): never {
   throw new Error(`R2 ${method} failed: (${status}) ${message}`);
 }
 
@@ -299,14 +337,7 @@ function validatePutHashes(options: R2PutOptions): R2PutOptionHash | undefined {
   return hash;
 }
 
-function validatePutOptions(
-  options: R2PutOptions
-): R2PutOptionHash | undefined {
-  const { onlyIf = {}, httpMetadata, customMetadata } = options;
-
-  validateOnlyIf(onlyIf, "PUT");
-  validateHttpMetadata(httpMetadata);
-
+function validateCustomMetadata(customMetadata?: Record<string, string>): void {
   if (customMetadata !== undefined) {
     if (typeof customMetadata !== "object") {
       throwR2Error(
@@ -321,6 +352,16 @@ function validatePutOptions(
       }
     }
   }
+}
+
+function validatePutOptions(
+  options: R2PutOptions
+): R2PutOptionHash | undefined {
+  const { onlyIf = {}, httpMetadata, customMetadata } = options;
+
+  validateOnlyIf(onlyIf, "PUT");
+  validateHttpMetadata(httpMetadata);
+  validateCustomMetadata(customMetadata);
 
   return validatePutHashes(options);
 }
@@ -408,30 +449,98 @@ function rangeHeaderToR2Range(headers: Headers, size: number): R2Range {
   return {};
 }
 
-function buildKeyTypeError(method: Lowercase<Method>): string {
+function buildKeyTypeError(
+  method: Lowercase<Method> | "createMultipartUpload" | "resumeMultipartUpload"
+): string {
   return `Failed to execute '${method}' on 'R2Bucket': parameter 1 is not of type 'string'.`;
 }
 
+// Rules for automatically removing objects and incomplete multipart uploads,
+// like R2's object lifecycle rules. Enforced when objects and uploads are
+// accessed or listed, and when the bucket is swept.
+export interface R2LifecycleRule {
+  // Only applies the rule to keys starting with this prefix, or all keys if
+  // omitted
+  prefix?: string;
+  // Deletes objects this many days after they were uploaded
+  deleteAfterDays?: number;
+  // Aborts multipart uploads this many days after they were created
+  abortMultipartUploadsAfterDays?: number;
+}
+
+const DAY_MILLIS = 86_400_000;
+
+// Returns whether a rule with `days` set, applying to `key`, has expired
+// something created at `created`
+function isLifecycleExpired(
+  rules: R2LifecycleRule[],
+  days: "deleteAfterDays" | "abortMultipartUploadsAfterDays",
+  key: string,
+  created: number,
+  now: number
+): boolean {
+  return rules.some((rule) => {
+    const ruleDays = rule[days];
+    return (
+      ruleDays !== undefined &&
+      key.startsWith(rule.prefix ?? "") &&
+      created + ruleDays * DAY_MILLIS <= now
+    );
+  });
+}
+
+export const kSweepLifecycle = Symbol("kSweepLifecycle");
+
 export interface InternalR2BucketOptions {
+  clock?: Clock;
+  lifecycle?: R2LifecycleRule[];
   blockGlobalAsyncIO?: boolean;
   listRespectInclude?: boolean;
+  // Storage for in-progress multipart uploads, kept separate from objects so
+  // parts aren't listed
+  multipartStorage?: Storage;
+}
+
+// Stored as the metadata of an upload's `${uploadId}/upload` key, the upload's
+// parts are stored as `${uploadId}/${partNumber}`. All keys expire when the
+// upload is abandoned.
+interface R2MultipartUploadMetadata {
+  key: string;
+  // Milliseconds since the Unix epoch the upload was created at
+  created: number;
+  httpMetadata: R2HTTPMetadata;
+  customMetadata: Record<string, string>;
+}
+
+interface R2MultipartUploadState {
+  metadata: R2MultipartUploadMetadata;
+  expiration: number;
 }
 
 export class R2Bucket {
   readonly #storage: Storage;
+  readonly #clock: Clock;
+  readonly #lifecycle: R2LifecycleRule[];
   readonly #blockGlobalAsyncIO: boolean;
   readonly #listRespectInclude: boolean;
+  readonly #multipartStorage: Storage;
 
   constructor(
     storage: Storage,
     {
+      clock = defaultClock,
+      lifecycle = [],
       blockGlobalAsyncIO = false,
       listRespectInclude = true,
+      multipartStorage = new MemoryStorage(undefined, clock),
     }: InternalR2BucketOptions = {}
   ) {
     this.#storage = storage;
+    this.#clock = clock;
+    this.#lifecycle = lifecycle;
     this.#blockGlobalAsyncIO = blockGlobalAsyncIO;
     this.#listRespectInclude = listRespectInclude;
+    this.#multipartStorage = multipartStorage;
   }
 
   #prepareCtx(): RequestContext | undefined {
@@ -448,10 +557,82 @@ export class R2Bucket {
     if (stored?.metadata === undefined) return null;
     const { metadata } = stored;
     parseR2ObjectMetadata(metadata);
+    if (this.#isObjectExpired(metadata)) {
+      await waitForOpenOutputGate();
+      await this.#storage.delete(key);
+      return null;
+    }
 
     return new R2Object(metadata);
   }
 
+  #isObjectExpired({ key, uploaded }: R2ObjectMetadata): boolean {
+    return isLifecycleExpired(
+      this.#lifecycle,
+      "deleteAfterDays",
+      key,
+      uploaded.getTime(),
+      this.#clock()
+    );
+  }
+
+  // Deletes all objects that have expired
+  async #deleteExpiredObjects(): Promise<void> {
+    if (!this.#lifecycle.some((rule) => rule.deleteAfterDays !== undefined)) {
+      return;
+    }
+    const { keys } = await this.#storage.list<R2ObjectMetadata>();
+    const expired: string[] = [];
+    for (const { name, metadata } of keys) {
+      if (metadata === undefined) continue;
+      parseR2ObjectMetadata(metadata);
+      if (this.#isObjectExpired(metadata)) expired.push(name);
+    }
+    if (expired.length > 0) await this.#storage.deleteMany(expired);
+  }
+
+  // Aborts multipart uploads that have expired
+  async #abortExpiredMultipartUploads(): Promise<void> {
+    if (
+      !this.#lifecycle.some(
+        (rule) => rule.abortMultipartUploadsAfterDays !== undefined
+      )
+    ) {
+      return;
+    }
+    const { keys } = await this.#multipartStorage.list<
+      R2MultipartUploadMetadata | R2UploadedPart
+    >();
+    for (const { name, metadata } of keys) {
+      // Ignore parts, which are also stored under the upload ID
+      if (!name.endsWith("/upload") || metadata === undefined) continue;
+      const upload = metadata as R2MultipartUploadMetadata;
+      if (this.#isMultipartUploadExpired(upload)) {
+        await this.#deleteMultipartUpload(name.substring(0, name.indexOf("/")));
+      }
+    }
+  }
+
+  #isMultipartUploadExpired({
+    key,
+    created,
+  }: R2MultipartUploadMetadata): boolean {
+    return isLifecycleExpired(
+      this.#lifecycle,
+      "abortMultipartUploadsAfterDays",
+      key,
+      created,
+      this.#clock()
+    );
+  }
+
+  // Removes all objects and multipart uploads expired by lifecycle rules. These
+  // are also removed when accessed, but this ensures they don't take up space.
+  async [kSweepLifecycle](): Promise<void> {
+    await this.#deleteExpiredObjects();
+    await this.#abortExpiredMultipartUploads();
+  }
+
   async head(key: string): Promise<R2Object | null> {
     const ctx = this.#prepareCtx();
 
@@ -605,7 +786,7 @@ export class R2Bucket {
       etag: md5Hash,
       version: createVersion(),
       httpEtag: `"${md5Hash}"`,
-      uploaded: new Date(),
+      uploaded: new Date(this.#clock()),
       httpMetadata,
       customMetadata,
       checksums,
@@ -657,39 +838,60 @@ export class R2Bucket {
     // to avoid issues with limit count being wrong, we need to add 1
     if (startAfter !== undefined) limit++;
 
-    const res = await this.#storage.list<R2ObjectMetadata>({
-      prefix,
-      limit,
-      cursor,
-      start: startAfter,
-      delimiter,
-    });
-    // add delimited prefixes should they exist
-    for (const dP of res.delimitedPrefixes ?? []) delimitedPrefixes.add(dP);
-
-    const objects = res.keys
-      // grab metadata
-      .map((k) => k.metadata)
-      // filter out objects that exist within the delimiter
-      .filter(
-        (metadata): metadata is R2ObjectMetadata => metadata !== undefined
-      )
+    // Expired objects are filtered out, with following pages fetched to take
+    // their place, so we don't have to scan the whole prefix for them first
+    const metadatas: R2ObjectMetadata[] = [];
+    const expired: string[] = [];
+    let res: StorageListResult<StoredKeyMeta<R2ObjectMetadata>>;
+    let pageCursor = cursor;
+    let pageLimit = limit;
+    do {
+      res = await this.#storage.list<R2ObjectMetadata>({
+        prefix,
+        limit: pageLimit,
+        cursor: pageCursor,
+        start: startAfter,
+        delimiter,
+      });
+      // add delimited prefixes should they exist
+      for (const dP of res.delimitedPrefixes ?? []) delimitedPrefixes.add(dP);
+
+      pageLimit = 0;
+      for (const { name, metadata } of res.keys) {
+        // filter out objects that exist within the delimiter
+        if (metadata === undefined) continue;
+        // fix dates
+        parseR2ObjectMetadata(metadata);
+        // `startAfter` is removed below, so must be kept to preserve the limit
+        if (this.#isObjectExpired(metadata) && name !== startAfter) {
+          expired.push(name);
+          pageLimit++;
+        } else {
+          metadatas.push(metadata);
+        }
+      }
+      pageCursor = res.cursor;
+    } while (pageLimit > 0 && pageCursor.length > 0);
+
+    if (expired.length > 0) {
+      await waitForOpenOutputGate();
+      await this.#storage.deleteMany(expired);
+    }
+
+    const objects = metadatas
       // filter "httpMetadata" and/or "customMetadata" if found in "include"
       .map((metadata) => {
         if (this.#listRespectInclude) {
           if (!include.includes("httpMetadata")) metadata.httpMetadata = {};
           if (!include.includes("customMetadata")) metadata.customMetadata = {};
         }
-        // fix dates
-        parseR2ObjectMetadata(metadata);
-
         return new R2Object(metadata);
       });
 
     // if startAfter is provided, ensure the first object is the one after startAfter
     // if for some reason the first object is not startAfter itself, reduce size by 1
     if (startAfter !== undefined) {
-      if (objects[0].key === startAfter) {
+      if (objects[0]?.key === startAfter) {
         objects.splice(0, 1);
       } else if (objects.length > limit - 1) {
         objects.splice(0, limit - 1);
@@ -707,4 +909,305 @@ export class R2Bucket {
       delimitedPrefixes: [...delimitedPrefixes],
     };
   }
+
+  #multipartUpload(key: string, uploadId: string): R2MultipartUpload {
+    return new R2MultipartUpload(key, uploadId, {
+      uploadPart: (partNumber, value) =>
+        this.#uploadPart(key, uploadId, partNumber, value),
+      abort: () => this.#abortMultipartUpload(key, uploadId),
+      complete: (uploadedParts) =>
+        this.#completeMultipartUpload(key, uploadId, uploadedParts),
+    });
+  }
+
+  async #getMultipartUpload(
+    method: Method,
+    key: string,
+    uploadId: string
+  ): Promise<R2MultipartUploadState> {
+    const stored = UPLOAD_ID_REGEXP.test(uploadId)
+      ? await this.#multipartStorage.head<R2MultipartUploadMetadata>(
+          `${uploadId}/upload`
+        )
+      : undefined;
+    if (
+      stored?.metadata === undefined ||
+      stored.expiration === undefined ||
+      stored.metadata.key !== key
+    ) {
+      throwR2Error(
+        method,
+        404,
+        "The specified multipart upload does not exist."
+      );
+    }
+    if (this.#isMultipartUploadExpired(stored.metadata)) {
+      await this.#deleteMultipartUpload(uploadId);
+      throwR2Error(
+        method,
+        404,
+        "The specified multipart upload does not exist."
+      );
+    }
+    return { metadata: stored.metadata, expiration: stored.expiration };
+  }
+
+  async #deleteMultipartUpload(uploadId: string): Promise<void> {
+    const { keys } = await this.#multipartStorage.list(
+      { prefix: `${uploadId}/` },
+      true
+    );
+    await this.#multipartStorage.deleteMany(keys.map(({ name }) => name));
+  }
+
+  async createMultipartUpload(
+    key: string,
+    options: R2MultipartOptions = {}
+  ): Promise<R2MultipartUpload> {
+    const ctx = this.#prepareCtx();
+
+    // The Workers runtime will coerce the key parameter to a string
+    if (arguments.length === 0) {
+      throw new TypeError(buildKeyTypeError("createMultipartUpload"));
+    }
+    key = String(key);
+    // Validate key
+    validateKey("CREATE_MULTIPART_UPLOAD", key);
+    // Validate options
+    validateHttpMetadata(options.httpMetadata);
+    validateCustomMetadata(options.customMetadata);
+
+    const uploadId = crypto.randomBytes(16).toString("hex");
+    const metadata: R2MultipartUploadMetadata = {
+      key,
+      created: this.#clock(),
+      httpMetadata: parseHttpMetadata(options.httpMetadata),
+      customMetadata: options.customMetadata ?? {},
+    };
+    const expiration =
+      millisToSeconds(this.#clock()) + MULTIPART_UPLOAD_EXPIRATION;
+
+    await waitForOpenOutputGate();
+    // Listing deletes expired keys, cleaning up abandoned uploads' parts
+    await this.#multipartStorage.list({}, true);
+    await this.#multipartStorage.put<R2MultipartUploadMetadata>(
+      `${uploadId}/upload`,
+      { value: new Uint8Array(), expiration, metadata }
+    );
+    await waitForOpenInputGate();
+    ctx?.advanceCurrentTime();
+
+    return this.#multipartUpload(key, uploadId);
+  }
+
+  resumeMultipartUpload(key: string, uploadId: string): R2MultipartUpload {
+    // The Workers runtime will coerce parameters to strings
+    if (arguments.length === 0) {
+      throw new TypeError(buildKeyTypeError("resumeMultipartUpload"));
+    }
+    // Like the Workers runtime, this doesn't check the upload exists, that's
+    // done when calling methods on the returned upload
+    return this.#multipartUpload(String(key), String(uploadId));
+  }
+
+  async #uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    value: R2PutValueType
+  ): Promise<R2UploadedPart> {
+    const ctx = this.#prepareCtx();
+
+    if (
+      !Number.isInteger(partNumber) ||
+      partNumber < 1 ||
+      partNumber > MAX_MULTIPART_PART_NUMBER
+    ) {
+      throwR2Error(
+        "UPLOAD_PART",
+        400,
+        `Part number must be between 1 and ${MAX_MULTIPART_PART_NUMBER} (inclusive).`
+      );
+    }
+    const { expiration } = await this.#getMultipartUpload(
+      "UPLOAD_PART",
+      key,
+      uploadId
+    );
+
+    // Convert value to Uint8Array
+    const toStore = await _valueToArray(value);
+
+    // Validate value size
+    if (toStore.byteLength > MAX_VALUE_SIZE) {
+      throwR2Error(
+        "UPLOAD_PART",
+        400,
+        `Value length of ${toStore.byteLength} exceeds limit of ${MAX_VALUE_SIZE}.`
+      );
+    }
+
+    // Store part, replacing any existing part with the same number. Parts
+    // expire with their upload.
+    const etag = createMD5Hash(toStore);
+    await waitForOpenOutputGate();
+    await this.#multipartStorage.put<R2UploadedPart>(
+      `${uploadId}/${partNumber}`,
+      { value: toStore, expiration, metadata: { partNumber, etag } }
+    );
+    await waitForOpenInputGate();
+    ctx?.advanceCurrentTime();
+
+    return { partNumber, etag };
+  }
+
+  async #abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    const ctx = this.#prepareCtx();
+
+    await this.#getMultipartUpload("ABORT_MULTIPART_UPLOAD", key, uploadId);
+    await waitForOpenOutputGate();
+    await this.#deleteMultipartUpload(uploadId);
+    await waitForOpenInputGate();
+
+    ctx?.advanceCurrentTime();
+  }
+
+  async #completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    uploadedParts: R2UploadedPart[]
+  ): Promise<R2Object> {
+    const ctx = this.#prepareCtx();
+
+    if (!Array.isArray(uploadedParts)) {
+      throw new TypeError(
+        "Failed to execute 'complete' on 'R2MultipartUpload': parameter 1 is not of type 'Array'."
+      );
+    }
+    const method = "COMPLETE_MULTIPART_UPLOAD";
+    const { metadata: upload } = await this.#getMultipartUpload(
+      method,
+      key,
+      uploadId
+    );
+    if (uploadedParts.length === 0) {
+      throwR2Error(method, 400, "You must specify at least one part.");
+    }
+
+    // Load parts in order, checking they were uploaded with the given etags
+    const parts = [...uploadedParts].sort(
+      (a, b) => a.partNumber - b.partNumber
+    );
+    const values: Uint8Array[] = [];
+    for (let i = 0; i < parts.length; i++) {
+      const { partNumber, etag } = parts[i];
+      if (i > 0 && parts[i - 1].partNumber === partNumber) {
+        throwR2Error(method, 400, "Part numbers must be unique.");
+      }
+      const stored = await this.#multipartStorage.get<R2UploadedPart>(
+        `${uploadId}/${partNumber}`
+      );
+      if (stored === undefined || stored.metadata?.etag !== etag) {
+        throwR2Error(
+          method,
+          400,
+          "One or more of the specified parts could not be found."
+        );
+      }
+      values.push(stored.value);
+    }
+
+    // All parts except the last must be the same size, and at least the
+    // minimum part size
+    for (let i = 0; i < values.length - 1; i++) {
+      if (values[i].byteLength < MIN_MULTIPART_PART_SIZE) {
+        throwR2Error(
+          method,
+          400,
+          "Your proposed upload is smaller than the minimum allowed object size."
+        );
+      }
+      if (values[i].byteLength !== values[0].byteLength) {
+        throwR2Error(
+          method,
+          400,
+          "All non-trailing parts must have the same length."
+        );
+      }
+    }
+
+    // Build metadata
+    const value = viewToArray(Buffer.concat(values));
+    const etag = createMultipartETag(parts.map(({ etag }) => etag));
+    const metadata: R2ObjectMetadata = {
+      key,
+      size: value.byteLength,
+      etag,
+      version: createVersion(),
+      httpEtag: `"${etag}"`,
+      uploaded: new Date(this.#clock()),
+      httpMetadata: upload.httpMetadata,
+      customMetadata: upload.customMetadata,
+      checksums: {},
+    };
+    // Upload metadata may have been serialised, so fix dates
+    parseR2ObjectMetadata(metadata);
+
+    // Store value with metadata, then remove the upload and its parts
+    await waitForOpenOutputGate();
+    await this.#storage.put<R2ObjectMetadata>(key, { value, metadata });
+    await this.#deleteMultipartUpload(uploadId);
+    await waitForOpenInputGate();
+    ctx?.advanceCurrentTime();
+
+    return new R2Object(metadata);
+  }
+}
+
+interface R2MultipartUploadHandlers {
+  uploadPart(
+    partNumber: number,
+    value: R2PutValueType
+  ): Promise<R2UploadedPart>;
+  abort(): Promise<void>;
+  complete(uploadedParts: R2UploadedPart[]): Promise<R2Object>;
+}
+
+export class R2MultipartUpload {
+  // The object's key.
+  readonly key: string;
+  // Identifies the upload, allowing it to be resumed with
+  // `R2Bucket#resumeMultipartUpload()`.
+  readonly uploadId: string;
+
+  readonly #handlers: R2MultipartUploadHandlers;
+
+  constructor(
+    key: string,
+    uploadId: string,
+    handlers: R2MultipartUploadHandlers
+  ) {
+    this.key = key;
+    this.uploadId = uploadId;
+    this.#handlers = handlers;
+  }
+
+  // Uploads a single part, returning an object to pass to `complete()`.
+  // Uploading a part with the same number again replaces it.
+  async uploadPart(
+    partNumber: number,
+    value: R2PutValueType
+  ): Promise<R2UploadedPart> {
+    return this.#handlers.uploadPart(partNumber, value);
+  }
+
+  // Aborts the upload, deleting uploaded parts.
+  async abort(): Promise<void> {
+    return this.#handlers.abort();
+  }
+
+  // Completes the upload, joining the specified parts into a single object.
+  async complete(uploadedParts: R2UploadedPart[]): Promise<R2Object> {
+    return this.#handlers.complete(uploadedParts);
+  }
 }
@@ -1,3 +1,5 @@
 export * from "./bucket";
 export * from "./plugin";
+export * from "./presign";
 export * from "./r2Object";
+export * from "./s3";
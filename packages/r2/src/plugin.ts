@@ -1,4 +1,6 @@
+import { Request, Response } from "@miniflare/core";
 import {
+  Clock,
   Context,
   Option,
   OptionType,
@@ -8,11 +10,15 @@ import {
   StorageFactory,
   resolveStoragePersist,
 } from "@miniflare/shared";
-import { R2Bucket } from "./bucket";
+import { R2Bucket, R2LifecycleRule, kSweepLifecycle } from "./bucket";
+import { isPresignedS3Url } from "./presign";
+import { S3_PATH_PREFIX, handleS3Request } from "./s3";
 
 export interface R2Options {
   r2Buckets?: string[];
   r2Persist?: boolean | string;
+  r2S3Endpoint?: boolean;
+  r2Lifecycle?: Record<string, R2LifecycleRule[]>;
 }
 
 export class R2Plugin extends Plugin<R2Options> implements R2Options {
@@ -33,6 +39,35 @@ export class R2Plugin extends Plugin<R2Options> implements R2Options {
     fromWrangler: ({ miniflare }) => miniflare?.r2_persist,
   })
   r2Persist?: boolean | string;
+
+  @Option({
+    type: OptionType.BOOLEAN,
+    description: "Serve R2 buckets with S3-compatible API at /cdn-cgi/mf/r2",
+    logName: "R2 S3 Endpoint",
+    fromWrangler: ({ miniflare }) => miniflare?.r2_s3_endpoint,
+  })
+  r2S3Endpoint?: boolean;
+
+  @Option({
+    type: OptionType.NONE,
+    fromWrangler: ({ miniflare }) => {
+      const lifecycle = miniflare?.r2_lifecycle;
+      if (lifecycle === undefined) return;
+      return Object.fromEntries(
+        Object.entries(lifecycle).map(([bucket, rules]) => [
+          bucket,
+          rules.map((rule) => ({
+            prefix: rule.prefix,
+            deleteAfterDays: rule.delete_after_days,
+            abortMultipartUploadsAfterDays:
+              rule.abort_multipart_uploads_after_days,
+          })),
+        ])
+      );
+    },
+  })
+  r2Lifecycle?: Record<string, R2LifecycleRule[]>;
+
   readonly #persist?: boolean | string;
 
   constructor(ctx: PluginContext, options?: R2Options) {
@@ -44,14 +79,57 @@ export class R2Plugin extends Plugin<R2Options> implements R2Options {
   getBucket(
     storage: StorageFactory,
     bucket: string,
-    blockGlobalAsyncIO = false
+    blockGlobalAsyncIO = false,
+    clock?: Clock
   ): R2Bucket {
     return new R2Bucket(storage.storage(bucket, this.#persist), {
+      clock,
+      lifecycle: this.r2Lifecycle?.[bucket],
       blockGlobalAsyncIO,
       listRespectInclude: this.ctx.compat.isEnabled("r2_list_honor_include"),
+      multipartStorage: storage.storage(`${bucket}:multipart`, this.#persist),
     });
   }
 
+  // Handles a request to the S3-compatible API, using the binding names of
+  // buckets as their S3 bucket names
+  handleS3Request(
+    storage: StorageFactory,
+    request: Request
+  ): Promise<Response> {
+    const buckets = new Map<string, R2Bucket>();
+    for (const bucket of this.r2Buckets ?? []) {
+      buckets.set(bucket, this.getBucket(storage, bucket));
+    }
+    return handleS3Request(buckets, request);
+  }
+
+  // Serves the S3-compatible API at /cdn-cgi/mf/r2 if enabled. Presigned URLs
+  // are served even if the S3 API isn't enabled.
+  async handleUtilityRequest(
+    storage: StorageFactory,
+    request: Request,
+    url: URL
+  ): Promise<Response | undefined> {
+    const pathname = url.pathname.replace(/\/$/, "");
+    if (
+      pathname !== S3_PATH_PREFIX &&
+      !pathname.startsWith(`${S3_PATH_PREFIX}/`)
+    ) {
+      return;
+    }
+    if (!this.r2S3Endpoint && !isPresignedS3Url(url)) return;
+    return this.handleS3Request(storage, request);
+  }
+
+  // Removes objects and multipart uploads expired by lifecycle rules from all
+  // buckets, as if the current time were `clock()`
+  async sweepLifecycle(storage: StorageFactory, clock?: Clock): Promise<void> {
+    for (const bucket of this.r2Buckets ?? []) {
+      await this.getBucket(storage, bucket, false, clock)[kSweepLifecycle]();
+    }
+  }
+
   setup(storageFactory: StorageFactory): SetupResult {
     const blockGlobalAsyncIO = !this.ctx.globalAsyncIO;
     const bindings: Context = {};
@@ -0,0 +1,170 @@
+import crypto from "crypto";
+import { Clock, defaultClock } from "@miniflare/shared";
+
+// Credentials for signing presigned URLs. Miniflare has no access to real R2
+// credentials, so URLs are signed with these fixed ones instead. These can
+// also be used to presign URLs with other SigV4 clients (e.g. the AWS SDK).
+export const S3_ACCESS_KEY_ID = "miniflare";
+export const S3_SECRET_ACCESS_KEY = "miniflare";
+export const S3_REGION = "auto";
+
+export const PRESIGNED_ALGORITHM = "AWS4-HMAC-SHA256";
+export const MAX_PRESIGNED_EXPIRES = 604_800; // 7 days
+const DEFAULT_PRESIGNED_EXPIRES = 3_600; // 1 hour
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+const SIGNATURE_PARAM = "X-Amz-Signature";
+const AMZ_DATE_REGEXP = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/;
+
+export type R2PresignedMethod = "GET" | "HEAD" | "PUT" | "DELETE";
+
+export interface R2PresignOptions {
+  method?: R2PresignedMethod;
+  // Seconds until the URL expires
+  expiresIn?: number;
+}
+
+// Returns whether a request to the S3-compatible API is using query-string
+// authentication, in which case it must be verified
+export function isPresignedS3Url(url: URL): boolean {
+  return (
+    url.searchParams.has("X-Amz-Algorithm") ||
+    url.searchParams.has(SIGNATURE_PARAM)
+  );
+}
+
+// Percent-encodes everything except unreserved characters, as required for
+// canonical requests
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function encodeS3Path(path: string): string {
+  return path.split("/").map(encodeRfc3986).join("/");
+}
+
+function formatAmzDate(time: number): string {
+  return new Date(time).toISOString().replace(/[-:]|\.\d{3}/g, "");
+}
+
+export function parseAmzDate(value: string): number | undefined {
+  const match = AMZ_DATE_REGEXP.exec(value);
+  if (match === null) return;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return Date.UTC(year, month - 1, day, hours, minutes, seconds);
+}
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function hmac(key: crypto.BinaryLike, value: string): Buffer {
+  return crypto.createHmac("sha256", key).update(value).digest();
+}
+
+function sha256Hex(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+// Computes the SigV4 signature of a presigned URL, using all its query
+// parameters apart from the signature itself. `headers` should contain the
+// values of all headers in the X-Amz-SignedHeaders parameter, including
+// "host".
+export function signPresignedUrl(
+  method: string,
+  url: URL,
+  headers: Map<string, string>
+): string {
+  const params = url.searchParams;
+  const credential = params.get("X-Amz-Credential") ?? "";
+  const amzDate = params.get("X-Amz-Date") ?? "";
+  const signedHeaders = params.get("X-Amz-SignedHeaders") ?? "";
+  // Credential has the form <key>/<date>/<region>/<service>/aws4_request
+  const scope = credential.substring(credential.indexOf("/") + 1);
+  const [date, region, service] = scope.split("/");
+
+  let path: string;
+  try {
+    path = encodeS3Path(
+      url.pathname.split("/").map(decodeURIComponent).join("/")
+    );
+  } catch {
+    // Invalid percent-encodings can't match any signature
+    path = url.pathname;
+  }
+  const query = Array.from(params)
+    .filter(([name]) => name !== SIGNATURE_PARAM)
+    .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+    .sort(([name1, value1], [name2, value2]) =>
+      name1 === name2 ? compare(value1, value2) : compare(name1, name2)
+    )
+    .map(([name, value]) => `${name}=${value}`)
+    .join("&");
+  const canonicalHeaders = signedHeaders
+    .split(";")
+    .map((name) => {
+      const value = headers.get(name) ?? "";
+      return `${name}:${value.trim().replace(/\s+/g, " ")}\n`;
+    })
+    .join("");
+  const canonicalRequest = [
+    method,
+    path,
+    query,
+    canonicalHeaders,
+    signedHeaders,
+    UNSIGNED_PAYLOAD,
+  ].join("\n");
+
+  const stringToSign = [
+    PRESIGNED_ALGORITHM,
+    amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join("\n");
+  let key = hmac(`AWS4${S3_SECRET_ACCESS_KEY}`, date ?? "");
+  key = hmac(key, region ?? "");
+  key = hmac(key, service ?? "");
+  key = hmac(key, "aws4_request");
+  return hmac(key, stringToSign).toString("hex");
+}
+
+// Creates a SigV4 presigned URL for an object, relative to `endpoint`, the
+// URL of the S3-compatible API (e.g. http://localhost:8787/cdn-cgi/mf/r2)
+export function presignS3Url(
+  endpoint: string,
+  bucket: string,
+  key: string,
+  {
+    method = "GET",
+    expiresIn = DEFAULT_PRESIGNED_EXPIRES,
+  }: R2PresignOptions = {},
+  clock: Clock = defaultClock
+): string {
+  if (
+    !Number.isInteger(expiresIn) ||
+    expiresIn < 1 ||
+    expiresIn > MAX_PRESIGNED_EXPIRES
+  ) {
+    throw new TypeError(
+      `expiresIn must be an integer between 1 and ${MAX_PRESIGNED_EXPIRES} (inclusive).`
+    );
+  }
+  const amzDate = formatAmzDate(clock());
+  const scope = `${amzDate.substring(0, 8)}/${S3_REGION}/s3/aws4_request`;
+  const url = new URL(endpoint);
+  url.pathname = `${url.pathname.replace(/\/$/, "")}/${encodeS3Path(
+    `${bucket}/${key}`
+  )}`;
+  url.searchParams.set("X-Amz-Algorithm", PRESIGNED_ALGORITHM);
+  url.searchParams.set("X-Amz-Credential", `${S3_ACCESS_KEY_ID}/${scope}`);
+  url.searchParams.set("X-Amz-Date", amzDate);
+  url.searchParams.set("X-Amz-Expires", expiresIn.toString());
+  url.searchParams.set("X-Amz-SignedHeaders", "host");
+  const headers = new Map([["host", url.host]]);
+  const signature = signPresignedUrl(method, url, headers);
+  url.searchParams.set(SIGNATURE_PARAM, signature);
+  return url.toString();
+}
@@ -114,12 +114,20 @@ export interface R2ObjectMetadata {
 
 const decoder = new TextDecoder();
 
-// NOTE: Incase multipart is ever added to the worker
-// refer to https://stackoverflow.com/questions/12186993/what-is-the-algorithm-to-compute-the-amazon-s3-etag-for-a-file-larger-than-5gb/19896823#19896823
 export function createMD5Hash(input: Uint8Array): string {
   return crypto.createHash("md5").update(input).digest("hex");
 }
 
+// Multipart upload ETags are the MD5 hash of the concatenated binary MD5 hashes
+// of each part, suffixed with the number of parts, refer to
+// https://stackoverflow.com/questions/12186993/what-is-the-algorithm-to-compute-the-amazon-s3-etag-for-a-file-larger-than-5gb/19896823#19896823
+export function createMultipartETag(partEtags: string[]): string {
+  const hash = crypto.createHash("md5");
+  for (const etag of partEtags) hash.update(Buffer.from(etag, "hex"));
+  return `${hash.digest("hex")}-${partEtags.length}`;
+}
+const MULTIPART_ETAG_REGEXP = /^[0-9a-f]{32}-\d+$/;
+
 export function createVersion(): string {
   const size = 32;
   return crypto.randomBytes(size).toString("base64").slice(0, size);
@@ -317,16 +325,18 @@ export class R2Object {
     this.customMetadata = metadata.customMetadata;
     this.range = metadata.range;
 
-    // We always need to store an MD5 hash in `checksums`, but never explicitly
-    // stored one. Luckily, `R2Bucket#put()` always makes `etag` an MD5 hash.
-    assert(
-      metadata.etag.length === 32 && HEX_REGEXP.test(metadata.etag),
-      "Expected `etag` to be an MD5 hash"
-    );
-    const checksums: R2Checksums<string> = {
-      md5: metadata.etag,
-      ...metadata.checksums,
-    };
+    // We always need to store an MD5 hash in `checksums` for objects uploaded
+    // with `R2Bucket#put()`, but never explicitly stored one. Luckily, `put()`
+    // always makes `etag` an MD5 hash. Objects uploaded in multiple parts have
+    // no MD5 hash of their entire value, so don't include one for them.
+    let checksums: R2Checksums<string> = { ...metadata.checksums };
+    if (!MULTIPART_ETAG_REGEXP.test(metadata.etag)) {
+      assert(
+        metadata.etag.length === 32 && HEX_REGEXP.test(metadata.etag),
+        "Expected `etag` to be an MD5 hash"
+      );
+      checksums = { md5: metadata.etag, ...checksums };
+    }
     this.#checksums = new Checksums(checksums);
   }
 
@@ -0,0 +1,560 @@
+import crypto from "crypto";
+import { Request, Response } from "@miniflare/core";
+import { Clock, defaultClock, viewToArray } from "@miniflare/shared";
+import { Headers } from "undici";
+import { R2Bucket, R2PutOptions } from "./bucket";
+import {
+  MAX_PRESIGNED_EXPIRES,
+  PRESIGNED_ALGORITHM,
+  S3_ACCESS_KEY_ID,
+  isPresignedS3Url,
+  parseAmzDate,
+  signPresignedUrl,
+} from "./presign";
+import {
+  R2HTTPMetadata,
+  R2Object,
+  R2ObjectBody,
+  parseHttpMetadata,
+  parseOnlyIf,
+  testR2Conditional,
+} from "./r2Object";
+
+// Local S3-compatible API for R2 buckets, served by the HTTP server under
+// /cdn-cgi/mf/r2. Clients must use path-style addressing, with this as their
+// endpoint, and the bucket's binding name as the bucket name. Only presigned
+// requests are authenticated, so any credentials are accepted otherwise.
+export const S3_PATH_PREFIX = "/cdn-cgi/mf/r2";
+
+const XML_NAMESPACE = "http://s3.amazonaws.com/doc/2006-03-01/";
+const CUSTOM_METADATA_PREFIX = "x-amz-meta-";
+const MAX_LIST_KEYS = 1_000;
+const R2_ERROR_REGEXP = /^R2 \w+ failed: \((\d+)\) (.*)$/;
+const KEY_REGEXP = /<Key>([^<]*)<\/Key>/g;
+const QUIET_REGEXP = /<Quiet>\s*true\s*<\/Quiet>/i;
+// Query parameters selecting operations that aren't supported (e.g. multipart
+// uploads, ACLs and tagging)
+const UNSUPPORTED_SUBRESOURCES = [
+  "acl",
+  "cors",
+  "lifecycle",
+  "location",
+  "policy",
+  "tagging",
+  "uploadId",
+  "uploads",
+  "versioning",
+  "versions",
+  "website",
+];
+
+class S3Error extends Error {
+  constructor(readonly status: number, readonly code: string, message: string) {
+    super(message);
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code)))
+    .replace(/&amp;/g, "&");
+}
+
+// Builds an XML element from an object, omitting undefined values, repeating
+// elements for arrays, and nesting elements for objects
+type XmlValue = string | number | boolean | undefined | XmlElements;
+interface XmlElements {
+  [name: string]: XmlValue | XmlValue[];
+}
+function toXml(elements: XmlElements): string {
+  let xml = "";
+  for (const [name, values] of Object.entries(elements)) {
+    for (const value of Array.isArray(values) ? values : [values]) {
+      if (value === undefined) continue;
+      const content =
+        typeof value === "object" ? toXml(value) : escapeXml(String(value));
+      xml += `<${name}>${content}</${name}>`;
+    }
+  }
+  return xml;
+}
+
+function xmlResponse(root: string, elements: XmlElements, status = 200) {
+  const body = `<?xml version="1.0" encoding="UTF-8"?>\n<${root} xmlns="${XML_NAMESPACE}">${toXml(
+    elements
+  )}</${root}>`;
+  return new Response(body, {
+    status,
+    headers: { "Content-Type": "application/xml" },
+  });
+}
+
+function errorResponse(error: S3Error, resource: string): Response {
+  const body = `<?xml version="1.0" encoding="UTF-8"?>\n<Error>${toXml({
+    Code: error.code,
+    Message: error.message,
+    Resource: resource,
+  })}</Error>`;
+  return new Response(body, {
+    status: error.status,
+    headers: { "Content-Type": "application/xml" },
+  });
+}
+
+// Headers for an object, shared by GetObject and HeadObject
+function objectHeaders(object: R2Object): Headers {
+  const headers = new Headers();
+  object.writeHttpMetadata(headers);
+  for (const [key, value] of Object.entries(object.customMetadata)) {
+    headers.set(`${CUSTOM_METADATA_PREFIX}${key}`, value);
+  }
+  headers.set("ETag", object.httpEtag);
+  headers.set("Last-Modified", object.uploaded.toUTCString());
+  headers.set("Accept-Ranges", "bytes");
+  headers.set("Content-Length", object.size.toString());
+  return headers;
+}
+
+// Returns the status to respond with if the request's conditional headers
+// aren't satisfied by the object. Failed `If-None-Match` and
+// `If-Modified-Since` conditions respond with 304 Not Modified, others with
+// 412 Precondition Failed.
+function preconditionStatus(
+  headers: Headers,
+  object: R2Object
+): number | undefined {
+  const onlyIf = parseOnlyIf(headers);
+  if (testR2Conditional(onlyIf, object)) return;
+  const { etagMatches, uploadedBefore } = onlyIf;
+  return testR2Conditional({ etagMatches, uploadedBefore }, object) ? 304 : 412;
+}
+
+function getCustomMetadata(headers: Headers): Record<string, string> {
+  const customMetadata: Record<string, string> = {};
+  for (const [key, value] of headers) {
+    if (key.startsWith(CUSTOM_METADATA_PREFIX)) {
+      customMetadata[key.substring(CUSTOM_METADATA_PREFIX.length)] = value;
+    }
+  }
+  return customMetadata;
+}
+
+function getHttpMetadata(headers: Headers): R2HTTPMetadata {
+  // `aws-chunked` is a transfer encoding, not the object's encoding
+  headers = new Headers(headers);
+  const encodings = headers
+    .get("Content-Encoding")
+    ?.split(",")
+    .map((encoding) => encoding.trim())
+    .filter((encoding) => encoding !== "" && encoding !== "aws-chunked");
+  if (encodings?.length) headers.set("Content-Encoding", encodings.join(", "));
+  else headers.delete("Content-Encoding");
+  // Remove undefined values, so they aren't stored
+  return JSON.parse(JSON.stringify(parseHttpMetadata(headers)));
+}
+
+// Decodes bodies sent with `STREAMING-AWS4-HMAC-SHA256-PAYLOAD` signing, used
+// by the AWS SDKs for streaming uploads. Each chunk has the form
+// `<hex size>;chunk-signature=<signature>\r\n<data>\r\n`, ending with an empty
+// chunk. Signatures aren't verified.
+function decodeAwsChunked(body: Uint8Array): Uint8Array {
+  const buffer = Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+  const chunks: Buffer[] = [];
+  let offset = 0;
+  while (offset < buffer.length) {
+    const headerEnd = buffer.indexOf("\r\n", offset);
+    if (headerEnd === -1) break;
+    const header = buffer.toString("latin1", offset, headerEnd);
+    const size = parseInt(header.split(";")[0], 16);
+    if (isNaN(size)) {
+      throw new S3Error(400, "IncompleteBody", "Invalid chunked body");
+    }
+    if (size === 0) break;
+    const start = headerEnd + 2;
+    chunks.push(buffer.subarray(start, start + size));
+    offset = start + size + 2;
+  }
+  return viewToArray(Buffer.concat(chunks));
+}
+
+async function getBody(request: Request): Promise<Uint8Array> {
+  const body = new Uint8Array(await request.arrayBuffer());
+  const contentSha256 = request.headers.get("x-amz-content-sha256");
+  return contentSha256?.startsWith("STREAMING-")
+    ? decodeAwsChunked(body)
+    : body;
+}
+
+function getMD5Checksum(headers: Headers): string | undefined {
+  const md5 = headers.get("Content-MD5");
+  return md5 === null ? undefined : Buffer.from(md5, "base64").toString("hex");
+}
+
+interface S3Request {
+  request: Request;
+  url: URL;
+  buckets: Map<string, R2Bucket>;
+  bucketName: string;
+  bucket: R2Bucket;
+}
+
+function getBucket(buckets: Map<string, R2Bucket>, name: string): R2Bucket {
+  const bucket = buckets.get(name);
+  if (bucket === undefined) {
+    throw new S3Error(
+      404,
+      "NoSuchBucket",
+      "The specified bucket does not exist."
+    );
+  }
+  return bucket;
+}
+
+function noSuchKey(): S3Error {
+  return new S3Error(404, "NoSuchKey", "The specified key does not exist.");
+}
+
+function listBuckets(buckets: Map<string, R2Bucket>): Response {
+  return xmlResponse("ListAllMyBucketsResult", {
+    Buckets: {
+      Bucket: Array.from(buckets.keys()).map((name) => ({
+        Name: name,
+        CreationDate: new Date(0).toISOString(),
+      })),
+    },
+  });
+}
+
+async function listObjectsV2({ url, bucket, bucketName }: S3Request) {
+  const params = url.searchParams;
+  const prefix = params.get("prefix") ?? undefined;
+  const delimiter = params.get("delimiter") || undefined;
+  const startAfter = params.get("start-after") ?? undefined;
+  const continuationToken = params.get("continuation-token") ?? undefined;
+  const maxKeysParam = params.get("max-keys");
+  const maxKeys = Math.min(
+    Math.max(maxKeysParam === null ? MAX_LIST_KEYS : parseInt(maxKeysParam), 1),
+    MAX_LIST_KEYS
+  );
+  if (isNaN(maxKeys)) {
+    throw new S3Error(400, "InvalidArgument", "Invalid max-keys.");
+  }
+
+  // Keys may contain characters that aren't valid in XML, so clients can ask
+  // for them to be URL-encoded
+  const encode =
+    params.get("encoding-type") === "url"
+      ? (value: string) => encodeURIComponent(value).replace(/%2F/g, "/")
+      : (value: string) => value;
+
+  const result = await bucket.list({
+    prefix,
+    delimiter,
+    limit: maxKeys,
+    // Continuation tokens take precedence over `start-after`
+    cursor: continuationToken,
+    startAfter: continuationToken === undefined ? startAfter : undefined,
+  });
+  return xmlResponse("ListBucketResult", {
+    Name: bucketName,
+    Prefix: encode(prefix ?? ""),
+    Delimiter: delimiter && encode(delimiter),
+    MaxKeys: maxKeys,
+    KeyCount: result.objects.length + result.delimitedPrefixes.length,
+    IsTruncated: result.truncated,
+    ContinuationToken: continuationToken,
+    NextContinuationToken: result.cursor,
+    StartAfter: startAfter && encode(startAfter),
+    EncodingType: params.get("encoding-type") ?? undefined,
+    Contents: result.objects.map((object) => ({
+      Key: encode(object.key),
+      LastModified: object.uploaded.toISOString(),
+      ETag: object.httpEtag,
+      Size: object.size,
+      StorageClass: "STANDARD",
+    })),
+    CommonPrefixes: result.delimitedPrefixes.map((prefix) => ({
+      Prefix: encode(prefix),
+    })),
+  });
+}
+
+async function deleteObjects({ request, bucket }: S3Request) {
+  const body = await request.text();
+  const keys = Array.from(body.matchAll(KEY_REGEXP), ([, key]) =>
+    unescapeXml(key)
+  );
+  await bucket.delete(keys);
+  const quiet = QUIET_REGEXP.test(body);
+  return xmlResponse("DeleteResult", {
+    Deleted: quiet ? [] : keys.map((key) => ({ Key: key })),
+  });
+}
+
+async function getObject({ request, bucket }: S3Request, key: string) {
+  const object = await bucket.get(key, {
+    onlyIf: request.headers,
+    range: request.headers,
+  });
+  if (object === null) throw noSuchKey();
+  const headers = objectHeaders(object);
+  const status = preconditionStatus(request.headers, object);
+  if (status !== undefined) return new Response(null, { status, headers });
+
+  // Empty objects are returned without a body
+  if (!(object instanceof R2ObjectBody)) return new Response(null, { headers });
+  const { offset = 0, length = object.size } = object.range ?? {};
+  if (request.headers.has("Range") && length !== object.size) {
+    headers.set("Content-Length", length.toString());
+    headers.set(
+      "Content-Range",
+      `bytes ${offset}-${offset + length - 1}/${object.size}`
+    );
+    return new Response(object.body, { status: 206, headers });
+  }
+  return new Response(object.body, { headers });
+}
+
+async function headObject({ request, bucket }: S3Request, key: string) {
+  const object = await bucket.head(key);
+  if (object === null) throw noSuchKey();
+  const status = preconditionStatus(request.headers, object) ?? 200;
+  return new Response(null, { status, headers: objectHeaders(object) });
+}
+
+async function putObject({ request, bucket }: S3Request, key: string) {
+  const options: R2PutOptions = {
+    httpMetadata: getHttpMetadata(request.headers),
+    customMetadata: getCustomMetadata(request.headers),
+    md5: getMD5Checksum(request.headers),
+  };
+  let object: R2Object | null;
+  try {
+    object = await bucket.put(key, await getBody(request), options);
+  } catch (e: any) {
+    if (!e?.message?.includes("checksum you specified did not match")) throw e;
+    throw new S3Error(
+      400,
+      "BadDigest",
+      "The Content-MD5 you specified did not match what we received."
+    );
+  }
+  // `onlyIf` isn't specified, so the object will always be stored
+  return new Response(null, { headers: { ETag: object?.httpEtag ?? "" } });
+}
+
+async function copyObject(
+  { request, buckets, bucket }: S3Request,
+  key: string,
+  copySource: string
+) {
+  // Copy source has the form `/<bucket>/<key>`, with an optional leading slash
+  // and version ID query, which we ignore as R2 isn't versioned
+  const source = decodeURIComponent(copySource.replace(/\?.*$/, ""));
+  const match = /^\/?([^/]+)\/(.+)$/.exec(source);
+  if (match === null) {
+    throw new S3Error(400, "InvalidArgument", "Invalid copy source.");
+  }
+  const [, sourceBucketName, sourceKey] = match;
+  const sourceBucket = getBucket(buckets, sourceBucketName);
+  const sourceObject = await sourceBucket.get(sourceKey);
+  if (sourceObject === null) throw noSuchKey();
+
+  // Metadata is copied from the source, unless it's being replaced
+  const replace =
+    request.headers.get("x-amz-metadata-directive")?.toUpperCase() ===
+    "REPLACE";
+  const object = await bucket.put(
+    key,
+    sourceObject instanceof R2ObjectBody
+      ? await sourceObject.arrayBuffer()
+      : null,
+    {
+      httpMetadata: replace
+        ? getHttpMetadata(request.headers)
+        : sourceObject.httpMetadata,
+      customMetadata: replace
+        ? getCustomMetadata(request.headers)
+        : sourceObject.customMetadata,
+    }
+  );
+  return xmlResponse("CopyObjectResult", {
+    ETag: object?.httpEtag,
+    LastModified: object?.uploaded.toISOString(),
+  });
+}
+
+async function deleteObject({ bucket }: S3Request, key: string) {
+  await bucket.delete(key);
+  return new Response(null, { status: 204 });
+}
+
+function authorizationQueryError(message: string): S3Error {
+  return new S3Error(400, "AuthorizationQueryParametersError", message);
+}
+
+// Verifies the signature and expiry of presigned requests, signed with
+// `presignS3Url()` or another SigV4 client using Miniflare's credentials
+function verifyPresignedRequest(request: Request, url: URL, clock: Clock) {
+  const params = url.searchParams;
+  const algorithm = params.get("X-Amz-Algorithm");
+  const credential = params.get("X-Amz-Credential");
+  const amzDate = params.get("X-Amz-Date");
+  const expires = params.get("X-Amz-Expires");
+  const signedHeaders = params.get("X-Amz-SignedHeaders");
+  const signature = params.get("X-Amz-Signature");
+  if (
+    algorithm === null ||
+    credential === null ||
+    amzDate === null ||
+    expires === null ||
+    signedHeaders === null ||
+    signature === null
+  ) {
+    throw authorizationQueryError(
+      "Query-string authentication version 4 requires the X-Amz-Algorithm, X-Amz-Credential, X-Amz-Signature, X-Amz-Date, X-Amz-SignedHeaders, and X-Amz-Expires parameters."
+    );
+  }
+  if (algorithm !== PRESIGNED_ALGORITHM) {
+    throw authorizationQueryError(
+      `X-Amz-Algorithm only supports "${PRESIGNED_ALGORITHM}"`
+    );
+  }
+  const date = parseAmzDate(amzDate);
+  if (date === undefined) {
+    throw authorizationQueryError(
+      "X-Amz-Date must be in the ISO8601 Long Format \"yyyyMMdd'T'HHmmss'Z'\""
+    );
+  }
+  const expiresSeconds = Number(expires);
+  if (!/^\d+$/.test(expires) || expiresSeconds > MAX_PRESIGNED_EXPIRES) {
+    throw authorizationQueryError(
+      `X-Amz-Expires must be an integer between 0 and ${MAX_PRESIGNED_EXPIRES}`
+    );
+  }
+  if (credential.split("/")[0] !== S3_ACCESS_KEY_ID) {
+    throw new S3Error(
+      403,
+      "InvalidAccessKeyId",
+      "The AWS Access Key Id you provided does not exist in our records."
+    );
+  }
+
+  const headers = new Map<string, string>();
+  for (const name of signedHeaders.split(";")) {
+    const value = name === "host" ? url.host : request.headers.get(name);
+    headers.set(name, value ?? "");
+  }
+  const expected = Buffer.from(signPresignedUrl(request.method, url, headers));
+  const actual = Buffer.from(signature);
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    throw new S3Error(
+      403,
+      "SignatureDoesNotMatch",
+      "The request signature we calculated does not match the signature you provided. Check your key and signing method."
+    );
+  }
+  if (clock() > date + expiresSeconds * 1000) {
+    throw new S3Error(403, "AccessDenied", "Request has expired");
+  }
+}
+
+function notImplemented(): S3Error {
+  return new S3Error(
+    501,
+    "NotImplemented",
+    "A header or query you provided implies functionality that is not implemented."
+  );
+}
+
+async function dispatch(
+  request: Request,
+  url: URL,
+  buckets: Map<string, R2Bucket>,
+  clock: Clock
+): Promise<Response> {
+  if (isPresignedS3Url(url)) verifyPresignedRequest(request, url, clock);
+
+  // Path has the form `/cdn-cgi/mf/r2/<bucket>/<key>`
+  const path = url.pathname.substring(S3_PATH_PREFIX.length + 1);
+  const slashIndex = path.indexOf("/");
+  const bucketName = decodeURIComponent(
+    slashIndex === -1 ? path : path.substring(0, slashIndex)
+  );
+  const key =
+    slashIndex === -1 ? "" : decodeURIComponent(path.substring(slashIndex + 1));
+  const method = request.method;
+  if (bucketName === "") {
+    if (method === "GET") return listBuckets(buckets);
+    throw notImplemented();
+  }
+
+  const bucket = getBucket(buckets, bucketName);
+  const s3Request: S3Request = { request, url, buckets, bucketName, bucket };
+  const params = url.searchParams;
+  if (UNSUPPORTED_SUBRESOURCES.some((param) => params.has(param))) {
+    throw notImplemented();
+  }
+
+  if (key === "") {
+    if (method === "HEAD") return new Response(null);
+    if (method === "GET") return listObjectsV2(s3Request);
+    if (method === "POST" && params.has("delete")) {
+      return deleteObjects(s3Request);
+    }
+    throw notImplemented();
+  }
+
+  if (method === "GET") return getObject(s3Request, key);
+  if (method === "HEAD") return headObject(s3Request, key);
+  if (method === "PUT") {
+    const copySource = request.headers.get("x-amz-copy-source");
+    if (copySource !== null) return copyObject(s3Request, key, copySource);
+    return putObject(s3Request, key);
+  }
+  if (method === "DELETE") return deleteObject(s3Request, key);
+  throw notImplemented();
+}
+
+export async function handleS3Request(
+  buckets: Map<string, R2Bucket>,
+  request: Request,
+  clock: Clock = defaultClock
+): Promise<Response> {
+  const url = new URL(request.url);
+  try {
+    return await dispatch(request, url, buckets, clock);
+  } catch (e: any) {
+    let error: S3Error;
+    const r2Match = R2_ERROR_REGEXP.exec(e?.message);
+    if (e instanceof S3Error) {
+      error = e;
+    } else if (r2Match !== null) {
+      // Convert validation errors thrown by `R2Bucket`
+      error = new S3Error(parseInt(r2Match[1]), "InvalidArgument", r2Match[2]);
+    } else {
+      throw e;
+    }
+    // HEAD responses can't have bodies
+    if (request.method === "HEAD") {
+      return new Response(null, { status: error.status });
+    }
+    return errorResponse(error, url.pathname);
+  }
+}
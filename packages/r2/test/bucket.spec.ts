@@ -13,6 +13,7 @@ import {
   R2PutOptions,
   R2PutValueType,
   createMD5Hash,
+  kSweepLifecycle,
   parseR2ObjectMetadata,
 } from "@miniflare/r2";
 import {
@@ -34,6 +35,7 @@ import {
   waitsForOutputGate,
 } from "@miniflare/shared-test";
 import { FileStorage } from "@miniflare/storage-file";
+import { MemoryStorage } from "@miniflare/storage-memory";
 import anyTest, {
   ExecutionContext,
   Macro,
@@ -1985,14 +1987,370 @@ test("list: startAfter: ensure limit and starting position are correct", async (
   t.deepEqual(delimitedPrefixes, []);
 });
 
+const PART_SIZE = 5 * 1024 * 1024;
+function partValue(byte: number, size = PART_SIZE): Uint8Array {
+  return new Uint8Array(size).fill(byte);
+}
+function createMultipartBucket(clock = () => Date.now()) {
+  const storage = new MemoryStorage(undefined, clock);
+  const multipartStorage = new MemoryStorage(undefined, clock);
+  const r2 = new R2Bucket(storage, { clock, multipartStorage });
+  return { r2, multipartStorage };
+}
+
+test("createMultipartUpload: uploads object in parts", async (t) => {
+  const { r2, multipartStorage } = createMultipartBucket();
+  const upload = await r2.createMultipartUpload("key", {
+    httpMetadata: { contentType: "text/plain" },
+    customMetadata: { foo: "bar" },
+  });
+  t.is(upload.key, "key");
+  t.regex(upload.uploadId, /^[0-9a-f]{32}$/);
+
+  // Check parts can be uploaded out of order
+  const part2 = await upload.uploadPart(2, "last");
+  const part1 = await upload.uploadPart(1, partValue(1));
+  t.deepEqual(part1, { partNumber: 1, etag: createMD5Hash(partValue(1)) });
+  t.deepEqual(part2, {
+    partNumber: 2,
+    etag: createMD5Hash(utf8Encode("last")),
+  });
+  // Check parts not visible until upload completed
+  t.is(await r2.head("key"), null);
+  t.deepEqual((await r2.list()).objects, []);
+
+  const object = await upload.complete([part2, part1]);
+  const etag = crypto
+    .createHash("md5")
+    .update(Buffer.from(part1.etag, "hex"))
+    .update(Buffer.from(part2.etag, "hex"))
+    .digest("hex");
+  t.is(object.key, "key");
+  t.is(object.size, PART_SIZE + 4);
+  t.is(object.etag, `${etag}-2`);
+  t.is(object.httpEtag, `"${etag}-2"`);
+  t.deepEqual(object.httpMetadata, { contentType: "text/plain" });
+  t.deepEqual(object.customMetadata, { foo: "bar" });
+  // Multipart objects have no MD5 checksum
+  t.deepEqual(object.checksums.toJSON(), {});
+
+  const body = await r2.get("key");
+  assert(body instanceof R2ObjectBody);
+  t.is(body.etag, `${etag}-2`);
+  const value = new Uint8Array(await body.arrayBuffer());
+  t.deepEqual(value.subarray(0, PART_SIZE), partValue(1));
+  t.is(Buffer.from(value.subarray(PART_SIZE)).toString(), "last");
+
+  // Check upload and parts deleted once completed
+  t.deepEqual((await multipartStorage.list()).keys, []);
+  await t.throwsAsync(upload.uploadPart(3, "value"), {
+    message:
+      "R2 UPLOAD_PART failed: (404) The specified multipart upload does not exist.",
+  });
+});
+test("createMultipartUpload: validates key and metadata", async (t) => {
+  const { r2 } = t.context;
+  await t.throwsAsync(r2.createMultipartUpload("".padStart(1025, "x")), {
+    message:
+      "R2 CREATE_MULTIPART_UPLOAD failed: (414) UTF-8 encoded length of 1025 exceeds key length limit of 1024.",
+  });
+  await t.throwsAsync(
+    r2.createMultipartUpload("key", { customMetadata: { foo: 1 as any } }),
+    { message: "R2 PUT failed: (400) customMetadata values must be strings." }
+  );
+});
+test("createMultipartUpload: cleans up abandoned uploads", async (t) => {
+  let now = 1_000_000;
+  const { r2, multipartStorage } = createMultipartBucket(() => now);
+  const upload = await r2.createMultipartUpload("key");
+  const part = await upload.uploadPart(1, "value");
+
+  // Check upload still exists just before 7 days have passed
+  now += 7 * 24 * 60 * 60 * 1000 - 1000;
+  const other = await r2.createMultipartUpload("other");
+  t.is((await multipartStorage.list()).keys.length, 3);
+
+  // Check upload and parts deleted once 7 days have passed
+  now += 1000;
+  await r2.createMultipartUpload("another");
+  const names = (await multipartStorage.list()).keys.map(({ name }) => name);
+  t.false(names.some((name) => name.startsWith(upload.uploadId)));
+  t.true(names.includes(`${other.uploadId}/upload`));
+  await t.throwsAsync(upload.complete([part]), {
+    message:
+      "R2 COMPLETE_MULTIPART_UPLOAD failed: (404) The specified multipart upload does not exist.",
+  });
+});
+test("resumeMultipartUpload: resumes existing upload", async (t) => {
+  const { r2 } = t.context;
+  const upload = await r2.createMultipartUpload("key");
+  const part1 = await upload.uploadPart(1, partValue(1));
+
+  const resumed = r2.resumeMultipartUpload("key", upload.uploadId);
+  t.is(resumed.key, "key");
+  t.is(resumed.uploadId, upload.uploadId);
+  const part2 = await resumed.uploadPart(2, partValue(2, 1));
+  const object = await resumed.complete([part1, part2]);
+  t.is(object.size, PART_SIZE + 1);
+  t.is((await r2.head("key"))?.etag, object.etag);
+});
+test("resumeMultipartUpload: throws on use if upload doesn't exist", async (t) => {
+  const { r2 } = t.context;
+  const upload = await r2.createMultipartUpload("key");
+  const expectations: ThrowsExpectation = {
+    message: /\(404\) The specified multipart upload does not exist\.$/,
+  };
+  // Check upload IDs are specific to keys
+  const otherKey = r2.resumeMultipartUpload("other", upload.uploadId);
+  await t.throwsAsync(otherKey.uploadPart(1, "value"), expectations);
+  const invalid = r2.resumeMultipartUpload("key", "../upload");
+  await t.throwsAsync(invalid.uploadPart(1, "value"), expectations);
+  await t.throwsAsync(invalid.complete([]), expectations);
+  await t.throwsAsync(invalid.abort(), expectations);
+});
+test("uploadPart: validates part number", async (t) => {
+  const { r2 } = t.context;
+  const upload = await r2.createMultipartUpload("key");
+  const message =
+    "R2 UPLOAD_PART failed: (400) Part number must be between 1 and 10000 (inclusive).";
+  await t.throwsAsync(upload.uploadPart(0, "value"), { message });
+  await t.throwsAsync(upload.uploadPart(10001, "value"), { message });
+  await t.throwsAsync(upload.uploadPart(1.5, "value"), { message });
+  await upload.uploadPart(10000, "value");
+});
+test("uploadPart: replaces existing part", async (t) => {
+  const { r2 } = t.context;
+  const upload = await r2.createMultipartUpload("key");
+  const part1 = await upload.uploadPart(1, "value1");
+  const part2 = await upload.uploadPart(1, "value2");
+  await t.throwsAsync(upload.complete([part1]), {
+    message:
+      "R2 COMPLETE_MULTIPART_UPLOAD failed: (400) One or more of the specified parts could not be found.",
+  });
+  await upload.complete([part2]);
+  t.is(await (await r2.get("key"))?.text(), "value2");
+});
+test("complete: validates parts", async (t) => {
+  const { r2 } = t.context;
+  const upload = await r2.createMultipartUpload("key");
+  const part1 = await upload.uploadPart(1, partValue(1));
+  const part2 = await upload.uploadPart(2, partValue(2, PART_SIZE + 1));
+  const part3 = await upload.uploadPart(3, "value");
+  const part4 = await upload.uploadPart(4, "value");
+  const prefix = "R2 COMPLETE_MULTIPART_UPLOAD failed: (400)";
+
+  await t.throwsAsync(upload.complete([]), {
+    message: `${prefix} You must specify at least one part.`,
+  });
+  await t.throwsAsync(upload.complete([part1, part1]), {
+    message: `${prefix} Part numbers must be unique.`,
+  });
+  await t.throwsAsync(upload.complete([{ partNumber: 4, etag: part1.etag }]), {
+    message: `${prefix} One or more of the specified parts could not be found.`,
+  });
+  await t.throwsAsync(upload.complete([part3, part4]), {
+    message: `${prefix} Your proposed upload is smaller than the minimum allowed object size.`,
+  });
+  await t.throwsAsync(upload.complete([part1, part2, part3]), {
+    message: `${prefix} All non-trailing parts must have the same length.`,
+  });
+  // Check upload can still be completed after failing
+  const object = await upload.complete([part1, part3]);
+  t.is(object.size, PART_SIZE + 5);
+});
+test("abort: deletes upload and parts", async (t) => {
+  const { r2, multipartStorage } = createMultipartBucket();
+  const upload = await r2.createMultipartUpload("key");
+  const part = await upload.uploadPart(1, "value");
+  await upload.abort();
+  t.deepEqual((await multipartStorage.list()).keys, []);
+  await t.throwsAsync(upload.complete([part]), {
+    message:
+      "R2 COMPLETE_MULTIPART_UPLOAD failed: (404) The specified multipart upload does not exist.",
+  });
+  await t.throwsAsync(upload.abort(), {
+    message:
+      "R2 ABORT_MULTIPART_UPLOAD failed: (404) The specified multipart upload does not exist.",
+  });
+  t.is(await r2.head("key"), null);
+});
+test("multipart operations wait for gates and increment subrequest count", async (t) => {
+  const { r2, multipartStorage } = createMultipartBucket();
+  const upload = await waitsForOutputGate(
+    t,
+    () => r2.createMultipartUpload("key"),
+    async () => (await multipartStorage.list()).keys.length
+  );
+  await waitsForOutputGate(
+    t,
+    () => upload.uploadPart(1, "value"),
+    () => multipartStorage.has(`${upload.uploadId}/1`)
+  );
+  await waitsForInputGate(t, () => upload.uploadPart(2, "value"));
+
+  const ctx = new RequestContext(requestCtxOptions);
+  const part = await ctx.runWith(() => upload.uploadPart(1, "value"));
+  await ctx.runWith(() => upload.complete([part]));
+  t.is(ctx.internalSubrequests, 2);
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+function createLifecycleBucket(clock: () => number) {
+  const storage = new MemoryStorage(undefined, clock);
+  const multipartStorage = new MemoryStorage(undefined, clock);
+  const r2 = new R2Bucket(storage, {
+    clock,
+    multipartStorage,
+    lifecycle: [
+      { prefix: "tmp/", deleteAfterDays: 1 },
+      { deleteAfterDays: 30, abortMultipartUploadsAfterDays: 2 },
+    ],
+  });
+  return { r2, storage, multipartStorage };
+}
+test("lifecycle: uses clock for upload time", async (t) => {
+  const { r2 } = createLifecycleBucket(() => 1_000_000);
+  const object = await r2.put("key", "value");
+  t.is(object?.uploaded.getTime(), 1_000_000);
+});
+test("lifecycle: expires objects on read", async (t) => {
+  let now = 1_000_000;
+  const { r2, storage } = createLifecycleBucket(() => now);
+  await r2.put("tmp/key", "value");
+  await r2.put("key", "value");
+
+  // Check objects still exist just before expiring
+  now += DAY - 1;
+  t.not(await r2.head("tmp/key"), null);
+  t.is(await (await r2.get("tmp/key"))?.text(), "value");
+
+  // Check rules only apply to objects with prefix
+  now += 1;
+  t.is(await r2.head("tmp/key"), null);
+  t.is(await r2.get("tmp/key"), null);
+  t.not(await r2.head("key"), null);
+  t.false(await storage.has("tmp/key"));
+
+  // Check re-uploading resets upload time
+  await r2.put("tmp/key", "value");
+  t.not(await r2.head("tmp/key"), null);
+  now += 29 * DAY;
+  t.is(await r2.get("key"), null);
+});
+test("lifecycle: expires objects on list", async (t) => {
+  let now = 1_000_000;
+  const { r2, storage } = createLifecycleBucket(() => now);
+  await r2.put("tmp/a", "value");
+  await r2.put("tmp/b", "value");
+  now += DAY;
+  await r2.put("tmp/c", "value");
+  const { objects, truncated } = await r2.list({ limit: 1 });
+  t.deepEqual(
+    objects.map(({ key }) => key),
+    ["tmp/c"]
+  );
+  t.false(truncated);
+  t.deepEqual(
+    (await storage.list()).keys.map(({ name }) => name),
+    ["tmp/c"]
+  );
+});
+test("lifecycle: only deletes expired objects on list pages", async (t) => {
+  let now = 1_000_000;
+  const { r2, storage } = createLifecycleBucket(() => now);
+  await r2.put("tmp/a", "value");
+  await r2.put("tmp/d", "value");
+  now += DAY;
+  await r2.put("tmp/b", "value");
+  await r2.put("tmp/c", "value");
+  const { objects, truncated, cursor } = await r2.list({ limit: 2 });
+  t.deepEqual(
+    objects.map(({ key }) => key),
+    ["tmp/b", "tmp/c"]
+  );
+  t.true(truncated);
+  // Check expired objects after the page aren't deleted until listed
+  t.deepEqual(
+    (await storage.list()).keys.map(({ name }) => name),
+    ["tmp/b", "tmp/c", "tmp/d"]
+  );
+  const next = await r2.list({ limit: 2, cursor });
+  t.deepEqual(next.objects, []);
+  t.false(next.truncated);
+  t.false(await storage.has("tmp/d"));
+});
+test("lifecycle: waits for output gate to open before deleting expired objects", async (t) => {
+  let now = 1_000_000;
+  const { r2, storage } = createLifecycleBucket(() => now);
+  await r2.put("tmp/a", "value");
+  await r2.put("tmp/b", "value");
+  now += DAY;
+  await waitsForOutputGate(
+    t,
+    () => r2.head("tmp/a"),
+    async () => !(await storage.has("tmp/a"))
+  );
+  await waitsForOutputGate(
+    t,
+    () => r2.list(),
+    async () => !(await storage.has("tmp/b"))
+  );
+});
+test("lifecycle: aborts incomplete multipart uploads", async (t) => {
+  let now = 1_000_000;
+  const { r2, multipartStorage } = createLifecycleBucket(() => now);
+  const upload = await r2.createMultipartUpload("key");
+  const part = await upload.uploadPart(1, "value");
+  now += 2 * DAY - 1;
+  await upload.uploadPart(2, "value");
+  now += 1;
+  await t.throwsAsync(upload.complete([part]), {
+    message:
+      "R2 COMPLETE_MULTIPART_UPLOAD failed: (404) The specified multipart upload does not exist.",
+  });
+  t.is((await multipartStorage.list()).keys.length, 0);
+});
+test("lifecycle: sweeps expired objects and uploads", async (t) => {
+  let now = 1_000_000;
+  const { r2, storage, multipartStorage } = createLifecycleBucket(() => now);
+  await r2.put("tmp/key", "value");
+  await r2.put("key", "value");
+  const upload = await r2.createMultipartUpload("key");
+  await upload.uploadPart(1, "value");
+  const storageKeys = async () =>
+    (await storage.list()).keys.map(({ name }) => name);
+
+  await r2[kSweepLifecycle]();
+  t.deepEqual(await storageKeys(), ["key", "tmp/key"]);
+  t.is((await multipartStorage.list()).keys.length, 2);
+
+  now += 2 * DAY;
+  await r2[kSweepLifecycle]();
+  t.deepEqual(await storageKeys(), ["key"]);
+  t.is((await multipartStorage.list()).keys.length, 0);
+
+  now += 28 * DAY;
+  await r2[kSweepLifecycle]();
+  t.deepEqual(await storageKeys(), []);
+});
 test("hides implementation details", (t) => {
   const { r2 } = t.context;
   t.deepEqual(getObjectProperties(r2), [
+    "createMultipartUpload",
     "delete",
     "get",
     "head",
     "list",
     "put",
+    "resumeMultipartUpload",
+  ]);
+  const upload = r2.resumeMultipartUpload("key", "id");
+  t.deepEqual(getObjectProperties(upload), [
+    "abort",
+    "complete",
+    "key",
+    "uploadId",
+    "uploadPart",
   ]);
 });
 test("operations throw outside request handler", async (t) => {
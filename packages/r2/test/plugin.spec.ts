@@ -40,10 +40,12 @@ test("R2Plugin: parses options from argv", (t) => {
     "BUCKET2",
     "--r2-persist",
     "path",
+    "--r2-s3-endpoint",
   ]);
   t.deepEqual(options, {
     r2Buckets: ["BUCKET1", "BUCKET2"],
     r2Persist: "path",
+    r2S3Endpoint: true,
   });
   options = parsePluginArgv(R2Plugin, [
     "-r",
@@ -60,19 +62,46 @@ test("R2Plugin: parses options from argv", (t) => {
 test("R2Plugin: parses options from wrangler config", (t) => {
   const options = parsePluginWranglerConfig(R2Plugin, {
     r2_buckets: [{ binding: "BUCKET1" }, { binding: "BUCKET2" }],
-    miniflare: { r2_persist: "path" },
+    miniflare: {
+      r2_persist: "path",
+      r2_s3_endpoint: true,
+      r2_lifecycle: {
+        BUCKET1: [
+          {
+            prefix: "tmp/",
+            delete_after_days: 1,
+            abort_multipart_uploads_after_days: 2,
+          },
+        ],
+      },
+    },
   });
   t.deepEqual(options, {
     r2Buckets: ["BUCKET1", "BUCKET2"],
     r2Persist: "path",
+    r2S3Endpoint: true,
+    r2Lifecycle: {
+      BUCKET1: [
+        {
+          prefix: "tmp/",
+          deleteAfterDays: 1,
+          abortMultipartUploadsAfterDays: 2,
+        },
+      ],
+    },
   });
 });
 test("R2Plugin: logs options", (t) => {
   const logs = logPluginOptions(R2Plugin, {
     r2Buckets: ["BUCKET1", "BUCKET2"],
     r2Persist: true,
+    r2S3Endpoint: true,
   });
-  t.deepEqual(logs, ["R2 Buckets: BUCKET1, BUCKET2", "R2 Persistence: true"]);
+  t.deepEqual(logs, [
+    "R2 Buckets: BUCKET1, BUCKET2",
+    "R2 Persistence: true",
+    "R2 S3 Endpoint: true",
+  ]);
 });
 test("R2Plugin: getBucket: creates bucket", async (t) => {
   const map = new Map<string, StoredValueMeta>();
@@ -83,6 +112,79 @@ test("R2Plugin: getBucket: creates bucket", async (t) => {
   await bucket.put("key", "value");
   t.true(map.has("key"));
 });
+test("R2Plugin: getBucket: stores multipart uploads separately", async (t) => {
+  const map = new Map<string, StoredValueMeta>();
+  const multipartMap = new Map<string, StoredValueMeta>();
+  const factory = new MemoryStorageFactory({
+    ["test://map:BUCKET"]: map,
+    ["test://map:BUCKET:multipart"]: multipartMap,
+  });
+
+  const plugin = new R2Plugin(ctx, { r2Persist: "test://map" });
+  const bucket = plugin.getBucket(factory, "BUCKET");
+  const upload = await bucket.createMultipartUpload("key");
+  const part = await upload.uploadPart(1, "value");
+  t.is(map.size, 0);
+  t.true(multipartMap.has(`${upload.uploadId}/1`));
+
+  // Check upload can be resumed from another bucket instance
+  const resumed = plugin
+    .getBucket(factory, "BUCKET")
+    .resumeMultipartUpload("key", upload.uploadId);
+  await resumed.complete([part]);
+  t.true(map.has("key"));
+  t.is(multipartMap.size, 0);
+});
+test("R2Plugin: getBucket: applies bucket's lifecycle rules", async (t) => {
+  const factory = new MemoryStorageFactory();
+  const plugin = new R2Plugin(ctx, {
+    r2Buckets: ["BUCKET1", "BUCKET2"],
+    r2Lifecycle: { BUCKET1: [{ deleteAfterDays: 1 }] },
+  });
+  const bucket1 = plugin.getBucket(factory, "BUCKET1");
+  const bucket2 = plugin.getBucket(factory, "BUCKET2");
+  await bucket1.put("key", "value");
+  await bucket2.put("key", "value");
+
+  // Check objects only expired in BUCKET1
+  const dayLater = () => Date.now() + 86_400_000;
+  t.is(
+    await plugin.getBucket(factory, "BUCKET1", false, dayLater).head("key"),
+    null
+  );
+  t.not(
+    await plugin.getBucket(factory, "BUCKET2", false, dayLater).head("key"),
+    null
+  );
+});
+test("R2Plugin: sweepLifecycle: removes expired objects from all buckets", async (t) => {
+  const map1 = new Map<string, StoredValueMeta>();
+  const map2 = new Map<string, StoredValueMeta>();
+  const factory = new MemoryStorageFactory({
+    ["test://map:BUCKET1"]: map1,
+    ["test://map:BUCKET2"]: map2,
+  });
+  const plugin = new R2Plugin(ctx, {
+    r2Buckets: ["BUCKET1", "BUCKET2"],
+    r2Persist: "test://map",
+    r2Lifecycle: {
+      BUCKET1: [{ prefix: "tmp/", deleteAfterDays: 1 }],
+      BUCKET2: [{ deleteAfterDays: 2 }],
+    },
+  });
+  await plugin.getBucket(factory, "BUCKET1").put("tmp/key", "value");
+  await plugin.getBucket(factory, "BUCKET1").put("key", "value");
+  await plugin.getBucket(factory, "BUCKET2").put("key", "value");
+
+  await plugin.sweepLifecycle(factory);
+  t.is(map1.size, 2);
+  t.is(map2.size, 1);
+  await plugin.sweepLifecycle(factory, () => Date.now() + 86_400_000);
+  t.deepEqual([...map1.keys()], ["key"]);
+  t.is(map2.size, 1);
+  await plugin.sweepLifecycle(factory, () => Date.now() + 2 * 86_400_000);
+  t.is(map2.size, 0);
+});
 test("R2Plugin: getBucket: resolves persist path relative to rootPath", async (t) => {
   const tmp = await useTmp(t);
   const map = new Map<string, StoredValueMeta>();
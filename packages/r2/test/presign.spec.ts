@@ -0,0 +1,184 @@
+import { Request, RequestInit } from "@miniflare/core";
+import {
+  R2Bucket,
+  S3_ACCESS_KEY_ID,
+  handleS3Request,
+  isPresignedS3Url,
+  presignS3Url,
+} from "@miniflare/r2";
+import { testClock, utf8Encode } from "@miniflare/shared-test";
+import { MemoryStorage } from "@miniflare/storage-memory";
+import test from "ava";
+
+const ENDPOINT = "http://localhost:8787/cdn-cgi/mf/r2";
+
+function useBucket() {
+  const clock = { timestamp: Date.UTC(2022, 0, 1) };
+  const bucket = new R2Bucket(new MemoryStorage());
+  const buckets = new Map([["BUCKET", bucket]]);
+  const send = (url: string, init?: RequestInit) =>
+    handleS3Request(buckets, new Request(url, init), () => clock.timestamp);
+  return { clock, bucket, send };
+}
+
+test("presignS3Url: creates presigned URL", (t) => {
+  const url = new URL(
+    presignS3Url(
+      ENDPOINT,
+      "BUCKET",
+      "dir/key name",
+      { method: "PUT", expiresIn: 60 },
+      testClock
+    )
+  );
+  t.is(url.origin, "http://localhost:8787");
+  t.is(url.pathname, "/cdn-cgi/mf/r2/BUCKET/dir/key%20name");
+  t.true(isPresignedS3Url(url));
+  const params = Object.fromEntries(url.searchParams);
+  t.is(params["X-Amz-Algorithm"], "AWS4-HMAC-SHA256");
+  t.is(
+    params["X-Amz-Credential"],
+    `${S3_ACCESS_KEY_ID}/19700101/auto/s3/aws4_request`
+  );
+  t.is(params["X-Amz-Date"], "19700101T001230Z");
+  t.is(params["X-Amz-Expires"], "60");
+  t.is(params["X-Amz-SignedHeaders"], "host");
+  t.regex(params["X-Amz-Signature"], /^[0-9a-f]{64}$/);
+});
+test("presignS3Url: validates expiresIn", (t) => {
+  const expectations = {
+    instanceOf: TypeError,
+    message: "expiresIn must be an integer between 1 and 604800 (inclusive).",
+  };
+  t.throws(
+    () => presignS3Url(ENDPOINT, "BUCKET", "key", { expiresIn: 0 }),
+    expectations
+  );
+  t.throws(
+    () => presignS3Url(ENDPOINT, "BUCKET", "key", { expiresIn: 604801 }),
+    expectations
+  );
+  t.throws(
+    () => presignS3Url(ENDPOINT, "BUCKET", "key", { expiresIn: 1.5 }),
+    expectations
+  );
+});
+test("isPresignedS3Url: checks for query-string authentication", (t) => {
+  t.false(isPresignedS3Url(new URL(`${ENDPOINT}/BUCKET/key`)));
+  t.true(
+    isPresignedS3Url(new URL(`${ENDPOINT}/BUCKET/key?X-Amz-Signature=abc`))
+  );
+});
+test("handleS3Request: serves presigned GET and PUT requests", async (t) => {
+  const { clock, bucket, send } = useBucket();
+  const presign = (method: "GET" | "PUT") =>
+    presignS3Url(
+      ENDPOINT,
+      "BUCKET",
+      "dir/key name",
+      { method },
+      () => clock.timestamp
+    );
+
+  let res = await send(presign("PUT"), {
+    method: "PUT",
+    body: utf8Encode("value"),
+  });
+  t.is(res.status, 200);
+  t.is(await (await bucket.get("dir/key name"))?.text(), "value");
+
+  res = await send(presign("GET"));
+  t.is(res.status, 200);
+  t.is(await res.text(), "value");
+});
+test("handleS3Request: rejects expired presigned URLs", async (t) => {
+  const { clock, bucket, send } = useBucket();
+  await bucket.put("key", "value");
+  const url = presignS3Url(
+    ENDPOINT,
+    "BUCKET",
+    "key",
+    { expiresIn: 60 },
+    () => clock.timestamp
+  );
+  clock.timestamp += 60_000;
+  t.is((await send(url)).status, 200);
+  clock.timestamp += 1;
+  const res = await send(url);
+  t.is(res.status, 403);
+  const text = await res.text();
+  t.regex(text, /<Code>AccessDenied<\/Code>/);
+  t.regex(text, /<Message>Request has expired<\/Message>/);
+});
+test("handleS3Request: rejects tampered presigned URLs", async (t) => {
+  const { clock, bucket, send } = useBucket();
+  await bucket.put("key", "value");
+  await bucket.put("other", "value");
+  const url = presignS3Url(
+    ENDPOINT,
+    "BUCKET",
+    "key",
+    { method: "GET", expiresIn: 60 },
+    () => clock.timestamp
+  );
+  const assertSignatureMismatch = async (url: string, init?: RequestInit) => {
+    const res = await send(url, init);
+    t.is(res.status, 403);
+    t.regex(await res.text(), /<Code>SignatureDoesNotMatch<\/Code>/);
+  };
+
+  // Check different key, method, host, expiry and signature
+  await assertSignatureMismatch(url.replace("/key?", "/other?"));
+  await assertSignatureMismatch(url, { method: "DELETE" });
+  await assertSignatureMismatch(url.replace("localhost:8787", "127.0.0.1"));
+  await assertSignatureMismatch(
+    url.replace("X-Amz-Expires=60", "X-Amz-Expires=3600")
+  );
+  await assertSignatureMismatch(
+    url.replace(/X-Amz-Signature=[0-9a-f]/, "X-Amz-Signature=x")
+  );
+  // Check additional query parameters are signed too
+  await assertSignatureMismatch(`${url}&list-type=2`);
+  t.not(await bucket.head("key"), null);
+});
+test("handleS3Request: validates presigned URL parameters", async (t) => {
+  const { clock, send } = useBucket();
+  const url = presignS3Url(
+    ENDPOINT,
+    "BUCKET",
+    "key",
+    { expiresIn: 60 },
+    () => clock.timestamp
+  );
+  const assertError = async (url: string, status: number, code: string) => {
+    const res = await send(url);
+    t.is(res.status, status);
+    t.regex(await res.text(), new RegExp(`<Code>${code}</Code>`));
+  };
+
+  await assertError(
+    url.replace(/&X-Amz-Date=[^&]+/, ""),
+    400,
+    "AuthorizationQueryParametersError"
+  );
+  await assertError(
+    url.replace("AWS4-HMAC-SHA256", "AWS4-HMAC-SHA1"),
+    400,
+    "AuthorizationQueryParametersError"
+  );
+  await assertError(
+    url.replace(/X-Amz-Date=[^&]+/, "X-Amz-Date=2022-01-01"),
+    400,
+    "AuthorizationQueryParametersError"
+  );
+  await assertError(
+    url.replace("X-Amz-Expires=60", "X-Amz-Expires=604801"),
+    400,
+    "AuthorizationQueryParametersError"
+  );
+  await assertError(
+    url.replace(`X-Amz-Credential=${S3_ACCESS_KEY_ID}`, "X-Amz-Credential=bad"),
+    403,
+    "InvalidAccessKeyId"
+  );
+});
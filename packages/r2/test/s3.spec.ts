@@ -0,0 +1,301 @@
+import crypto from "crypto";
+import { Request, RequestInit, Response } from "@miniflare/core";
+import { R2Bucket, handleS3Request } from "@miniflare/r2";
+import { utf8Encode } from "@miniflare/shared-test";
+import { MemoryStorage } from "@miniflare/storage-memory";
+import anyTest, { TestInterface } from "ava";
+
+interface Context {
+  bucket: R2Bucket;
+  other: R2Bucket;
+  s3: (path: string, init?: RequestInit) => Promise<Response>;
+}
+
+const test = anyTest as TestInterface<Context>;
+
+test.beforeEach((t) => {
+  const bucket = new R2Bucket(new MemoryStorage());
+  const other = new R2Bucket(new MemoryStorage());
+  const buckets = new Map([
+    ["BUCKET", bucket],
+    ["OTHER", other],
+  ]);
+  const s3 = (path: string, init?: RequestInit) =>
+    handleS3Request(
+      buckets,
+      new Request(`http://localhost/cdn-cgi/mf/r2${path}`, init)
+    );
+  t.context = { bucket, other, s3 };
+});
+
+function md5Base64(value: string): string {
+  return crypto.createHash("md5").update(value).digest("base64");
+}
+
+test("ListBuckets: lists buckets", async (t) => {
+  const { s3 } = t.context;
+  const res = await s3("/");
+  t.is(res.status, 200);
+  const text = await res.text();
+  t.regex(text, /<Bucket><Name>BUCKET<\/Name>/);
+  t.regex(text, /<Bucket><Name>OTHER<\/Name>/);
+});
+test("HeadBucket: checks bucket exists", async (t) => {
+  const { s3 } = t.context;
+  t.is((await s3("/BUCKET", { method: "HEAD" })).status, 200);
+  t.is((await s3("/MISSING", { method: "HEAD" })).status, 404);
+});
+test("PutObject: stores object with metadata", async (t) => {
+  const { s3, bucket } = t.context;
+  const res = await s3("/BUCKET/dir/key%20name", {
+    method: "PUT",
+    headers: {
+      "Content-Type": "text/plain",
+      "Content-MD5": md5Base64("value"),
+      "x-amz-meta-foo": "bar",
+    },
+    body: "value",
+  });
+  t.is(res.status, 200);
+  const object = await bucket.get("dir/key name");
+  t.is(await object?.text(), "value");
+  t.is(res.headers.get("ETag"), object?.httpEtag);
+  t.deepEqual(object?.httpMetadata, { contentType: "text/plain" });
+  t.deepEqual(object?.customMetadata, { foo: "bar" });
+});
+test("PutObject: decodes aws-chunked bodies", async (t) => {
+  const { s3, bucket } = t.context;
+  const signature = "chunk-signature=" + "0".repeat(64);
+  const body = `3;${signature}\r\nval\r\n2;${signature}\r\nue\r\n0;${signature}\r\n\r\n`;
+  await s3("/BUCKET/key", {
+    method: "PUT",
+    headers: {
+      "Content-Encoding": "aws-chunked",
+      "x-amz-content-sha256": "STREAMING-AWS4-HMAC-SHA256-PAYLOAD",
+      "x-amz-decoded-content-length": "5",
+    },
+    body: utf8Encode(body),
+  });
+  const object = await bucket.get("key");
+  t.is(await object?.text(), "value");
+  t.deepEqual(object?.httpMetadata, {});
+});
+test("PutObject: validates Content-MD5", async (t) => {
+  const { s3, bucket } = t.context;
+  const res = await s3("/BUCKET/key", {
+    method: "PUT",
+    headers: { "Content-MD5": md5Base64("other") },
+    body: "value",
+  });
+  t.is(res.status, 400);
+  t.regex(await res.text(), /<Code>BadDigest<\/Code>/);
+  t.is(await bucket.head("key"), null);
+});
+test("GetObject: gets object", async (t) => {
+  const { s3, bucket } = t.context;
+  const object = await bucket.put("key", "value", {
+    httpMetadata: { contentType: "text/plain" },
+    customMetadata: { foo: "bar" },
+  });
+  const res = await s3("/BUCKET/key");
+  t.is(res.status, 200);
+  t.is(await res.text(), "value");
+  t.is(res.headers.get("Content-Type"), "text/plain");
+  t.is(res.headers.get("Content-Length"), "5");
+  t.is(res.headers.get("ETag"), object?.httpEtag);
+  t.is(res.headers.get("Last-Modified"), object?.uploaded.toUTCString());
+  t.is(res.headers.get("x-amz-meta-foo"), "bar");
+});
+test("GetObject: gets ranges", async (t) => {
+  const { s3, bucket } = t.context;
+  await bucket.put("key", "0123456789");
+  const res = await s3("/BUCKET/key", { headers: { Range: "bytes=2-4" } });
+  t.is(res.status, 206);
+  t.is(res.headers.get("Content-Range"), "bytes 2-4/10");
+  t.is(res.headers.get("Content-Length"), "3");
+  t.is(await res.text(), "234");
+});
+test("GetObject: respects conditional headers", async (t) => {
+  const { s3, bucket } = t.context;
+  const object = await bucket.put("key", "value");
+  const etag = object?.httpEtag ?? "";
+  let res = await s3("/BUCKET/key", { headers: { "If-None-Match": etag } });
+  t.is(res.status, 304);
+  t.is(res.body, null);
+  res = await s3("/BUCKET/key", { headers: { "If-Match": '"bad"' } });
+  t.is(res.status, 412);
+  res = await s3("/BUCKET/key", { headers: { "If-Match": etag } });
+  t.is(res.status, 200);
+  t.is(await res.text(), "value");
+});
+test("GetObject: returns NoSuchKey for non-existent keys", async (t) => {
+  const { s3 } = t.context;
+  const res = await s3("/BUCKET/key");
+  t.is(res.status, 404);
+  const text = await res.text();
+  t.regex(text, /<Code>NoSuchKey<\/Code>/);
+  t.regex(text, /<Resource>\/cdn-cgi\/mf\/r2\/BUCKET\/key<\/Resource>/);
+});
+test("GetObject: returns NoSuchBucket for non-existent buckets", async (t) => {
+  const { s3 } = t.context;
+  const res = await s3("/MISSING/key");
+  t.is(res.status, 404);
+  t.regex(await res.text(), /<Code>NoSuchBucket<\/Code>/);
+});
+test("HeadObject: gets object metadata", async (t) => {
+  const { s3, bucket } = t.context;
+  const object = await bucket.put("key", "value");
+  let res = await s3("/BUCKET/key", { method: "HEAD" });
+  t.is(res.status, 200);
+  t.is(res.headers.get("Content-Length"), "5");
+  t.is(res.headers.get("ETag"), object?.httpEtag);
+  t.is(res.body, null);
+  res = await s3("/BUCKET/missing", { method: "HEAD" });
+  t.is(res.status, 404);
+  t.is(res.body, null);
+});
+test("DeleteObject: deletes object", async (t) => {
+  const { s3, bucket } = t.context;
+  await bucket.put("key", "value");
+  const res = await s3("/BUCKET/key", { method: "DELETE" });
+  t.is(res.status, 204);
+  t.is(await bucket.head("key"), null);
+});
+test("DeleteObjects: deletes objects", async (t) => {
+  const { s3, bucket } = t.context;
+  await bucket.put("a", "value");
+  await bucket.put("b&c", "value");
+  await bucket.put("d", "value");
+  const res = await s3("/BUCKET?delete", {
+    method: "POST",
+    body: `<?xml version="1.0" encoding="UTF-8"?><Delete><Object><Key>a</Key></Object><Object><Key>b&amp;c</Key></Object></Delete>`,
+  });
+  t.is(res.status, 200);
+  const text = await res.text();
+  t.regex(text, /<Deleted><Key>a<\/Key><\/Deleted>/);
+  t.regex(text, /<Deleted><Key>b&amp;c<\/Key><\/Deleted>/);
+  const { objects } = await bucket.list();
+  t.deepEqual(
+    objects.map(({ key }) => key),
+    ["d"]
+  );
+});
+test("ListObjectsV2: lists objects", async (t) => {
+  const { s3, bucket } = t.context;
+  const object = await bucket.put("dir/a", "value");
+  await bucket.put("dir/sub/b", "value");
+  await bucket.put("other", "value");
+  const res = await s3("/BUCKET?list-type=2&prefix=dir%2F&delimiter=%2F");
+  t.is(res.status, 200);
+  const text = await res.text();
+  t.regex(text, /<Name>BUCKET<\/Name><Prefix>dir\/<\/Prefix>/);
+  t.regex(text, /<KeyCount>2<\/KeyCount><IsTruncated>false<\/IsTruncated>/);
+  t.true(
+    text.includes(
+      `<Contents><Key>dir/a</Key><LastModified>${object?.uploaded.toISOString()}</LastModified><ETag>&quot;${
+        object?.etag
+      }&quot;</ETag><Size>5</Size><StorageClass>STANDARD</StorageClass></Contents>`
+    )
+  );
+  t.regex(
+    text,
+    /<CommonPrefixes><Prefix>dir\/sub\/<\/Prefix><\/CommonPrefixes>/
+  );
+  t.notRegex(text, /other/);
+});
+test("ListObjectsV2: paginates", async (t) => {
+  const { s3, bucket } = t.context;
+  await bucket.put("a", "value");
+  await bucket.put("b", "value");
+  await bucket.put("c", "value");
+  let res = await s3("/BUCKET?list-type=2&max-keys=2");
+  let text = await res.text();
+  t.regex(text, /<IsTruncated>true<\/IsTruncated>/);
+  const token = /<NextContinuationToken>(.+)<\/NextContinuationToken>/.exec(
+    text
+  )?.[1];
+  t.not(token, undefined);
+  t.deepEqual(
+    Array.from(text.matchAll(/<Key>(.+?)<\/Key>/g), ([, key]) => key),
+    ["a", "b"]
+  );
+
+  res = await s3(
+    `/BUCKET?list-type=2&max-keys=2&continuation-token=${encodeURIComponent(
+      token ?? ""
+    )}`
+  );
+  text = await res.text();
+  t.regex(text, /<IsTruncated>false<\/IsTruncated>/);
+  t.deepEqual(
+    Array.from(text.matchAll(/<Key>(.+?)<\/Key>/g), ([, key]) => key),
+    ["c"]
+  );
+
+  res = await s3("/BUCKET?list-type=2&start-after=a");
+  text = await res.text();
+  t.deepEqual(
+    Array.from(text.matchAll(/<Key>(.+?)<\/Key>/g), ([, key]) => key),
+    ["b", "c"]
+  );
+});
+test("ListObjectsV2: URL-encodes keys if requested", async (t) => {
+  const { s3, bucket } = t.context;
+  await bucket.put("dir/key name", "value");
+  const res = await s3("/BUCKET?list-type=2&encoding-type=url");
+  const text = await res.text();
+  t.regex(text, /<EncodingType>url<\/EncodingType>/);
+  t.regex(text, /<Key>dir\/key%20name<\/Key>/);
+});
+test("CopyObject: copies object between buckets", async (t) => {
+  const { s3, bucket, other } = t.context;
+  await bucket.put("key", "value", {
+    httpMetadata: { contentType: "text/plain" },
+    customMetadata: { foo: "bar" },
+  });
+  let res = await s3("/OTHER/copy", {
+    method: "PUT",
+    headers: { "x-amz-copy-source": "/BUCKET/key" },
+  });
+  t.is(res.status, 200);
+  let copy = await other.get("copy");
+  t.regex(
+    await res.text(),
+    new RegExp(`<CopyObjectResult.*><ETag>&quot;${copy?.etag}&quot;</ETag>`)
+  );
+  t.is(await copy?.text(), "value");
+  t.deepEqual(copy?.httpMetadata, { contentType: "text/plain" });
+  t.deepEqual(copy?.customMetadata, { foo: "bar" });
+
+  // Check metadata replaced if requested
+  res = await s3("/BUCKET/copy", {
+    method: "PUT",
+    headers: {
+      "x-amz-copy-source": "BUCKET/key",
+      "x-amz-metadata-directive": "REPLACE",
+      "x-amz-meta-bar": "baz",
+    },
+  });
+  t.is(res.status, 200);
+  copy = await bucket.get("copy");
+  t.is(await copy?.text(), "value");
+  t.deepEqual(copy?.httpMetadata, {});
+  t.deepEqual(copy?.customMetadata, { bar: "baz" });
+
+  res = await s3("/BUCKET/copy", {
+    method: "PUT",
+    headers: { "x-amz-copy-source": "/BUCKET/missing" },
+  });
+  t.is(res.status, 404);
+});
+test("returns errors for invalid and unsupported requests", async (t) => {
+  const { s3 } = t.context;
+  let res = await s3(`/BUCKET/${"x".repeat(1025)}`, { method: "PUT" });
+  t.is(res.status, 414);
+  t.regex(await res.text(), /exceeds key length limit of 1024/);
+  res = await s3("/BUCKET/key?uploads", { method: "POST" });
+  t.is(res.status, 501);
+  t.regex(await res.text(), /<Code>NotImplemented<\/Code>/);
+  res = await s3("/BUCKET/key", { method: "POST" });
+  t.is(res.status, 501);
+});
@@ -61,6 +61,7 @@ export async function createMiniflareEnvironment(
       r2Persist: false,
       cachePersist: false,
       durableObjectsPersist: false,
+      queuesPersist: false,
       // - Allow all global operations, tests will be outside of a request
       //   context, but we definitely want to allow people to access their
       //   namespaces, perform I/O, etc.
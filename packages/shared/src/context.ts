@@ -75,6 +75,11 @@ export interface RequestContextOptions {
    * WebSocket subrequest limits for incoming messages.
    */
   durableObject?: boolean;
+  /**
+   * Simulated edge location (e.g. `request.cf.colo`) handling this request.
+   * Used to emulate KV's eventual consistency.
+   */
+  location?: string;
 
   /** Maximum external subrequests (`fetch`, Cache API) allowed. */
   externalSubrequestLimit?: number | false;
@@ -86,6 +91,7 @@ export class RequestContext {
   readonly requestDepth: number;
   readonly pipelineDepth: number;
   readonly durableObject: boolean;
+  readonly location?: string;
 
   readonly externalSubrequestLimit: number | false;
   readonly internalSubrequestLimit: number | false;
@@ -98,6 +104,7 @@ export class RequestContext {
     requestDepth = 1,
     pipelineDepth = 1,
     durableObject = false,
+    location,
     externalSubrequestLimit = EXTERNAL_SUBREQUEST_LIMIT_BUNDLED,
     internalSubrequestLimit = INTERNAL_SUBREQUEST_LIMIT,
   }: RequestContextOptions = {}) {
@@ -117,6 +124,7 @@ export class RequestContext {
     this.requestDepth = requestDepth;
     this.pipelineDepth = pipelineDepth;
     this.durableObject = durableObject;
+    this.location = location;
 
     this.externalSubrequestLimit =
       EXTERNAL_SUBREQUEST_LIMIT_OVERRIDE !== undefined
@@ -90,6 +90,23 @@ export interface Mount<Request = any, Response = any> {
   usageModel?: UsageModel;
 }
 
+// Cache for outbound fetch() subrequests using `cf` cache options (e.g.
+// `cacheTtl`). This is implemented by @miniflare/cache, which depends on
+// @miniflare/core, so is provided to core's fetch() via the PluginContext.
+export interface FetchCache<Request = any, Response = any> {
+  fetch(
+    request: Request,
+    fetcher: (request: Request) => Promise<Response>
+  ): Promise<Response>;
+}
+
+// PluginContexts are recreated on reload, but plugins with unchanged options
+// keep their existing one, so the FetchCache is stored in a shared reference
+// that can be updated by whichever plugin implements it
+export interface FetchCacheRef {
+  current?: FetchCache;
+}
+
 export interface PluginContext {
   log: Log;
   compat: Compatibility;
@@ -97,6 +114,7 @@ export interface PluginContext {
   usageModel?: UsageModel;
   globalAsyncIO?: boolean;
   fetchMock?: MockAgent;
+  fetchCache?: FetchCacheRef;
   queueEventDispatcher: QueueEventDispatcher;
   queueBroker: QueueBroker;
 }
@@ -125,6 +143,16 @@ export abstract class Plugin<Options extends Context = never> {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   setup?(storageFactory: StorageFactory): Awaitable<SetupResult | void>;
 
+  // Called with requests to /cdn-cgi/* utility paths that Miniflare doesn't
+  // handle itself, allowing plugins to serve their own APIs. Resolves to a
+  // Response, or undefined if the request isn't for this plugin. Request and
+  // Response are untyped for the same reason as in Mount.
+  handleUtilityRequest?(
+    storageFactory: StorageFactory,
+    request: any,
+    url: URL
+  ): Awaitable<any>;
+
   // Called before the worker's script is executed. May be called more times
   // than reload() if the worker is mounted. When a mounted worker is reloaded,
   // it calls beforeReload(), runs the script, but doesn't run reload(). It then
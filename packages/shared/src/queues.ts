@@ -1,7 +1,13 @@
+import { Storage } from "./storage";
+
 // Internal types:
 
 export const kGetConsumer = Symbol("kGetConsumer");
 export const kSetConsumer = Symbol("kSetConsumer");
+export const kRemoveConsumer = Symbol("kRemoveConsumer");
+export const kGetConsumers = Symbol("kGetConsumers");
+export const kSetStorage = Symbol("kSetStorage");
+export const kSetConfig = Symbol("kSetConfig");
 
 export type QueueEventDispatcher = (batch: MessageBatch) => Promise<void>;
 
@@ -9,20 +15,49 @@ export interface QueueBroker {
   getOrCreateQueue(name: string): Queue;
 
   setConsumer(queue: Queue, consumer: Consumer): void;
+
+  removeConsumer(queue: Queue, consumer: Consumer): void;
+
+  setStorage(queue: Queue, storage: Storage): Promise<void>;
+
+  setConfig(queue: Queue, config: QueueConfig): void;
+}
+
+// Settings belonging to the queue itself, rather than any of its consumers
+export interface QueueConfig {
+  // Default delay in seconds applied to messages sent without a delay
+  deliveryDelay?: number;
 }
 
+// Push ("worker") consumers have batches dispatched to them, whereas pull
+// ("http_pull") consumers fetch messages over HTTP
+export type ConsumerType = "worker" | "http_pull";
+
 export interface Consumer {
   queueName: string;
+  type?: ConsumerType;
   maxBatchSize: number;
   maxWaitMs: number;
   maxRetries: number;
   deadLetterQueue?: string;
+  // Default delay in seconds applied to retried messages without a delay
+  retryDelay?: number;
+  // Default time in milliseconds pulled messages are leased for
+  visibilityTimeoutMs?: number;
   dispatcher: QueueEventDispatcher;
 }
 
 // External types (exposed to user code):
 export type MessageSendOptions = {
-  // Reserved
+  delaySeconds?: number;
+};
+
+export type MessageBatchSendOptions = {
+  delaySeconds?: number;
+};
+
+export type MessageRetryOptions = {
+  delaySeconds?: number;
 };
 
 export type MessageSendRequest<Body = unknown> = {
@@ -31,21 +66,31 @@ export type MessageSendRequest<Body = unknown> = {
 
 export interface Queue<Body = unknown> {
   send(message: Body, options?: MessageSendOptions): Promise<void>;
-  sendBatch(batch: Iterable<MessageSendRequest<Body>>): Promise<void>;
+  sendBatch(
+    batch: Iterable<MessageSendRequest<Body>>,
+    options?: MessageBatchSendOptions
+  ): Promise<void>;
 
   [kSetConsumer](consumer: Consumer): void;
+  [kRemoveConsumer](consumer: Consumer): void;
   [kGetConsumer](): Consumer | null;
+  [kGetConsumers](): Consumer[];
+  [kSetStorage](storage: Storage): Promise<void>;
+  [kSetConfig](config: QueueConfig): void;
 }
 
 export interface Message<Body = unknown> {
   readonly id: string;
   readonly timestamp: Date;
   readonly body: Body;
-  retry(): void;
+  readonly attempts: number;
+  ack(): void;
+  retry(options?: MessageRetryOptions): void;
 }
 
 export interface MessageBatch<Body = unknown> {
   readonly queue: string;
   readonly messages: Message<Body>[];
-  retryAll(): void;
+  ackAll(): void;
+  retryAll(options?: MessageRetryOptions): void;
 }
@@ -10,7 +10,10 @@ export interface DBConstructor {
   new (filename: string | Buffer, options?: SqliteOptions): SqliteDB;
 }
 
-export async function createSQLiteDB(dbPath: string): Promise<SqliteDB> {
+// `dbPath` may also be a serialized database, which will be opened in-memory
+export async function createSQLiteDB(
+  dbPath: string | Buffer
+): Promise<SqliteDB> {
   // eslint-disable-next-line es/no-dynamic-import
   const { npxImport, npxResolve } = await import("npx-import");
   const { default: DatabaseConstructor } = await npxImport<{
@@ -120,6 +120,9 @@ export abstract class Storage {
   async getSqliteDatabase(): Promise<SqliteDB> {
     throw new Error("D1 not implemented for this Storage class");
   }
+  // Called after the database returned by `getSqliteDatabase()` is written to,
+  // for storages that don't write to the database's backing store directly
+  async flushSqliteDatabase(): Promise<void> {}
 
   // Batch functions, default implementations may be overridden to optimise
 
@@ -35,6 +35,8 @@ export interface WranglerEnvironmentConfig {
     binding: string;
     database_name: string;
     database_id: string;
+    migrations_table?: string;
+    migrations_dir?: string;
   }[]; // NOT inherited
   r2_buckets?: {
     binding: string;
@@ -54,6 +56,14 @@ export interface WranglerEnvironmentConfig {
       script_name?: string;
     }[];
   }; // (probably) NOT inherited
+  migrations?: {
+    tag: string;
+    new_classes?: string[];
+    new_sqlite_classes?: string[];
+    renamed_classes?: { from: string; to: string }[];
+    deleted_classes?: string[];
+    transferred_classes?: { from: string; from_script: string; to: string }[];
+  }[]; // inherited
   queues?: {
     producers?: {
       binding: string;
@@ -61,10 +71,14 @@ export interface WranglerEnvironmentConfig {
     }[];
     consumers?: {
       queue: string;
+      type?: "worker" | "http_pull";
       batch_size?: number;
       batch_timeout?: number;
       message_retries?: number;
       dead_letter_queue?: string;
+      delivery_delay?: number;
+      retry_delay?: number;
+      visibility_timeout_ms?: number;
     }[];
   }; // (probably) NOT inherited
   triggers?: {
@@ -83,12 +97,26 @@ export interface WranglerEnvironmentConfig {
     watch?: boolean;
     build_watch_dirs?: string[];
     kv_persist?: boolean | string;
+    kv_edge_caching?: boolean;
+    kv_propagation_delay?: number;
     d1_persist?: boolean | string;
+    d1_seed?: Record<string, string>;
     r2_persist?: boolean | string;
+    r2_s3_endpoint?: boolean;
+    r2_lifecycle?: Record<
+      string,
+      {
+        prefix?: string;
+        delete_after_days?: number;
+        abort_multipart_uploads_after_days?: number;
+      }[]
+    >;
+    queues_persist?: boolean | string;
     cache?: boolean;
     cache_persist?: boolean | string;
     durable_objects_persist?: boolean | string;
     durable_objects_alarms?: boolean;
+    durable_objects_eviction_timeout?: number;
     env_path?: string;
     host?: string;
     port?: number;
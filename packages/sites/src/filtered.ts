@@ -7,8 +7,6 @@ import {
   KVNamespace,
   KVPutOptions,
   KVPutValueType,
-  KVValue,
-  KVValueMeta,
 } from "@miniflare/kv";
 import { Matcher, Storage } from "@miniflare/shared";
 
@@ -43,19 +41,46 @@ export class FilteredKVNamespace extends KVNamespace {
     return true;
   }
 
+  // Gets many keys at once, returning `missing` for excluded keys
+  async #getMany<Value>(
+    keys: string[],
+    get: (keys: string[]) => Promise<Map<string, Value>>,
+    missing: Value
+  ): Promise<Map<string, Value>> {
+    const mapped = keys.map((key) => this.#options.map?.lookup(key) ?? key);
+    const values = await get(mapped.filter((key) => this.#included(key)));
+    return new Map(
+      keys.map((key, i) => [key, values.get(mapped[i]) ?? missing])
+    );
+  }
+
   get(
-    key: string,
+    key: string | string[],
     options?: KVGetValueType | Partial<KVGetOptions>
-  ): KVValue<any> {
+  ): Promise<any> {
+    if (Array.isArray(key)) {
+      return this.#getMany(
+        key,
+        (keys) => super.get(keys, options as any),
+        null
+      );
+    }
     key = this.#options.map?.lookup(key) ?? key;
     if (!this.#included(key)) return Promise.resolve(null);
     return super.get(key, options as any);
   }
 
   getWithMetadata<Meta = unknown>(
-    key: string,
+    key: string | string[],
     options?: KVGetValueType | Partial<KVGetOptions>
-  ): KVValueMeta<any, Meta> {
+  ): Promise<any> {
+    if (Array.isArray(key)) {
+      return this.#getMany(
+        key,
+        (keys) => super.getWithMetadata<any, Meta>(keys, options as any),
+        { value: null, metadata: null }
+      );
+    }
     key = this.#options.map?.lookup(key) ?? key;
     if (!this.#included(key)) {
       return Promise.resolve({ value: null, metadata: null });
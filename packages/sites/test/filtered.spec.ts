@@ -101,6 +101,21 @@ test("get: respects mapper", async (t) => {
   );
   t.is(await ns.get("prefix:section1key1"), "value11");
 });
+test("get: filters and maps many keys", async (t) => {
+  const ns = new FilteredKVNamespace(
+    t.context.storage,
+    { map: keyMapper, include: /^section1/ },
+    opts
+  );
+  const values = await ns.get(["prefix:section1key1", "prefix:section2key1"]);
+  t.deepEqual(
+    values,
+    new Map([
+      ["prefix:section1key1", "value11"],
+      ["prefix:section2key1", null],
+    ])
+  );
+});
 
 test("getWithMetadata: includes included values", async (t) => {
   const ns = new FilteredKVNamespace(
@@ -220,6 +235,24 @@ test("getWithMetadata: respects mapper", async (t) => {
     metadata: { testing: 1 },
   });
 });
+test("getWithMetadata: filters and maps many keys", async (t) => {
+  const ns = new FilteredKVNamespace(
+    t.context.storage,
+    { map: keyMapper, exclude: /^section2/ },
+    opts
+  );
+  const values = await ns.getWithMetadata([
+    "prefix:section1key1",
+    "prefix:section2key1",
+  ]);
+  t.deepEqual(
+    values,
+    new Map([
+      ["prefix:section1key1", { value: "value11", metadata: { testing: 1 } }],
+      ["prefix:section2key1", { value: null, metadata: null }],
+    ])
+  );
+});
 
 test("put: allowed if not read-only", async (t) => {
   const { storage } = t.context;
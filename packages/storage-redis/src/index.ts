@@ -3,6 +3,7 @@ import {
   Range,
   RangeStoredValue,
   RangeStoredValueMeta,
+  SqliteDB,
   Storage,
   StorageListOptions,
   StorageListResult,
@@ -11,6 +12,7 @@ import {
   StoredMeta,
   StoredValue,
   StoredValueMeta,
+  createSQLiteDB,
   millisToSeconds,
   viewToArray,
 } from "@miniflare/shared";
@@ -22,6 +24,12 @@ export function _bufferFromArray(value: Uint8Array): Buffer {
   return Buffer.from(value.buffer, value.byteOffset, value.byteLength);
 }
 
+// Redis has no SQLite support, so D1 databases are stored as serialized
+// snapshots. These are loaded into memory on first access and shared between
+// all `RedisStorage` instances with the same connection and namespace, so
+// writes are visible to all of them without reloading.
+const sqliteDatabases = new WeakMap<Commands, Map<string, Promise<SqliteDB>>>();
+
 export class RedisStorage extends Storage {
   readonly #redis: Commands;
 
@@ -408,4 +416,29 @@ export class RedisStorage extends Storage {
     }
     return res;
   }
+
+  async getSqliteDatabase(): Promise<SqliteDB> {
+    let databases = sqliteDatabases.get(this.#redis);
+    if (databases === undefined) {
+      databases = new Map();
+      sqliteDatabases.set(this.#redis, databases);
+    }
+    let db = databases.get(this.namespace);
+    if (db === undefined) {
+      db = this.#redis
+        .getBuffer(`${this.namespace}:sqlite`)
+        .then((snapshot) => createSQLiteDB(snapshot ?? ":memory:"));
+      databases.set(this.namespace, db);
+      // Allow loading to be retried if it failed
+      db.catch(() => databases?.delete(this.namespace));
+    }
+    return db;
+  }
+
+  async flushSqliteDatabase(): Promise<void> {
+    const db = sqliteDatabases.get(this.#redis)?.get(this.namespace);
+    if (db === undefined) return;
+    const snapshot = (await db).serialize();
+    await this.#redis.setBuffer(`${this.namespace}:sqlite`, snapshot);
+  }
 }
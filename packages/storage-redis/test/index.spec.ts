@@ -60,3 +60,29 @@ const storageFactory = new RedisStorageFactory();
 for (const macro of storageMacros) {
   redisTest(macro, storageFactory);
 }
+
+redisTest(
+  "getSqliteDatabase: loads and flushes database snapshots",
+  async (t) => {
+    assert(redis);
+    const ns = `${sanitisePath(t.title)}/${randomHex()}`;
+    const storage = new RedisStorage(redis, ns);
+    const db = await storage.getSqliteDatabase();
+    db.exec(
+      "CREATE TABLE colours (name TEXT); INSERT INTO colours VALUES ('red');"
+    );
+    // Check database shared with other storages in the same namespace
+    t.is(await new RedisStorage(redis, ns).getSqliteDatabase(), db);
+    t.is(await redis.exists(`${ns}:sqlite`), 0);
+
+    // Check database loaded from flushed snapshot with new connection
+    await storage.flushSqliteDatabase();
+    const otherRedis = new IORedis(redisUrl);
+    t.teardown(() => otherRedis.disconnect());
+    const otherDb = await new RedisStorage(otherRedis, ns).getSqliteDatabase();
+    t.not(otherDb, db);
+    t.deepEqual(otherDb.prepare("SELECT name FROM colours").all(), [
+      { name: "red" },
+    ]);
+  }
+);
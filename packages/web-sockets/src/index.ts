@@ -7,6 +7,7 @@ export {
   WebSocket,
   WebSocketPair,
   coupleWebSocket,
+  _kAcceptWithHandler,
   _kClose,
 } from "./websocket";
-export type { WebSocketEventMap } from "./websocket";
+export type { WebSocketEventHandler, WebSocketEventMap } from "./websocket";
@@ -1,5 +1,6 @@
 import assert from "assert";
 import { once } from "events";
+import { deserialize, serialize } from "v8";
 import { DOMException } from "@miniflare/core";
 import {
   EXTERNAL_SUBREQUEST_LIMIT_BUNDLED,
@@ -72,6 +73,16 @@ const kError = Symbol("kError");
 // should be initiated, and we just want to construct an instance of the class.
 const kConstructOnly = Symbol("kConstructOnly");
 
+// Internal method for accepting a WebSocket, calling the specified handler
+// with events instead of dispatching them. Used by the Durable Object
+// WebSocket hibernation API, where handlers must outlive listeners registered
+// by object instances.
+/** @internal */
+export const _kAcceptWithHandler = Symbol("kAcceptWithHandler");
+export type WebSocketEventHandler = (event: ValueOf<WebSocketEventMap>) => void;
+
+const MAX_ATTACHMENT_SIZE = 2048; /* 2KiB */
+
 export type WebSocketEventMap = {
   open: Event;
   message: MessageEvent;
@@ -91,6 +102,8 @@ export class WebSocket extends InputGatedEventTarget<WebSocketEventMap> {
   readonly #userConstructed;
 
   #dispatchQueue?: ValueOf<WebSocketEventMap>[] = [];
+  #eventHandler?: WebSocketEventHandler;
+  #attachment?: Buffer;
   [kPair]: WebSocket;
   [kAccepted] = false;
   [kCoupled] = false;
@@ -206,7 +219,7 @@ export class WebSocket extends InputGatedEventTarget<WebSocketEventMap> {
     await waitForOpenOutputGate();
     const pair = this[kPair];
     if (pair[kAccepted]) {
-      pair.dispatchEvent(event);
+      pair.#dispatch(event);
     } else {
       // Queue event until pair has `accept()`ed
       assert(pair.#dispatchQueue !== undefined);
@@ -214,12 +227,37 @@ export class WebSocket extends InputGatedEventTarget<WebSocketEventMap> {
     }
   }
 
+  #dispatch(event: ValueOf<WebSocketEventMap>): void {
+    if (this.#eventHandler === undefined) this.dispatchEvent(event);
+    else this.#eventHandler(event);
+  }
+
   accept(): void {
     if (this.#userConstructed) {
       throw new TypeError(
         "Websockets obtained from the 'new WebSocket()' constructor cannot call accept"
       );
     }
+    if (this.#eventHandler !== undefined) {
+      throw new TypeError(
+        "Can't accept() WebSocket that was already accepted by a Durable Object."
+      );
+    }
+    this.#accept();
+  }
+
+  [_kAcceptWithHandler](handler: WebSocketEventHandler): void {
+    if (this.#userConstructed) {
+      throw new TypeError(
+        "Websockets obtained from the 'new WebSocket()' constructor cannot be accepted by a Durable Object."
+      );
+    }
+    if (this[kAccepted]) {
+      throw new TypeError(
+        "Can't accept WebSocket in a Durable Object that was already accepted with accept()."
+      );
+    }
+    this.#eventHandler = handler;
     this.#accept();
   }
 
@@ -240,11 +278,29 @@ export class WebSocket extends InputGatedEventTarget<WebSocketEventMap> {
     this[kAccepted] = true;
 
     if (this.#dispatchQueue !== undefined) {
-      for (const event of this.#dispatchQueue) this.dispatchEvent(event);
+      for (const event of this.#dispatchQueue) this.#dispatch(event);
       this.#dispatchQueue = undefined;
     }
   }
 
+  // Attachments are stored with the WebSocket, so they survive Durable Object
+  // hibernation. Values are structured cloned.
+  serializeAttachment(value: unknown): void {
+    const serialized = serialize(value);
+    if (serialized.byteLength > MAX_ATTACHMENT_SIZE) {
+      throw new TypeError(
+        `A WebSocket 'attachment' cannot be larger than ${MAX_ATTACHMENT_SIZE} bytes.`
+      );
+    }
+    this.#attachment = serialized;
+  }
+
+  deserializeAttachment(): unknown {
+    return this.#attachment === undefined
+      ? null
+      : deserialize(this.#attachment);
+  }
+
   send(message: ArrayBuffer | string): void {
     if (!this[kAccepted]) {
       throw new TypeError(
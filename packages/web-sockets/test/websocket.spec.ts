@@ -19,6 +19,7 @@ import {
   MessageEvent,
   WebSocket,
   WebSocketPair,
+  _kAcceptWithHandler,
   coupleWebSocket,
 } from "@miniflare/web-sockets";
 import test, { ExecutionContext } from "ava";
@@ -533,3 +534,46 @@ test("WebSocket: constructor: cannot accept constructed sockets", async (t) => {
       "Websockets obtained from the 'new WebSocket()' constructor cannot call accept",
   });
 });
+test("WebSocket: serializes and deserializes attachments", (t) => {
+  const [webSocket] = Object.values(new WebSocketPair());
+  t.is(webSocket.deserializeAttachment(), null);
+  const attachment = { id: 1, tags: new Set(["a"]) };
+  webSocket.serializeAttachment(attachment);
+  // Check attachment structured cloned
+  attachment.id = 2;
+  t.deepEqual(webSocket.deserializeAttachment(), {
+    id: 1,
+    tags: new Set(["a"]),
+  });
+});
+test("WebSocket: validates attachment size", (t) => {
+  const [webSocket] = Object.values(new WebSocketPair());
+  webSocket.serializeAttachment("a");
+  t.throws(() => webSocket.serializeAttachment("a".repeat(2048)), {
+    instanceOf: TypeError,
+    message: "A WebSocket 'attachment' cannot be larger than 2048 bytes.",
+  });
+  // Check previous attachment retained
+  t.is(webSocket.deserializeAttachment(), "a");
+});
+test("WebSocket: accepting with handler calls handler instead of listeners", async (t) => {
+  const [webSocket1, webSocket2] = Object.values(new WebSocketPair());
+  const [eventTrigger, eventPromise] = triggerPromise<MessageEvent>();
+  webSocket1.addEventListener("message", () => t.fail());
+  webSocket1[_kAcceptWithHandler]((event) => {
+    if (event instanceof MessageEvent) eventTrigger(event);
+  });
+  t.throws(() => webSocket1.accept(), {
+    instanceOf: TypeError,
+    message:
+      "Can't accept() WebSocket that was already accepted by a Durable Object.",
+  });
+  webSocket2.accept();
+  webSocket2.send("test");
+  t.is((await eventPromise).data, "test");
+  t.throws(() => webSocket2[_kAcceptWithHandler](noop), {
+    instanceOf: TypeError,
+    message:
+      "Can't accept WebSocket in a Durable Object that was already accepted with accept().",
+  });
+});